@@ -5,17 +5,27 @@
  */
 
 import { window, workspace, WorkspaceConfiguration } from 'vscode';
+import ConfigHelper from './helpers/ConfigHelper';
+import { IExportOptions } from './helpers/ExportHelper';
+import { IDWConfig } from './services/IDWConfig';
+import { IJobRunnerOptions } from './services/JobRunner';
+import RetryPolicy, { IRetryOptions } from './services/RetryPolicy';
 
 /* ========================================================================
  * Configuration Helpers
  * ======================================================================== */
 
 /**
- * @function getAPIVersion - Gets the configured API version from the VSCode
- *    configuration setting if configured or uses a default fallback if not.
+ * @function getAPIVersion - Gets the API version of the active connection
+ *    profile, or the version from the VSCode configuration setting if the
+ *    profile doesn't set one. Uses a default fallback if neither is configured.
+ * @param {IDWConfig} [profile] - The connection profile to get the version of.
+ *    Defaults to the active connection profile.
  * @returns {string} - Returns the version string for use in an OCAPI document.
  */
-export const getAPIVersion = () => {
+export const getAPIVersion = (
+  profile: IDWConfig = ConfigHelper.activeProfile
+) => {
   const DEFAULT = '20.4';
   // Get the workspace configuration object for all configuration settings
   // related to this extension.
@@ -23,7 +33,8 @@ export const getAPIVersion = () => {
     'extension.sfccmetadata'
   );
 
-  const apiVersion: string = String(workspaceConfig.get('ocapi.version'));
+  const apiVersion: string = profile && profile.ocapiVersion ?
+    profile.ocapiVersion : String(workspaceConfig.get('ocapi.version'));
   const tester = /^[\d]{2}\.[\d]$/;
   if (apiVersion && !tester.test(apiVersion)) {
     window.showErrorMessage('Value configured for OCAPI version in preference' +
@@ -37,24 +48,33 @@ export const getAPIVersion = () => {
 /**
  * @function getAPIVersionForPath - Gets the configured API version in the
  *    expected format for using in an OCAPI call URL.
+ * @param {IDWConfig} [profile] - The connection profile to get the version of.
+ *    Defaults to the active connection profile.
  * @returns {string} - Returns the string version of the URL.
  */
-export const getAPIVersionForPath = () => {
-  return 'v' + getAPIVersion().replace('.', '_');
+export const getAPIVersionForPath = (
+  profile: IDWConfig = ConfigHelper.activeProfile
+) => {
+  return 'v' + getAPIVersion(profile).replace('.', '_');
 };
 
 /**
- * Gets the configured clientId for the OCAPI calls from the VSCode setting, or
- * uses the default if none is set.
+ * Gets the configured clientId for the OCAPI calls from the active connection
+ * profile or the VSCode setting, or uses the default if none is set.
+ * @param {IDWConfig} [profile] - The connection profile to get the client Id
+ *    of. Defaults to the active connection profile.
  * @return {string} - Returns the 30 character client Id configured for
  *    making calls to OCAPI.
  */
-export const getClientId = () => {
+export const getClientId = (
+  profile: IDWConfig = ConfigHelper.activeProfile
+) => {
   let clientId = apiConfig.clientId;
   const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
     'extension.sfccmetadata'
   );
-  const configId = String(workspaceConfig.get('ocapi.clientid'));
+  const configId = profile && profile.clientId ?
+    profile.clientId : String(workspaceConfig.get('ocapi.clientid'));
   const tester = /^[\S]{30}$/;
   if (configId && !tester.test(configId)) {
     window.showErrorMessage('Value configured for OCAPI clientId is not valid: ' +
@@ -65,17 +85,22 @@ export const getClientId = () => {
 };
 
 /**
- * Gets the configured client password for the OCAPI calls from VSCode setting,
- * or uses the default if none is set.
+ * Gets the configured client password for the OCAPI calls from the active
+ * connection profile or the VSCode setting, or uses the default if none is set.
+ * @param {IDWConfig} [profile] - The connection profile to get the client
+ *    password of. Defaults to the active connection profile.
  * @return {string} - Returns the 30 character client Id configured for
  *    making calls to OCAPI.
  */
-export const getClientPass = () => {
+export const getClientPass = (
+  profile: IDWConfig = ConfigHelper.activeProfile
+) => {
   let defaultPass = apiConfig.clientId;
   const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
     'extension.sfccmetadata'
   );
-  const configPass = String(workspaceConfig.get('ocapi.clientpassword'));
+  const configPass = profile && profile.clientPassword ?
+    profile.clientPassword : String(workspaceConfig.get('ocapi.clientpassword'));
   const tester = /^[\S]{30}$/;
   if (configPass && !tester.test(configPass)) {
     window.showErrorMessage('Value configured for OCAPI client password is not valid: ' +
@@ -85,6 +110,101 @@ export const getClientPass = () => {
   return configPass && tester.test(configPass) ? configPass : defaultPass;
 };
 
+/**
+ * Gets the configured URL of the authorization server that is used to request
+ * client credentials grant type tokens, or uses the Account Manager URL if no
+ * URL is configured.
+ * @return {string} - Returns the URL of the access token endpoint.
+ */
+export const getAuthServerURL = () => {
+  const DEFAULT = 'https://account.demandware.com/dwsso/oauth2/access_token';
+  const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
+    'extension.sfccmetadata'
+  );
+  const configURL = workspaceConfig.get('ocapi.authserver');
+  const tester = /^https?:\/\/\S+$/;
+  if (configURL && !tester.test(String(configURL))) {
+    window.showErrorMessage('Value configured for OCAPI authorization server ' +
+      'is not a valid URL: ' + configURL + '. Using default URL: ' + DEFAULT);
+  }
+
+  return configURL && tester.test(String(configURL)) ?
+    String(configURL) : DEFAULT;
+};
+
+/**
+ * Gets the configured retry & timeout settings for OCAPI calls, or uses the
+ * defaults of the RetryPolicy class for any settings that aren't valid.
+ * @return {IRetryOptions} - Returns the options for creating a RetryPolicy.
+ */
+export const getRetryOptions = (): IRetryOptions => {
+  const defaults = RetryPolicy.DEFAULT_OPTIONS;
+  const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
+    'extension.sfccmetadata'
+  );
+  const getNumber = (setting: string, defaultValue: number) => {
+    const value = workspaceConfig.get(setting);
+    return typeof value === 'number' && value >= 0 ? value : defaultValue;
+  };
+
+  return {
+    maxDelay: defaults.maxDelay,
+    maxRetries: getNumber('ocapi.retries', defaults.maxRetries),
+    retryDelay: getNumber('ocapi.retrydelay', defaults.retryDelay),
+    timeout: getNumber('ocapi.timeout', defaults.timeout) || defaults.timeout
+  };
+};
+
+/**
+ * Gets the configured polling settings for tracking job executions. Settings
+ * that aren't valid are left out, so that the defaults of the JobRunner class
+ * are used for them.
+ * @return {Partial<IJobRunnerOptions>} - Returns the options for creating a
+ *    JobRunner.
+ */
+export const getJobRunnerOptions = (): Partial<IJobRunnerOptions> => {
+  const options: Partial<IJobRunnerOptions> = {};
+  const settings = {
+    maxPollInterval: 'jobs.maxpollinterval',
+    pollInterval: 'jobs.pollinterval',
+    timeout: 'jobs.timeout'
+  };
+  const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
+    'extension.sfccmetadata'
+  );
+
+  Object.keys(settings).forEach(option => {
+    const value = workspaceConfig.get(settings[option]);
+
+    // Only the timeout can be disabled with a value of 0.
+    if (typeof value === 'number' &&
+      (value > 0 || (value === 0 && option === 'timeout'))
+    ) {
+      options[option] = value;
+    }
+  });
+
+  return options;
+};
+
+/**
+ * Gets the configured settings for extracting the archives of the site export
+ * job into the workspace.
+ * @return {IExportOptions} - Returns the export settings.
+ */
+export const getExportOptions = (): IExportOptions => {
+  const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
+    'extension.sfccmetadata'
+  );
+
+  return {
+    deleteRemoteArchive: workspaceConfig.get('export.deleteremotearchive', false),
+    folder: String(
+      workspaceConfig.get('export.folder', 'sites/site_template')).trim(),
+    prettyPrint: workspaceConfig.get('export.prettyprint', true)
+  };
+};
+
 /* ========================================================================
  * Exported API Configuration Object
  * ======================================================================== */
@@ -157,6 +277,11 @@ export const apiConfig = {
               type: 'string',
               use: 'QUERY_PARAMETER'
             },
+            {
+              id: 'count',
+              type: 'number',
+              use: 'QUERY_PARAMETER'
+            },
             {
               id: 'objectType',
               type: 'string',
@@ -164,6 +289,170 @@ export const apiConfig = {
             }
           ],
           path: 'custom_object_definitions/{objectType}/attribute_definitions'
+        },
+
+        /* ==================================================================
+         * GET CUSTOM OBJECT ATTRIBUTE DEFINITION
+         * ================================================================== */
+        getAttribute: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'GET',
+          params: [
+            {
+              id: 'id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'custom_object_definitions/{objectType}/attribute_definitions/{id}'
+        },
+
+        /* ==================================================================
+         * GET CUSTOM OBJECT ATTRIBUTE GROUPS
+         * ================================================================== */
+        getAttributeGroups: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'GET',
+          params: [
+            {
+              id: 'select',
+              type: 'string',
+              use: 'QUERY_PARAMETER'
+            },
+            {
+              id: 'count',
+              type: 'number',
+              use: 'QUERY_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_object_definitions/{objectType}/attribute_groups'
+        }
+      }
+    },
+
+    /***************************************************************************
+     * OCAPI : Data API
+     * Resource : CustomObjects
+     **************************************************************************/
+    customObjects: {
+      api: 'data',
+      availableCalls: {
+        /* ==================================================================
+         * GET CUSTOM OBJECT
+         * ================================================================== */
+        get: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'GET',
+          params: [
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'key',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_objects/{objectType}/{key}'
+        },
+
+        /* ==================================================================
+         * CREATE CUSTOM OBJECT
+         * ================================================================== */
+        create: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'PUT',
+          params: [
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'key',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_objects/{objectType}/{key}'
+        },
+
+        /* ==================================================================
+         * UPDATE CUSTOM OBJECT
+         * ================================================================== */
+        update: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'PATCH',
+          params: [
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'key',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_objects/{objectType}/{key}'
+        },
+
+        /* ==================================================================
+         * DELETE CUSTOM OBJECT
+         * ================================================================== */
+        delete: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'DELETE',
+          params: [
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'key',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_objects/{objectType}/{key}'
+        },
+
+        /* ==================================================================
+         * SEARCH CUSTOM OBJECTS
+         * ================================================================== */
+        search: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'POST',
+          params: [
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path: 'custom_objects_search/{objectType}'
         }
       }
     },
@@ -214,6 +503,40 @@ export const apiConfig = {
           ],
           path:
             'jobs/{job_id}/executions/{execution_id}'
+        },
+
+        /* ==================================================================
+         * DELETE Job Execution
+         * ================================================================== */
+        cancelExecution: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'DELETE',
+          params: [
+            {
+              id: 'job_id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'execution_id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'jobs/{job_id}/executions/{execution_id}'
+        },
+
+        /* ==================================================================
+         * POST Job Execution Search
+         * ================================================================== */
+        searchExecutions: {
+          authorization: 'BM_USER',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'POST',
+          path:
+            'job_execution_search'
         }
       }
     },
@@ -425,6 +748,125 @@ export const apiConfig = {
             'system_object_definitions/{objectType}/attribute_definitions/{id}'
         },
 
+        /* ==================================================================
+         * UPDATE ATTRIBUTE DEFINITION
+         * ================================================================== */
+        updateAttribute: {
+          authorization: 'BM_USER',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json'
+          },
+          method: 'PATCH',
+          params: [
+            {
+              id: 'id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'system_object_definitions/{objectType}/attribute_definitions/{id}'
+        },
+
+        /* ==================================================================
+         * CREATE ATTRIBUTE VALUE DEFINITION
+         * ================================================================== */
+        createValueDefinition: {
+          authorization: 'BM_USER',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json'
+          },
+          method: 'PUT',
+          params: [
+            {
+              id: 'id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'valueId',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'system_object_definitions/{objectType}/attribute_definitions/{id}/value_definitions/{valueId}'
+        },
+
+        /* ==================================================================
+         * UPDATE ATTRIBUTE VALUE DEFINITION
+         * ================================================================== */
+        updateValueDefinition: {
+          authorization: 'BM_USER',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json'
+          },
+          method: 'PATCH',
+          params: [
+            {
+              id: 'id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'valueId',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'system_object_definitions/{objectType}/attribute_definitions/{id}/value_definitions/{valueId}'
+        },
+
+        /* ==================================================================
+         * DELETE ATTRIBUTE VALUE DEFINITION
+         * ================================================================== */
+        deleteValueDefinition: {
+          authorization: 'BM_USER',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json'
+          },
+          method: 'DELETE',
+          params: [
+            {
+              id: 'id',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'objectType',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            },
+            {
+              id: 'valueId',
+              type: 'string',
+              use: 'PATH_PARAMETER'
+            }
+          ],
+          path:
+            'system_object_definitions/{objectType}/attribute_definitions/{id}/value_definitions/{valueId}'
+        },
+
         /* ==================================================================
          * DELETE ATTRIBUTE DEFINITION
          * ================================================================== */
@@ -0,0 +1,232 @@
+/**
+ * @file CredentialProvider.ts
+ * @fileoverview - Exports a class for getting the credentials of a connection
+ *    profile from the editor's secret storage, with the plain text dw.json &
+ *    VSCode settings values used as fallbacks.
+ */
+
+import { ExtensionContext, Memento, window } from 'vscode';
+import { apiConfig, getClientId, getClientPass } from '../apiConfig';
+import { IDWConfig } from '../services/IDWConfig';
+
+/**
+ * @interface ISecretStorage - The parts of the VSCode SecretStorage API that
+ *    are used by the provider. The API is only available in newer versions of
+ *    VSCode, so it is accessed through this interface when it exists.
+ */
+interface ISecretStorage {
+  get(key: string): Thenable<string | undefined>;
+  store(key: string, value: string): Thenable<void>;
+  delete(key: string): Thenable<void>;
+}
+
+/**
+ * @interface ISecretStorageContext - The extension context of a VSCode version
+ *    that may include the SecretStorage API. The `secrets` member is optional
+ *    because the API is missing in versions older than 1.53.
+ */
+interface ISecretStorageContext extends ExtensionContext {
+  secrets?: ISecretStorage;
+}
+
+/**
+ * @interface ICredentials - The credentials used to connect to an instance.
+ */
+export interface ICredentials {
+  username: string;
+  password: string;
+  clientId: string;
+  clientPassword: string;
+}
+
+/**
+ * @class CredentialProvider
+ * @classdesc - Gets & stores the secrets of each connection profile. Secrets
+ *    are stored per profile name in the editor's secret storage.
+ */
+export default class CredentialProvider {
+  /** The secrets that can be stored for a profile, with display labels. */
+  public static readonly SECRET_TYPES = {
+    clientPassword: 'OCAPI Client Password',
+    password: 'Business Manager Password'
+  };
+
+  /** The global state key listing profiles already offered the migration. */
+  public static readonly MIGRATION_KEY: string =
+    'sfccmetadata.credentialMigrationPrompted';
+
+  private static secrets: ISecretStorage = null;
+  private static state: Memento = null;
+
+  /**
+   * Sets up the secret storage if the running version of VSCode supports it.
+   *
+   * @param {ExtensionContext} context - The extension context instance.
+   */
+  public static initialize(context: ExtensionContext) {
+    const contextSecrets = (context as ISecretStorageContext).secrets;
+
+    CredentialProvider.secrets = contextSecrets || null;
+    CredentialProvider.state = context.globalState;
+  }
+
+  /**
+   * Checks if the secret storage can be used in this version of VSCode.
+   *
+   * @return {boolean} - Returns true if secrets can be stored.
+   */
+  public static isSecretStorageAvailable(): boolean {
+    return !!CredentialProvider.secrets;
+  }
+
+  /**
+   * Gets the key that a secret of a profile is stored under.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @param {string} secretType - The type of secret: 'password' or
+   *    'clientPassword'.
+   * @return {string} - Returns the secret storage key.
+   */
+  public static getSecretKey(profile: IDWConfig, secretType: string): string {
+    return ['sfccmetadata', profile.name || profile.hostname, secretType]
+      .join('.');
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the credentials of a connection profile. Values from the secret
+   * storage take precedence over the plain text values from dw.json & the
+   * VSCode settings.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @return {Promise<ICredentials>} - Returns a promise that resolves to the
+   *    credentials of the profile.
+   */
+  public async getCredentials(profile: IDWConfig): Promise<ICredentials> {
+    const password = await this.getSecret(profile, 'password');
+    const clientPassword = await this.getSecret(profile, 'clientPassword');
+
+    this.promptMigration(profile).catch(e => console.error(e));
+
+    return {
+      clientId: getClientId(profile),
+      clientPassword: clientPassword || getClientPass(profile),
+      password: password || profile.password,
+      username: profile.username
+    };
+  }
+
+  /**
+   * Gets a secret of a profile from the secret storage.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @param {string} secretType - The type of secret: 'password' or
+   *    'clientPassword'.
+   * @return {Promise<string>} - Returns a promise that resolves to the secret,
+   *    or undefined if the secret has not been stored.
+   */
+  public async getSecret(
+    profile: IDWConfig,
+    secretType: string
+  ): Promise<string> {
+    if (!CredentialProvider.secrets) {
+      return undefined;
+    }
+
+    return CredentialProvider.secrets.get(
+      CredentialProvider.getSecretKey(profile, secretType));
+  }
+
+  /**
+   * Stores a secret of a profile in the secret storage. If a secret is already
+   * stored, then it is replaced.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @param {string} secretType - The type of secret: 'password' or
+   *    'clientPassword'.
+   * @param {string} value - The secret value.
+   */
+  public async setSecret(profile: IDWConfig, secretType: string, value: string) {
+    if (!CredentialProvider.secrets) {
+      return Promise.reject('Secret storage is not supported by this ' +
+        'version of VSCode.');
+    }
+
+    await CredentialProvider.secrets.store(
+      CredentialProvider.getSecretKey(profile, secretType), value);
+  }
+
+  /**
+   * Removes all of the stored secrets of a profile. The dw.json & VSCode
+   * settings values are used for the profile after they are removed.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   */
+  public async clearSecrets(profile: IDWConfig) {
+    if (!CredentialProvider.secrets) {
+      return;
+    }
+
+    for (const secretType of Object.keys(CredentialProvider.SECRET_TYPES)) {
+      await CredentialProvider.secrets.delete(
+        CredentialProvider.getSecretKey(profile, secretType));
+    }
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Offers to copy the plain text passwords of a profile into the secret
+   * storage. The prompt is only shown once for each profile.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   */
+  private async promptMigration(profile: IDWConfig) {
+    const state = CredentialProvider.state;
+    const clientPassword = getClientPass(profile);
+    const plainSecrets = {
+      clientPassword: clientPassword !== apiConfig.clientPassword ?
+        clientPassword : '',
+      password: profile.password
+    };
+
+    if (!CredentialProvider.secrets || !state ||
+      (!plainSecrets.password && !plainSecrets.clientPassword)
+    ) {
+      return;
+    }
+
+    const prompted: string[] = state.get(CredentialProvider.MIGRATION_KEY, []);
+    if (prompted.indexOf(profile.name) > -1) {
+      return;
+    }
+
+    await state.update(CredentialProvider.MIGRATION_KEY,
+      prompted.concat(profile.name));
+
+    const answer = await window.showInformationMessage(
+      'The passwords for the SFCC connection profile "' + profile.name +
+      '" are stored in plain text. Move them to secure storage?',
+      'Move to Secure Storage',
+      'Not Now'
+    );
+
+    if (answer === 'Move to Secure Storage') {
+      for (const secretType of Object.keys(plainSecrets)) {
+        if (plainSecrets[secretType] &&
+          !(await this.getSecret(profile, secretType))
+        ) {
+          await this.setSecret(profile, secretType, plainSecrets[secretType]);
+        }
+      }
+
+      window.showInformationMessage('Credentials stored. You can now remove ' +
+        'the passwords from dw.json and the VSCode settings.');
+    }
+  }
+}
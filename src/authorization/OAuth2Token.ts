@@ -25,9 +25,19 @@ export class OAuth2Token {
     this.timeCreated = Date.now();
   }
 
-  public isValid(): boolean {
+  /**
+   * Checks if the token can still be used for making API calls.
+   *
+   * @param {number} [refreshMargin = 0] - The number of seconds before the
+   *    token expires that it should be considered invalid. This allows for a
+   *    token to be refreshed shortly before it expires on the server.
+   * @return {boolean} - Returns true if the token has not expired.
+   */
+  public isValid(refreshMargin: number = 0): boolean {
     const timeNow = Date.now();
-    if (timeNow - this.timeCreated > this.expiresIn * 1000) {
+    if (!this.accessToken ||
+      timeNow - this.timeCreated > (this.expiresIn - refreshMargin) * 1000
+    ) {
       return false;
     }
     return true;
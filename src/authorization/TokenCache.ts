@@ -0,0 +1,107 @@
+/**
+ * @file TokenCache.ts
+ * @fileoverview - Exports a class for caching OAuth 2.0 access tokens so that
+ *    a token can be reused across API calls until it is about to expire.
+ */
+
+import { OAuth2Token } from './OAuth2Token';
+
+/**
+ * @class TokenCache
+ * @classdesc - Caches OAuth2Token instances by a key made of the host, client
+ *    Id, and grant type of the token. Callers that request the same token while
+ *    a request for it is in-flight share the result of that request.
+ */
+export default class TokenCache {
+  /**
+   * The number of seconds before a token expires that it will be refreshed.
+   */
+  public static readonly REFRESH_MARGIN: number = 60;
+
+  private tokens: Map<string, OAuth2Token> = new Map();
+  private pendingRequests: Map<string, Promise<OAuth2Token>> = new Map();
+
+  /**
+   * Gets the cache key for a token. Business Manager user tokens are cached
+   * per user, so that profiles of the same instance with different users
+   * don't share a token.
+   *
+   * @param {string} hostname - The host that the token is used for.
+   * @param {string} clientId - The OCAPI client Id the token was granted to.
+   * @param {string} grantType - The type of token: 'BM_USER' or
+   *    'CLIENT_CREDENTIALS'.
+   * @param {string} [username] - The Business Manager user of a 'BM_USER'
+   *    token.
+   * @return {string} - Returns the key for storing the token in the cache.
+   */
+  public static getKey(
+    hostname: string,
+    clientId: string,
+    grantType: string,
+    username: string = ''
+  ): string {
+    const key = [hostname, clientId, grantType];
+
+    if (grantType === 'BM_USER') {
+      key.push(username);
+    }
+
+    return key.join('|');
+  }
+
+  /**
+   * Gets a valid token from the cache, or requests a new token if there is no
+   * cached token or the cached token is about to expire.
+   *
+   * @param {string} key - The cache key of the token.
+   * @param {Function} requestToken - A function that returns a Promise which
+   *    resolves to a new token from the authorization server.
+   * @return {Promise<OAuth2Token>} - Returns a Promise that resolves to the
+   *    cached or new token.
+   */
+  public getToken(
+    key: string,
+    requestToken: () => Promise<OAuth2Token>
+  ): Promise<OAuth2Token> {
+    const cachedToken = this.tokens.get(key);
+
+    if (cachedToken && cachedToken.isValid(TokenCache.REFRESH_MARGIN)) {
+      return Promise.resolve(cachedToken);
+    }
+
+    // Share the in-flight request with any concurrent callers.
+    if (this.pendingRequests.has(key)) {
+      return this.pendingRequests.get(key);
+    }
+
+    const request = requestToken().then(token => {
+      this.pendingRequests.delete(key);
+      this.tokens.set(key, token);
+      return token;
+    }, err => {
+      this.pendingRequests.delete(key);
+      return Promise.reject(err);
+    });
+
+    this.pendingRequests.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Removes a token from the cache so that the next call to getToken will
+   * request a new token.
+   *
+   * @param {string} key - The cache key of the token.
+   */
+  public invalidate(key: string) {
+    this.tokens.delete(key);
+  }
+
+  /**
+   * Removes all of the tokens from the cache.
+   */
+  public clear() {
+    this.tokens.clear();
+  }
+}
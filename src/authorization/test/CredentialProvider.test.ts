@@ -0,0 +1,124 @@
+/**
+ * @file CredentialProvider.test.ts
+ * @fileoverview - Provides unit testing of the CredentialProvider.ts class.
+ */
+import * as assert from 'assert';
+import { ExtensionContext } from 'vscode';
+
+import { IDWConfig } from '../../services/IDWConfig';
+import CredentialProvider from '../CredentialProvider';
+
+const PROFILE: IDWConfig = {
+  clientId: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+  clientPassword: 'cccccccccccccccccccccccccccccc',
+  hostname: 'dev01.example.com',
+  name: 'dev01',
+  ok: true,
+  password: 'plainPassword',
+  username: 'admin'
+};
+
+// CredentialProvider Test Suite
+suite('CredentialProvider Tests', () => {
+  const credentialProvider = new CredentialProvider();
+  const secrets: Map<string, string> = new Map();
+  const state: Map<string, any> = new Map();
+
+  /**
+   * Gets an extension context with in-memory global state, and with a secret
+   * storage when the running VSCode version is meant to support it.
+   */
+  const getContext = (hasSecrets: boolean) => {
+    const context = {
+      globalState: {
+        get: (key: string, defaultValue?: any) =>
+          state.has(key) ? state.get(key) : defaultValue,
+        update: (key: string, value: any) =>
+          Promise.resolve(state.set(key, value)).then(() => undefined)
+      },
+      secrets: hasSecrets ? {
+        delete: (key: string) =>
+          Promise.resolve(secrets.delete(key)).then(() => undefined),
+        get: (key: string) => Promise.resolve(secrets.get(key)),
+        store: (key: string, value: string) =>
+          Promise.resolve(secrets.set(key, value)).then(() => undefined)
+      } : undefined
+    };
+
+    return context as {} as ExtensionContext;
+  };
+
+  setup(() => {
+    secrets.clear();
+    state.clear();
+    // The migration prompt has already been shown for the test profile.
+    state.set(CredentialProvider.MIGRATION_KEY, [PROFILE.name]);
+    CredentialProvider.initialize(getContext(true));
+  });
+
+  suiteTeardown(() => {
+    CredentialProvider.initialize(getContext(false));
+  });
+
+  test('Stores & reads the secrets of a profile', async () => {
+    await credentialProvider.setSecret(PROFILE, 'password', 'storedPassword');
+
+    assert.ok(CredentialProvider.isSecretStorageAvailable());
+    assert.equal(secrets.get('sfccmetadata.dev01.password'), 'storedPassword');
+    assert.equal(
+      await credentialProvider.getSecret(PROFILE, 'password'),
+      'storedPassword'
+    );
+    assert.equal(
+      await credentialProvider.getSecret(PROFILE, 'clientPassword'),
+      undefined
+    );
+  });
+
+  test('Prefers stored secrets over the plain text values', async () => {
+    await credentialProvider.setSecret(PROFILE, 'clientPassword',
+      'dddddddddddddddddddddddddddddd');
+
+    assert.deepEqual(await credentialProvider.getCredentials(PROFILE), {
+      clientId: PROFILE.clientId,
+      clientPassword: 'dddddddddddddddddddddddddddddd',
+      password: 'plainPassword',
+      username: 'admin'
+    });
+  });
+
+  test('Clears the stored secrets of a profile', async () => {
+    await credentialProvider.setSecret(PROFILE, 'password', 'storedPassword');
+    await credentialProvider.setSecret(PROFILE, 'clientPassword',
+      'dddddddddddddddddddddddddddddd');
+    secrets.set('sfccmetadata.other.password', 'otherPassword');
+
+    await credentialProvider.clearSecrets(PROFILE);
+    const credentials = await credentialProvider.getCredentials(PROFILE);
+
+    assert.deepEqual(Array.from(secrets.keys()),
+      ['sfccmetadata.other.password']);
+    assert.equal(credentials.password, 'plainPassword');
+    assert.equal(credentials.clientPassword, PROFILE.clientPassword);
+  });
+
+  test('Falls back to plain text without secret storage', async () => {
+    CredentialProvider.initialize(getContext(false));
+
+    assert.ok(!CredentialProvider.isSecretStorageAvailable());
+    assert.equal(
+      await credentialProvider.getSecret(PROFILE, 'password'),
+      undefined
+    );
+    await credentialProvider.setSecret(PROFILE, 'password', 'storedPassword')
+      .then(
+        () => assert.fail('Storing the secret should have been rejected'),
+        err => assert.ok(/not supported/.test(err))
+      );
+    await credentialProvider.clearSecrets(PROFILE);
+    assert.equal(
+      (await credentialProvider.getCredentials(PROFILE)).password,
+      'plainPassword'
+    );
+  });
+});
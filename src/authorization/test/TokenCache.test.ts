@@ -0,0 +1,95 @@
+/**
+ * @file TokenCache.test.ts
+ * @fileoverview - Provides unit testing of the TokenCache.ts class.
+ */
+import * as assert from 'assert';
+
+import { OAuth2Token } from '../OAuth2Token';
+import TokenCache from '../TokenCache';
+
+// TokenCache Test Suite
+suite('TokenCache Tests', () => {
+  const KEY = TokenCache.getKey('example.com', 'clientId', 'BM_USER', 'admin');
+  let tokenCache: TokenCache;
+  let requestCount = 0;
+
+  /**
+   * Gets a function that requests a token which expires after the specified
+   * number of seconds, and counts the number of requests made.
+   */
+  const getRequest = (expiresIn: number) => () => {
+    requestCount++;
+    return Promise.resolve(new OAuth2Token({
+      access_token: 'token' + requestCount,
+      expires_in: expiresIn,
+      token_type: 'Bearer'
+    }));
+  };
+
+  setup(() => {
+    tokenCache = new TokenCache();
+    requestCount = 0;
+  });
+
+  test('Reuses a cached token until it is about to expire', async () => {
+    const token = await tokenCache.getToken(KEY, getRequest(1799));
+    const cachedToken = await tokenCache.getToken(KEY, getRequest(1799));
+
+    assert.strictEqual(cachedToken, token);
+    assert.equal(requestCount, 1);
+    assert.equal(KEY, 'example.com|clientId|BM_USER|admin');
+  });
+
+  test('Caches Business Manager user tokens per user', async () => {
+    const otherKey = TokenCache.getKey('example.com', 'clientId', 'BM_USER',
+      'editor');
+    const token = await tokenCache.getToken(KEY, getRequest(1799));
+    const otherToken = await tokenCache.getToken(otherKey, getRequest(1799));
+
+    assert.notStrictEqual(otherToken, token);
+    assert.equal(requestCount, 2);
+    assert.equal(
+      TokenCache.getKey('example.com', 'clientId', 'CLIENT_CREDENTIALS',
+        'admin'),
+      'example.com|clientId|CLIENT_CREDENTIALS'
+    );
+  });
+
+  test('Requests a new token when the cached token expires', async () => {
+    // The token expires within the refresh margin, so it is never reused.
+    const expiresIn = TokenCache.REFRESH_MARGIN - 1;
+    const token = await tokenCache.getToken(KEY, getRequest(expiresIn));
+    const newToken = await tokenCache.getToken(KEY, getRequest(expiresIn));
+
+    assert.notStrictEqual(newToken, token);
+    assert.equal(newToken.accessToken, 'token2');
+    assert.equal(requestCount, 2);
+  });
+
+  test('Shares in-flight requests & requests after invalidation', async () => {
+    const tokens = await Promise.all([
+      tokenCache.getToken(KEY, getRequest(1799)),
+      tokenCache.getToken(KEY, getRequest(1799))
+    ]);
+
+    assert.strictEqual(tokens[0], tokens[1]);
+    assert.equal(requestCount, 1);
+
+    tokenCache.invalidate(KEY);
+    const newToken = await tokenCache.getToken(KEY, getRequest(1799));
+
+    assert.equal(newToken.accessToken, 'token2');
+    assert.equal(requestCount, 2);
+  });
+
+  test('Does not cache failed token requests', async () => {
+    await tokenCache.getToken(KEY, () => Promise.reject('Denied')).then(
+      () => assert.fail('The token request should have been rejected'),
+      err => assert.equal(err, 'Denied')
+    );
+
+    const token = await tokenCache.getToken(KEY, getRequest(1799));
+
+    assert.equal(token.accessToken, 'token1');
+  });
+});
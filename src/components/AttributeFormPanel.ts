@@ -0,0 +1,783 @@
+/**
+ * @file AttributeFormPanel.ts
+ * @fileoverview - Contains the webview panel with the form for creating &
+ * editing the custom attribute definitions of system objects.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ViewColumn, WebviewPanel, window } from 'vscode';
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import CustomObjectsHelper from '../helpers/CustomObjectsHelper';
+import ImportHelper from '../helpers/ImportHelper';
+import OCAPIHelper from '../helpers/OCAPIHelper';
+import ValueDefinitionsHelper, {
+  IValueDefinitionLine
+} from '../helpers/ValueDefinitionsHelper';
+import XMLHandler from '../xmlHandler/XMLHandler';
+
+/**
+ * @interface IAttributeFormField - A field of the attribute definition form.
+ *    The field is a member of the ObjectAttributeDefinition class, and the
+ *    inputs of the form are named with the OCAPI document names of the fields.
+ */
+export interface IAttributeFormField {
+  field: string;
+  label: string;
+  section: string;
+  createOnly?: boolean;
+  integer?: boolean;
+  valueTypes?: string[];
+}
+
+/**
+ * @class AttributeFormPanel
+ * @classdesc A webview panel with a form for a system object attribute
+ *    definition. The form has a section for each group of fields, and the
+ *    fields that don't apply to the selected value type are hidden. The values
+ *    are validated as they are entered, and the JSON document that will be
+ *    sent to OCAPI is previewed below the form.
+ */
+export class AttributeFormPanel {
+  /** The view type of the webview panel. */
+  public static readonly VIEW_TYPE: string = 'sfccAttributeForm';
+
+  /** The value types of enum attributes. */
+  public static readonly ENUM_TYPES: string[] = ['enum_of_int', 'enum_of_string'];
+
+  /**
+   * The fields that are not part of the OCAPI document, and are saved by
+   * importing the XML of the attribute.
+   */
+  public static readonly XML_ONLY_FIELDS: string[] = ['fieldHeight', 'fieldWidth'];
+
+  /**
+   * The number fields that are -1 when they are not set. Negative values of
+   * the other number fields, like the min & max value, are valid values.
+   */
+  public static readonly UNSET_NUMBER_FIELDS: string[] = ['minLength', 'scale'];
+
+  /** The fields of the form in the order that they are shown. */
+  public static readonly FORM_FIELDS: IAttributeFormField[] = [
+    { createOnly: true, field: 'id', label: 'ID', section: 'General' },
+    {
+      createOnly: true,
+      field: 'valueType',
+      label: 'Value Type',
+      section: 'General'
+    },
+    { field: 'displayName', label: 'Display Name', section: 'General' },
+    { field: 'description', label: 'Description', section: 'General' },
+    { field: 'localizable', label: 'Localizable', section: 'Flags' },
+    { field: 'mandatory', label: 'Mandatory', section: 'Flags' },
+    { field: 'searchable', label: 'Searchable', section: 'Flags' },
+    { field: 'siteSpecific', label: 'Site Specific', section: 'Flags' },
+    { field: 'visible', label: 'Visible', section: 'Flags' },
+    {
+      field: 'externallyManaged',
+      label: 'Externally Managed',
+      section: 'Flags'
+    },
+    {
+      field: 'minLength',
+      integer: true,
+      label: 'Min Length',
+      section: 'Text',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.minLength.valueTypes
+    },
+    {
+      field: 'regularExpression',
+      label: 'Regular Expression',
+      section: 'Text',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.regularExpression.valueTypes
+    },
+    {
+      field: 'minValue',
+      label: 'Min Value',
+      section: 'Numbers',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.unit.valueTypes
+    },
+    {
+      field: 'maxValue',
+      label: 'Max Value',
+      section: 'Numbers',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.unit.valueTypes
+    },
+    {
+      field: 'unit',
+      label: 'Unit',
+      section: 'Numbers',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.unit.valueTypes
+    },
+    {
+      field: 'scale',
+      integer: true,
+      label: 'Scale',
+      section: 'Numbers',
+      valueTypes: OCAPIHelper.EDITABLE_FIELDS.scale.valueTypes
+    },
+    {
+      field: 'valueDefinitions',
+      label: 'Value Definitions',
+      section: 'Values',
+      valueTypes: AttributeFormPanel.ENUM_TYPES
+    },
+    {
+      field: 'fieldWidth',
+      integer: true,
+      label: 'Field Width',
+      section: 'Business Manager'
+    },
+    {
+      field: 'fieldHeight',
+      integer: true,
+      label: 'Field Height',
+      section: 'Business Manager'
+    }
+  ];
+
+  private importHelper = new ImportHelper();
+  private objectType: string;
+  private ocapiHelper = new OCAPIHelper();
+  private originalDoc: any;
+  private valueDefinitionsHelper = new ValueDefinitionsHelper();
+  private xmlHandler = new XMLHandler();
+
+  /**
+   * Gets the OCAPI document name of a field.
+   *
+   * @param {string} field - The member name of the field.
+   * @return {string} - Returns the name of the field in the document.
+   */
+  public static getDocName(field: string): string {
+    const memberMap = new ObjectAttributeDefinition({}).MEMBER_MAP;
+    return field in memberMap ? memberMap[field] : field;
+  }
+
+  /**
+   * Gets the kind of input of a field from the default value of the field in
+   * the ObjectAttributeDefinition class.
+   *
+   * @param {string} field - The member name of the field.
+   * @return {string} - Returns one of: `boolean`, `localized`, `number`,
+   *    `select`, `text` or `values`.
+   */
+  public static getFieldKind(field: string): string {
+    const defaultValue = new ObjectAttributeDefinition({})[field];
+
+    if (field === 'valueType') {
+      return 'select';
+    } else if (field === 'valueDefinitions') {
+      return 'values';
+    } else if (typeof defaultValue === 'boolean') {
+      return 'boolean';
+    } else if (typeof defaultValue === 'string') {
+      return 'text';
+    } else if (defaultValue && typeof defaultValue === 'object') {
+      return 'localized';
+    }
+
+    return 'number';
+  }
+
+  /**
+   * Gets the initial value of a text or number input of the form.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @param {string} field - The member name of the field.
+   * @return {string} - Returns the value of the input, which is empty if the
+   *    field is not set.
+   */
+  public static getInputValue(
+    attribute: ObjectAttributeDefinition,
+    field: string
+  ): string {
+    const value = attribute[field];
+
+    if (AttributeFormPanel.getFieldKind(field) !== 'number') {
+      return OCAPIHelper.getFieldDisplayValue(attribute, field);
+    } else if (typeof value !== 'number' || (value === -1 &&
+      AttributeFormPanel.UNSET_NUMBER_FIELDS.indexOf(field) > -1)
+    ) {
+      return '';
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Checks if a field of the form applies to a value type.
+   *
+   * @param {IAttributeFormField} formField - The field of the form.
+   * @param {string} valueType - The value type of the attribute.
+   * @return {boolean} - Returns true if the field is shown for the type.
+   */
+  public static isFieldShown(
+    formField: IAttributeFormField,
+    valueType: string
+  ): boolean {
+    return !formField.valueTypes ||
+      formField.valueTypes.indexOf(valueType) > -1;
+  }
+
+  /**
+   * Gets the attribute definition from the values of the form. The values
+   * are applied to the document of the attribute that is being edited, so
+   * that the fields that aren't in the form are kept. The value definitions
+   * that the attribute already has keep their localized display values &
+   * positions.
+   *
+   * @param {Object} values - The values of the form by document name.
+   * @param {Object} [originalDoc] - The OCAPI document of the attribute being
+   *    edited.
+   * @return {ObjectAttributeDefinition} - Returns the attribute definition.
+   */
+  public static getAttribute(
+    values: any,
+    originalDoc: any = {}
+  ): ObjectAttributeDefinition {
+    const doc = Object.assign({}, originalDoc);
+
+    AttributeFormPanel.FORM_FIELDS.forEach(formField => {
+      const docName = AttributeFormPanel.getDocName(formField.field);
+      const kind = AttributeFormPanel.getFieldKind(formField.field);
+
+      if (!(docName in values)) {
+        return;
+      }
+
+      const value = values[docName];
+
+      if (kind === 'boolean') {
+        doc[docName] = !!value;
+      } else if (kind === 'number') {
+        doc[docName] = String(value).trim() ? Number(value) : null;
+      } else if (kind === 'localized') {
+        doc[docName] = Object.assign({}, originalDoc[docName],
+          { default: String(value) });
+      } else if (kind !== 'values') {
+        doc[docName] = String(value).trim();
+      }
+    });
+
+    if ('value_definitions' in values) {
+      const originalDefs: any[] = originalDoc.value_definitions || [];
+
+      doc.value_definitions = AttributeFormPanel.parseValueDefinitions(
+        String(values.value_definitions)
+      ).map(line => {
+        const originalDef = originalDefs.filter(valueDef =>
+          String(valueDef.value) === line.value)[0];
+
+        return originalDef ? Object.assign({}, originalDef, {
+          display_value: Object.assign({}, originalDef.display_value,
+            { default: line.display })
+        }) : {
+          display_value: { default: line.display },
+          value: doc.value_type === 'enum_of_int' ?
+            Number(line.value) : line.value
+        };
+      });
+    }
+
+    return new ObjectAttributeDefinition(doc);
+  }
+
+  /**
+   * Gets the fields of an attribute definition that need to be saved. These
+   * are the fields that were changed from the attribute being edited, or for
+   * a new attribute, from the defaults of the ObjectAttributeDefinition class.
+   * The value definitions only count as changed if a value was added or
+   * removed, or if a default display value was changed.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute from the
+   *    form.
+   * @param {ObjectAttributeDefinition} [original] - The attribute being
+   *    edited.
+   * @return {string[]} - Returns the member names of the fields to save.
+   */
+  public static getSaveFields(
+    attribute: ObjectAttributeDefinition,
+    original?: ObjectAttributeDefinition
+  ): string[] {
+    const compareTo = original || new ObjectAttributeDefinition({});
+    const fields = AttributeFormPanel.FORM_FIELDS
+      .filter(formField => formField.field !== 'id' &&
+        AttributeFormPanel.isFieldShown(formField, attribute.valueType))
+      .map(formField => formField.field)
+      .filter(field => field === 'valueDefinitions' ?
+        AttributeFormPanel.getValuesKey(attribute) !==
+          AttributeFormPanel.getValuesKey(compareTo) :
+        JSON.stringify(attribute[field]) !== JSON.stringify(compareTo[field]));
+
+    // A new attribute always needs its type & display name.
+    if (!original) {
+      ['displayName', 'valueType']
+        .filter(field => fields.indexOf(field) === -1)
+        .forEach(field => fields.push(field));
+    }
+
+    return fields;
+  }
+
+  /**
+   * Parses the value definitions of the form. Each line of the text is a
+   * value, optionally followed by `=` and the display value.
+   *
+   * @param {string} text - The value definitions of the form.
+   * @return {IValueDefinitionLine[]} - Returns the values with their display
+   *    values.
+   */
+  public static parseValueDefinitions(text: string): IValueDefinitionLine[] {
+    return text.split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => {
+        const separatorIndex = line.indexOf('=');
+        const value = (separatorIndex > -1 ?
+          line.substring(0, separatorIndex) : line).trim();
+        const display = separatorIndex > -1 ?
+          line.substring(separatorIndex + 1).trim() : '';
+
+        return { display: display || value, value };
+      });
+  }
+
+  /**
+   * Validates the values of the form.
+   *
+   * @param {Object} values - The values of the form by document name.
+   * @param {string} valueType - The value type of the attribute.
+   * @param {boolean} isNew - If the attribute is being created.
+   * @return {Object} - Returns the error messages by document name, which
+   *    are empty if the values are valid.
+   */
+  public static validateValues(
+    values: any,
+    valueType: string,
+    isNew: boolean
+  ): { [docName: string]: string } {
+    const errors: { [docName: string]: string } = {};
+    const getValue = (docName: string) =>
+      docName in values ? String(values[docName]).trim() : '';
+
+    if (isNew) {
+      errors.id = CustomObjectsHelper.validateId(getValue('id'));
+      errors.value_type = valueType ? '' : 'Select the value type';
+    }
+
+    errors.display_name = getValue('display_name') ? '' :
+      'Enter a display name';
+
+    AttributeFormPanel.FORM_FIELDS.filter(formField =>
+      AttributeFormPanel.getFieldKind(formField.field) === 'number' &&
+      AttributeFormPanel.isFieldShown(formField, valueType)
+    ).forEach(formField => {
+      const docName = AttributeFormPanel.getDocName(formField.field);
+      const value = getValue(docName);
+
+      if (value && formField.integer && !/^\d+$/.test(value)) {
+        errors[docName] = 'Enter a whole number';
+      } else if (value && !/^-?\d+(\.\d+)?$/.test(value)) {
+        errors[docName] = 'Enter a number';
+      }
+    });
+
+    if (getValue('min_value') && getValue('max_value') && !errors.min_value &&
+      !errors.max_value &&
+      Number(getValue('min_value')) > Number(getValue('max_value'))
+    ) {
+      errors.max_value = 'The max value must not be less than the min value';
+    }
+
+    if (getValue('regular_expression')) {
+      try {
+        RegExp(getValue('regular_expression'));
+      } catch (e) {
+        errors.regular_expression = 'The regular expression is not valid';
+      }
+    }
+
+    if (AttributeFormPanel.ENUM_TYPES.indexOf(valueType) > -1) {
+      const values_ = AttributeFormPanel.parseValueDefinitions(
+        getValue('value_definitions')).map(valueDef => valueDef.value);
+
+      values_.forEach((value, i) => {
+        if (!value) {
+          errors.value_definitions = 'Each value definition needs a value';
+        } else if (values_.indexOf(value) !== i) {
+          errors.value_definitions = 'The value "' + value +
+            '" is listed more than once';
+        } else if (valueType === 'enum_of_int' && !/^-?\d+$/.test(value)) {
+          errors.value_definitions = 'The value "' + value +
+            '" is not a whole number';
+        }
+      });
+    }
+
+    // Only keep the fields that have an error.
+    Object.keys(errors).filter(docName => !errors[docName])
+      .forEach(docName => delete errors[docName]);
+
+    return errors;
+  }
+
+  /**
+   * Escapes a value for use in the HTML of the form.
+   *
+   * @param {string} value - The value to escape.
+   * @return {string} - Returns the escaped value.
+   */
+  private static escapeHTML(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Gets a key of the values & default display values of the value
+   * definitions of an attribute, which doesn't depend on their order.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @return {string} - Returns the key of the value definitions.
+   */
+  private static getValuesKey(attribute: ObjectAttributeDefinition): string {
+    return JSON.stringify((attribute.valueDefinitions || []).map(valueDef => {
+      const value = String(valueDef.value);
+      return [value, valueDef.displayValue.default || value];
+    }).sort());
+  }
+
+  /**
+   * @constructor
+   * @param {string} objectType - The ID of the system object type.
+   * @param {Object} [originalDoc] - The OCAPI document of the attribute to
+   *    edit, including its value definitions. A new attribute is created if
+   *    no document is given.
+   */
+  constructor(objectType: string, originalDoc?: any) {
+    this.objectType = objectType;
+    this.originalDoc = originalDoc;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Shows the form in a webview panel.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true when
+   *    the attribute has been saved, or to false if the form was closed
+   *    without saving.
+   */
+  public show(): Promise<boolean> {
+    const title = this.originalDoc ?
+      'Edit Attribute: ' + this.objectType + '.' + this.originalDoc.id :
+      'New Attribute: ' + this.objectType;
+    const panel = window.createWebviewPanel(AttributeFormPanel.VIEW_TYPE,
+      title, ViewColumn.One, { enableScripts: true });
+
+    panel.webview.html = this.getHTML(crypto.randomBytes(16).toString('hex'));
+
+    return new Promise(resolve => {
+      let isSaved = false;
+
+      panel.onDidDispose(() => resolve(isSaved));
+      panel.webview.onDidReceiveMessage(message => {
+        if (message.command === 'cancel') {
+          panel.dispose();
+        } else if (message.command === 'change') {
+          this.postValidation(panel, message.values);
+        } else if (message.command === 'save' &&
+          this.postValidation(panel, message.values)
+        ) {
+          panel.webview.postMessage({ command: 'saving', saving: true });
+          this.save(message.values).then(() => {
+            isSaved = true;
+            panel.dispose();
+          }).catch(err => {
+            window.showErrorMessage('Unable to save attribute: ' +
+              (err.message || err));
+            panel.webview.postMessage({ command: 'saving', saving: false });
+          });
+        }
+      });
+    });
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the HTML of a field of the form.
+   *
+   * @param {IAttributeFormField} formField - The field of the form.
+   * @param {ObjectAttributeDefinition} attribute - The attribute with the
+   *    initial values of the form.
+   * @return {string} - Returns the HTML of the field.
+   */
+  private getFieldHTML(
+    formField: IAttributeFormField,
+    attribute: ObjectAttributeDefinition
+  ): string {
+    const docName = AttributeFormPanel.getDocName(formField.field);
+    const kind = AttributeFormPanel.getFieldKind(formField.field);
+    const disabled = formField.createOnly && this.originalDoc ? ' disabled' : '';
+    const nameAttrs = 'id="' + docName + '" name="' + docName + '"' + disabled;
+    let inputHTML = '';
+
+    if (kind === 'boolean') {
+      inputHTML = '<input type="checkbox" ' + nameAttrs +
+        (attribute[formField.field] ? ' checked' : '') + '>';
+    } else if (kind === 'select') {
+      inputHTML = '<select ' + nameAttrs + '>' +
+        OCAPIHelper.ATTRIBUTE_TYPES.map(label => {
+          const valueType = OCAPIHelper.ATTRIBUTE_MAP[label.toLowerCase()] ||
+            label.toLowerCase();
+          return '<option value="' + valueType + '"' +
+            (valueType === attribute.valueType ? ' selected' : '') + '>' +
+            AttributeFormPanel.escapeHTML(label) + '</option>';
+        }).join('') + '</select>';
+    } else if (kind === 'values') {
+      const valueDefs = (attribute.valueDefinitions || []).map(valueDef => {
+        const value = String(valueDef.value);
+        const display = valueDef.displayValue.default;
+        return display && display !== value ? value + '=' + display : value;
+      });
+
+      inputHTML = '<textarea rows="6" ' + nameAttrs + '>' +
+        AttributeFormPanel.escapeHTML(valueDefs.join('\n')) + '</textarea>' +
+        '<div class="help">One value per line, optionally followed by ' +
+        '<code>=</code> and the display value.</div>';
+    } else {
+      inputHTML = '<input type="text" ' + nameAttrs + ' value="' +
+        AttributeFormPanel.escapeHTML(
+          AttributeFormPanel.getInputValue(attribute, formField.field)) + '">';
+    }
+
+    return '<div class="field"' + (formField.valueTypes ?
+      ' data-value-types="' + formField.valueTypes.join(',') + '"' : '') + '>' +
+      '<label for="' + docName + '">' + formField.label + '</label>' +
+      inputHTML +
+      '<div class="error" id="' + docName + '-error"></div></div>';
+  }
+
+  /**
+   * Gets the HTML of the webview.
+   *
+   * @param {string} nonce - The nonce that allows the script of the form to
+   *    run.
+   * @return {string} - Returns the HTML document.
+   */
+  private getHTML(nonce: string): string {
+    const attribute = new ObjectAttributeDefinition(
+      this.originalDoc || { value_type: 'string' });
+    const sections: string[] = [];
+
+    AttributeFormPanel.FORM_FIELDS.forEach(formField => {
+      if (sections.indexOf(formField.section) === -1) {
+        sections.push(formField.section);
+      }
+    });
+
+    const sectionsHTML = sections.map(section =>
+      '<fieldset><legend>' + section + '</legend>' +
+      AttributeFormPanel.FORM_FIELDS
+        .filter(formField => formField.section === section)
+        .map(formField => this.getFieldHTML(formField, attribute))
+        .join('') +
+      (section === 'Business Manager' ? '<div class="help">The field size ' +
+        'is not part of the OCAPI document, and is saved by importing the ' +
+        'XML of the attribute with the site import job.</div>' : '') +
+      '</fieldset>'
+    ).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    fieldset { border: 1px solid var(--vscode-panel-border); margin-bottom: 12px; }
+    .field { margin: 6px 0; }
+    .field label { display: inline-block; width: 160px; vertical-align: top; }
+    .field input[type="text"], .field select, .field textarea { width: 320px; }
+    input, select, textarea { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    .error { color: var(--vscode-errorForeground); margin-left: 164px; }
+    .help { font-size: 90%; margin-left: 164px; opacity: 0.8; }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; }
+    button:disabled { opacity: 0.5; }
+  </style>
+</head>
+<body>
+  <form id="attribute-form">${sectionsHTML}</form>
+  <button id="save-button">${this.originalDoc ? 'Save Attribute' : 'Create Attribute'}</button>
+  <button id="cancel-button">Cancel</button>
+  <h3>Document Preview</h3>
+  <pre id="preview"></pre>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById('attribute-form');
+    const saveButton = document.getElementById('save-button');
+
+    function isShown(element) {
+      const field = element.closest('.field');
+      return !field || !field.hidden;
+    }
+
+    function getValues() {
+      const values = {};
+      Array.prototype.forEach.call(form.elements, element => {
+        if (element.name && !element.disabled && isShown(element)) {
+          values[element.name] = element.type === 'checkbox' ?
+            element.checked : element.value;
+        }
+      });
+      return values;
+    }
+
+    function updateSections() {
+      const valueType = document.getElementById('value_type').value;
+      document.querySelectorAll('.field[data-value-types]').forEach(field => {
+        field.hidden = field.dataset.valueTypes.split(',').indexOf(valueType) === -1;
+      });
+      document.querySelectorAll('fieldset').forEach(fieldset => {
+        fieldset.hidden = !fieldset.querySelector('.field:not([hidden])');
+      });
+    }
+
+    function onChange() {
+      updateSections();
+      vscode.postMessage({ command: 'change', values: getValues() });
+    }
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.command === 'validation') {
+        document.querySelectorAll('.error').forEach(error => {
+          const docName = error.id.replace(/-error$/, '');
+          error.textContent = message.errors[docName] || '';
+        });
+        document.getElementById('preview').textContent =
+          JSON.stringify(message.document, null, 2);
+        saveButton.disabled = Object.keys(message.errors).length > 0;
+      } else if (message.command === 'saving') {
+        saveButton.disabled = message.saving;
+        saveButton.textContent = message.saving ? 'Saving...' :
+          '${this.originalDoc ? 'Save Attribute' : 'Create Attribute'}';
+      }
+    });
+
+    form.addEventListener('input', onChange);
+    form.addEventListener('change', onChange);
+    form.addEventListener('submit', event => event.preventDefault());
+    saveButton.addEventListener('click', () => {
+      vscode.postMessage({ command: 'save', values: getValues() });
+    });
+    document.getElementById('cancel-button').addEventListener('click', () => {
+      vscode.postMessage({ command: 'cancel' });
+    });
+    onChange();
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Gets the fields that are sent in the OCAPI document of the attribute.
+   * The fields that are saved by importing the XML are left out, and so are
+   * the value definitions of an existing attribute, which are saved with the
+   * value definition calls.
+   *
+   * @param {string[]} saveFields - The member names of the fields to save.
+   * @return {string[]} - Returns the member names of the document fields.
+   */
+  private getDocumentFields(saveFields: string[]): string[] {
+    return saveFields.filter(field =>
+      AttributeFormPanel.XML_ONLY_FIELDS.indexOf(field) === -1 &&
+      !(this.originalDoc && field === 'valueDefinitions'));
+  }
+
+  /**
+   * Gets the value type of the attribute of the form.
+   *
+   * @param {Object} values - The values of the form by document name.
+   * @return {string} - Returns the value type.
+   */
+  private getValueType(values: any): string {
+    return this.originalDoc ? this.originalDoc.value_type :
+      String(values.value_type || '');
+  }
+
+  /**
+   * Validates the values of the form, and posts the errors & the preview of
+   * the document to the webview.
+   *
+   * @param {WebviewPanel} panel - The panel of the form.
+   * @param {Object} values - The values of the form by document name.
+   * @return {boolean} - Returns true if the values are valid.
+   */
+  private postValidation(panel: WebviewPanel, values: any): boolean {
+    const errors = AttributeFormPanel.validateValues(values,
+      this.getValueType(values), !this.originalDoc);
+    const attribute = AttributeFormPanel.getAttribute(values, this.originalDoc);
+    const fields = AttributeFormPanel.getSaveFields(attribute, this.originalDoc ?
+      new ObjectAttributeDefinition(this.originalDoc) : undefined);
+
+    panel.webview.postMessage({
+      command: 'validation',
+      document: attribute.getDocument(this.getDocumentFields(fields)),
+      errors
+    });
+
+    return !Object.keys(errors).length;
+  }
+
+  /**
+   * Saves the attribute definition. A new attribute is created with a PUT
+   * call, and the changed fields of an existing attribute are saved with a
+   * PATCH call. Changed values of an existing attribute are saved with the
+   * value definition calls. If the field size was changed, then the XML of the
+   * attribute is imported afterwards.
+   *
+   * @param {Object} values - The values of the form by document name.
+   * @return {Promise<void>} - Returns a promise that resolves when the
+   *    attribute has been saved.
+   */
+  private async save(values: any): Promise<void> {
+    const attribute = AttributeFormPanel.getAttribute(values, this.originalDoc);
+    const saveFields = AttributeFormPanel.getSaveFields(attribute,
+      this.originalDoc ? new ObjectAttributeDefinition(this.originalDoc) :
+        undefined);
+    const apiFields = this.getDocumentFields(saveFields);
+
+    if (!this.originalDoc) {
+      await this.ocapiHelper.createAttributeDefinition(this.objectType,
+        attribute, apiFields);
+    } else if (apiFields.length) {
+      await this.ocapiHelper.updateAttributeDefinition(this.objectType,
+        attribute.id, attribute.getDocument(apiFields),
+        this.originalDoc._resource_state);
+    }
+
+    if (this.originalDoc && saveFields.indexOf('valueDefinitions') > -1) {
+      await this.valueDefinitionsHelper.saveValueDefinitions(this.objectType,
+        new ObjectAttributeDefinition(this.originalDoc),
+        AttributeFormPanel.parseValueDefinitions(
+          String(values.value_definitions)));
+    }
+
+    if (saveFields.some(field =>
+      AttributeFormPanel.XML_ONLY_FIELDS.indexOf(field) > -1)
+    ) {
+      await this.importHelper.importMetadataXML(
+        path.basename(XMLHandler.SYSTEM_OBJECTS_FILE),
+        this.xmlHandler.getSystemAttributeXML(this.objectType, attribute));
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * @file CustomObjectFileSystem.ts
+ * @fileoverview - Contains the file system provider that opens the custom
+ * objects of the sandbox as JSON documents in the editor.
+ */
+
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  FileChangeEvent,
+  FileChangeType,
+  FileStat,
+  FileSystemError,
+  FileSystemProvider,
+  FileType,
+  Uri
+} from 'vscode';
+import CustomObjectsHelper from '../helpers/CustomObjectsHelper';
+
+/**
+ * @class CustomObjectFileSystem
+ * @classdesc A file system provider for editing custom objects. Each custom
+ *    object is a JSON file with the path `/{objectType}/{key}.json`. Reading a
+ *    file gets the object from the sandbox, and saving the file updates the
+ *    attribute values of the object. Attributes that are removed from the
+ *    document have their values removed when it is saved.
+ */
+export class CustomObjectFileSystem implements FileSystemProvider {
+  /** The URI scheme of the custom object documents. */
+  public static readonly SCHEME: string = 'sfcc-object';
+
+  public readonly onDidChangeFile: Event<FileChangeEvent[]>;
+  private changeEmitter = new EventEmitter<FileChangeEvent[]>();
+  private customObjectsHelper: CustomObjectsHelper;
+  private documents: { [uri: string]: any } = {};
+
+  /**
+   * Gets the URI of the document of a custom object.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @param {string} key - The key of the custom object.
+   * @return {Uri} - Returns the URI of the document.
+   */
+  public static getUri(typeId: string, key: string): Uri {
+    return Uri.parse(CustomObjectFileSystem.SCHEME + ':/' +
+      encodeURIComponent(typeId) + '/' + encodeURIComponent(key) + '.json');
+  }
+
+  /**
+   * @constructor
+   * @param {CustomObjectsHelper} customObjectsHelper - The helper that makes
+   *    the calls for the custom objects.
+   */
+  constructor(customObjectsHelper: CustomObjectsHelper) {
+    this.customObjectsHelper = customObjectsHelper;
+    this.onDidChangeFile = this.changeEmitter.event;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Custom objects are only changed by saving them, so there is nothing to
+   * watch.
+   *
+   * @return {Disposable} - Returns a disposable that does nothing.
+   */
+  public watch(): Disposable {
+    return new Disposable(() => undefined);
+  }
+
+  /**
+   * Gets the metadata of a custom object document. The times are those of the
+   * custom object, so that the editor can tell if the object was changed.
+   *
+   * @param {Uri} uri - The URI of the document.
+   * @return {Promise<FileStat>} - Returns a promise that resolves to the
+   *    metadata of the document.
+   */
+  public async stat(uri: Uri): Promise<FileStat> {
+    const objectDoc = this.documents[uri.toString()] ||
+      await this.readDocument(uri);
+
+    return {
+      ctime: Date.parse(objectDoc.creation_date) || 0,
+      mtime: Date.parse(objectDoc.last_modified) || 0,
+      size: Buffer.byteLength(this.getContent(objectDoc)),
+      type: FileType.File
+    };
+  }
+
+  /**
+   * Gets the contents of a custom object document from the sandbox.
+   *
+   * @param {Uri} uri - The URI of the document.
+   * @return {Promise<Uint8Array>} - Returns a promise that resolves to the
+   *    formatted JSON of the custom object.
+   */
+  public async readFile(uri: Uri): Promise<Uint8Array> {
+    return Buffer.from(this.getContent(await this.readDocument(uri)));
+  }
+
+  /**
+   * Saves a custom object document by updating the custom object on the
+   * sandbox. The document is then read again with the values set by the
+   * server.
+   *
+   * @param {Uri} uri - The URI of the document.
+   * @param {Uint8Array} content - The edited contents of the document.
+   * @return {Promise<void>} - Returns a promise that resolves when the custom
+   *    object has been updated.
+   */
+  public async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+    const { typeId, key } = this.parseUri(uri);
+    let objectDoc;
+
+    try {
+      objectDoc = JSON.parse(Buffer.from(content.buffer as ArrayBuffer,
+        content.byteOffset, content.byteLength).toString('utf8'));
+    } catch (e) {
+      throw new Error('The custom object is not valid JSON: ' + e.message);
+    }
+
+    try {
+      this.documents[uri.toString()] = await this.customObjectsHelper
+        .updateObject(typeId, key, objectDoc, this.documents[uri.toString()]);
+    } catch (err) {
+      throw new Error('Unable to save custom object: ' + (err.message || err));
+    }
+
+    this.changeEmitter.fire([{ type: FileChangeType.Changed, uri }]);
+  }
+
+  /**
+   * Custom objects are listed in the explorer view, and not in folders.
+   */
+  public readDirectory(uri: Uri): Array<[string, FileType]> {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * Custom objects are listed in the explorer view, and not in folders.
+   */
+  public createDirectory(uri: Uri) {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * Custom objects are deleted from the explorer view, where the deletion is
+   * confirmed.
+   */
+  public delete(uri: Uri) {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * The key of a custom object can't be changed.
+   */
+  public rename(oldUri: Uri) {
+    throw FileSystemError.NoPermissions(oldUri);
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the contents of a custom object document.
+   *
+   * @param {Object} objectDoc - The custom object document.
+   * @return {string} - Returns the formatted JSON of the document.
+   */
+  private getContent(objectDoc: any): string {
+    return JSON.stringify(objectDoc, null, 2) + '\n';
+  }
+
+  /**
+   * Gets the custom type & the key of the custom object of a document.
+   *
+   * @param {Uri} uri - The URI of the document.
+   * @return {{typeId: string, key: string}} - Returns the type ID & the key.
+   */
+  private parseUri(uri: Uri): { typeId: string, key: string } {
+    const segments = uri.path.split('/');
+
+    return {
+      key: segments.slice(2).join('/').replace(/\.json$/, ''),
+      typeId: segments[1]
+    };
+  }
+
+  /**
+   * Gets a custom object from the sandbox, and keeps its document for
+   * finding the attributes that are removed when it is saved.
+   *
+   * @param {Uri} uri - The URI of the document.
+   * @return {Promise<Object>} - Returns a promise that resolves to the custom
+   *    object document.
+   */
+  private async readDocument(uri: Uri): Promise<any> {
+    const { typeId, key } = this.parseUri(uri);
+
+    try {
+      const objectDoc = await this.customObjectsHelper.getObject(typeId, key);
+      this.documents[uri.toString()] = objectDoc;
+
+      return objectDoc;
+    } catch (err) {
+      throw FileSystemError.Unavailable('Unable to get custom object ' +
+        typeId + ' ' + key + ': ' + (err.message || err));
+    }
+  }
+}
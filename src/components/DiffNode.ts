@@ -0,0 +1,33 @@
+/**
+ * @file DiffNode.ts
+ * @fileoverview - Contains the class of the nodes of the metadata diff view.
+ */
+
+import { TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { IDiffEntry, IObjectTypeDiff } from '../services/MetadataDiff';
+
+/**
+ * @class DiffNode
+ * @extends TreeItem
+ * @classdesc A node of the diff view. A node is either an object type, an
+ *    attribute definition or attribute group entry, or a field difference.
+ */
+export class DiffNode extends TreeItem {
+  public entry: IDiffEntry;
+  public objectTypeDiff: IObjectTypeDiff;
+
+  /**
+   * @constructor
+   * @param {string} label - The label of the node.
+   * @param {string} description - The text shown after the label.
+   * @param {TreeItemCollapsibleState} collapsibleState - The collapsible state.
+   */
+  constructor(
+    label: string,
+    public readonly description: string,
+    collapsibleState: TreeItemCollapsibleState
+  ) {
+    super(label, collapsibleState);
+    this.tooltip = label + ': ' + description;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @file JobNode.ts
+ * @fileoverview - Contains the class of the nodes of the jobs view.
+ */
+
+import { TreeItem, TreeItemCollapsibleState } from 'vscode';
+import JobExecution from '../documents/JobExecution';
+import JobStepExecution from '../documents/JobStepExecution';
+
+/**
+ * @class JobNode
+ * @extends TreeItem
+ * @classdesc A node of the jobs view. A node is either a job execution, or a
+ *    step execution of a job execution.
+ */
+export class JobNode extends TreeItem {
+  /** The context values of the node types used in the package.json menus. */
+  public static readonly CONTEXT_VALUES = {
+    execution: 'jobExecution',
+    step: 'jobStepExecution'
+  };
+
+  public execution: JobExecution = null;
+  public stepExecution: JobStepExecution = null;
+
+  /**
+   * @constructor
+   * @param {string} label - The label of the node.
+   * @param {string} description - The text shown after the label.
+   * @param {TreeItemCollapsibleState} collapsibleState - The collapsible state.
+   */
+  constructor(
+    label: string,
+    public readonly description: string,
+    collapsibleState: TreeItemCollapsibleState
+  ) {
+    super(label, collapsibleState);
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * @file JobsView.ts
+ * @fileoverview - Contains the tree data provider of the view that lists the
+ * recent executions of a job & their step executions.
+ */
+
+import {
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  window
+} from 'vscode';
+import JobExecution from '../documents/JobExecution';
+import JobStepExecution from '../documents/JobStepExecution';
+import ConfigHelper from '../helpers/ConfigHelper';
+import JobsHelper from '../helpers/JobsHelper';
+import JobRunner from '../services/JobRunner';
+import { JobNode } from './JobNode';
+
+/**
+ * @class JobsView
+ * @classdesc - Serves the recent executions of the selected job to the jobs
+ *    view. The executions are shown at the first level with the latest first,
+ *    and the step executions of each execution at the second level.
+ */
+export class JobsView implements TreeDataProvider<JobNode> {
+  /** The ID of the view in the package.json file. */
+  public static readonly VIEW_ID: string = 'jobsView';
+
+  /** The command that shows the log file of a job execution. */
+  public static readonly SHOW_LOG_COMMAND: string =
+    'extension.sfccexplorer.jobs.showlog';
+
+  /** The command that prompts the user for the job to list. */
+  public static readonly SELECT_JOB_COMMAND: string =
+    'extension.sfccexplorer.jobs.select';
+
+  /** The workspace state key of the selected job id. */
+  public static readonly JOB_ID_KEY: string = 'extension.sfccmetadata.jobId';
+
+  public readonly onDidChangeTreeData: Event<JobNode | undefined>;
+  private context: ExtensionContext;
+  private eventEmitter: EventEmitter<JobNode | undefined> =
+    new EventEmitter<JobNode | undefined>();
+  private jobsHelper: JobsHelper;
+
+  /**
+   * Formats the duration of an execution for display.
+   *
+   * @param {number} duration - The duration in milliseconds.
+   * @return {string} - Returns the formatted duration, for example: `2m 5.1s`.
+   */
+  public static formatDuration(duration: number): string {
+    if (duration < 1000) {
+      return duration + 'ms';
+    }
+
+    const minutes = Math.floor(duration / 60000);
+    const seconds = (duration % 60000 / 1000).toFixed(1) + 's';
+
+    return minutes ? minutes + 'm ' + seconds : seconds;
+  }
+
+  /**
+   * @constructor
+   * @param {ExtensionContext} context - The extension context instance. This is
+   *    used for disposing of the view with the extension, and for storing the
+   *    selected job id.
+   * @param {JobsHelper} jobsHelper - The helper used for getting the job
+   *    executions.
+   */
+  constructor(context: ExtensionContext, jobsHelper: JobsHelper) {
+    this.onDidChangeTreeData = this.eventEmitter.event;
+    this.context = context;
+    this.jobsHelper = jobsHelper;
+
+    context.subscriptions.push(
+      window.registerTreeDataProvider(JobsView.VIEW_ID, this),
+      ConfigHelper.onDidChangeProfile(() => this.refresh())
+    );
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the id of the job whose executions are listed.
+   *
+   * @return {string} - Returns the job id, or an empty string if no job has
+   *    been selected.
+   */
+  public get jobId(): string {
+    return this.context.workspaceState.get(JobsView.JOB_ID_KEY, '');
+  }
+
+  /**
+   * Prompts the user for the id of the job to list the executions of.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if a
+   *    job id was entered.
+   */
+  public async selectJob(): Promise<boolean> {
+    const jobId = await window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder: 'sfcc-site-archive-export',
+      prompt: 'Enter the ID of the job to monitor',
+      value: this.jobId
+    });
+
+    if (!jobId || !jobId.trim()) {
+      return false;
+    }
+
+    await this.context.workspaceState.update(JobsView.JOB_ID_KEY,
+      jobId.trim());
+    this.refresh();
+
+    return true;
+  }
+
+  /**
+   * Re-renders the executions of the job.
+   */
+  public refresh() {
+    this.eventEmitter.fire(undefined);
+  }
+
+  /**
+   * Returns the TreeItem instance of a node.
+   *
+   * @param {JobNode} element - The node.
+   * @return {JobNode} - Returns the node, which is the TreeItem instance.
+   */
+  public getTreeItem(element: JobNode): JobNode {
+    return element;
+  }
+
+  /**
+   * Gets the executions of the selected job, or the step executions of a job
+   * execution.
+   *
+   * @param {JobNode} [element] - The expanded job execution node.
+   * @return {Promise<JobNode[]>} - Returns a promise that resolves to the
+   *    child nodes.
+   */
+  public async getChildren(element?: JobNode): Promise<JobNode[]> {
+    if (!this.jobId) {
+      const selectNode = new JobNode('Select a job to monitor...', '',
+        TreeItemCollapsibleState.None);
+      selectNode.command = {
+        command: JobsView.SELECT_JOB_COMMAND,
+        title: 'Select Job'
+      };
+
+      return [selectNode];
+    }
+
+    try {
+      if (!element) {
+        const executions = await this.jobsHelper.getExecutions(this.jobId);
+        return executions.map(jobExe => this.getExecutionNode(jobExe));
+      } else if (element.execution) {
+        // Get the execution again, as the search hits don't always include
+        // the step executions.
+        const jobExe = await this.jobsHelper.getExecution(
+          element.execution.jobId, element.execution.id);
+        return jobExe.stepExecutions.map(stepExe => this.getStepNode(stepExe));
+      }
+    } catch (e) {
+      window.showErrorMessage('Unable to get job executions: ' +
+        (e.message || e));
+    }
+
+    return [];
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the node of a job execution. Selecting the node shows the log file
+   * of the execution.
+   *
+   * @param {JobExecution} jobExe - The job execution.
+   * @return {JobNode} - Returns the node.
+   */
+  private getExecutionNode(jobExe: JobExecution): JobNode {
+    const status = jobExe.exitStatus && !JobRunner.isRunning(jobExe.status) ?
+      jobExe.exitStatus.code : jobExe.status;
+    const node = new JobNode(
+      jobExe.startTime.toLocaleString(),
+      status + ' · ' + JobsView.formatDuration(jobExe.duration),
+      TreeItemCollapsibleState.Collapsed
+    );
+
+    node.execution = jobExe;
+    node.contextValue = JobNode.CONTEXT_VALUES.execution;
+    node.tooltip = 'Execution: ' + jobExe.id +
+      (jobExe.clientId ? '\nClient: ' + jobExe.clientId : '') +
+      (jobExe.exitStatus && jobExe.exitStatus.message ?
+        '\n' + jobExe.exitStatus.message : '');
+    node.command = {
+      arguments: [node],
+      command: JobsView.SHOW_LOG_COMMAND,
+      title: 'Show Log'
+    };
+
+    return node;
+  }
+
+  /**
+   * Gets the node of a step execution, with the status, duration, & the item
+   * counts of chunk oriented steps.
+   *
+   * @param {JobStepExecution} stepExe - The step execution.
+   * @return {JobNode} - Returns the node.
+   */
+  private getStepNode(stepExe: JobStepExecution): JobNode {
+    const status = stepExe.exitStatus && !JobRunner.isRunning(stepExe.status) ?
+      stepExe.exitStatus.code : stepExe.status;
+    const details = [status, JobsView.formatDuration(stepExe.duration)];
+
+    if (stepExe.isChunkOriented) {
+      details.push(stepExe.itemWriteCount + '/' + stepExe.totalItemCount +
+        ' written', stepExe.itemFilterCount + ' filtered');
+    }
+
+    const node = new JobNode(stepExe.stepId, details.join(' · '),
+      TreeItemCollapsibleState.None);
+
+    node.stepExecution = stepExe;
+    node.contextValue = JobNode.CONTEXT_VALUES.step;
+    node.tooltip = stepExe.stepTypeId +
+      (stepExe.stepDescription ? '\n' + stepExe.stepDescription : '') +
+      (stepExe.exitStatus && stepExe.exitStatus.message ?
+        '\n' + stepExe.exitStatus.message : '');
+
+    return node;
+  }
+}
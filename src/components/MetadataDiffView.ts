@@ -0,0 +1,189 @@
+/**
+ * @file MetadataDiffView.ts
+ * @fileoverview - Contains the tree data provider of the view that shows the
+ * result of comparing the metadata of two sources.
+ */
+
+import {
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  window
+} from 'vscode';
+import { IMetadataComparison } from '../helpers/MetadataDiffHelper';
+import { DIFF_STATUS, IDiffEntry, IFieldDiff } from '../services/MetadataDiff';
+import { DiffNode } from './DiffNode';
+
+/**
+ * @class MetadataDiffView
+ * @classdesc - Serves the result of a metadata comparison to the diff view.
+ *    The object types are shown at the first level, the added, removed &
+ *    changed entries of each type at the second level, and the field
+ *    differences of the changed entries at the third level.
+ */
+export class MetadataDiffView implements TreeDataProvider<DiffNode> {
+  /** The ID of the view in the package.json file. */
+  public static readonly VIEW_ID: string = 'metadataDiffView';
+
+  public readonly onDidChangeTreeData: Event<DiffNode | undefined>;
+  private comparison: IMetadataComparison = null;
+  private eventEmitter: EventEmitter<DiffNode | undefined> =
+    new EventEmitter<DiffNode | undefined>();
+
+  /**
+   * @constructor
+   * @param {ExtensionContext} context - The extension context instance. This is
+   *    used for disposing of the view with the extension.
+   */
+  constructor(context: ExtensionContext) {
+    this.onDidChangeTreeData = this.eventEmitter.event;
+
+    context.subscriptions.push(
+      window.registerTreeDataProvider(MetadataDiffView.VIEW_ID, this)
+    );
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Shows the result of a comparison in the view.
+   *
+   * @param {IMetadataComparison} comparison - The comparison to show.
+   */
+  public setComparison(comparison: IMetadataComparison) {
+    this.comparison = comparison;
+    this.eventEmitter.fire();
+  }
+
+  /**
+   * Returns the TreeItem instance of a node.
+   *
+   * @param {DiffNode} element - The node.
+   * @return {DiffNode} - Returns the node, which is the TreeItem instance.
+   */
+  public getTreeItem(element: DiffNode): DiffNode {
+    return element;
+  }
+
+  /**
+   * Gets the child nodes of a node, or the object type nodes if no node is
+   * specified.
+   *
+   * @param {DiffNode} [element] - The expanded node.
+   * @return {DiffNode[]} - Returns the child nodes.
+   */
+  public getChildren(element?: DiffNode): DiffNode[] {
+    if (!this.comparison) {
+      return [];
+    } else if (!element) {
+      return this.getObjectTypeNodes();
+    } else if (element.objectTypeDiff) {
+      return element.objectTypeDiff.entries.map(entry =>
+        this.getEntryNode(entry));
+    } else if (element.entry) {
+      return element.entry.fields.map(fieldDiff =>
+        this.getFieldNode(fieldDiff));
+    }
+
+    return [];
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Creates the node of an attribute definition or attribute group entry.
+   *
+   * @param {IDiffEntry} entry - The entry.
+   * @return {DiffNode} - Returns the node.
+   */
+  private getEntryNode(entry: IDiffEntry): DiffNode {
+    const node = new DiffNode(
+      entry.id,
+      entry.kind + ' ' + this.getStatusLabel(entry.status),
+      entry.fields.length ?
+        TreeItemCollapsibleState.Collapsed :
+        TreeItemCollapsibleState.None
+    );
+
+    node.entry = entry;
+    return node;
+  }
+
+  /**
+   * Creates the node of a field that has a different value in each source.
+   *
+   * @param {IFieldDiff} fieldDiff - The field difference.
+   * @return {DiffNode} - Returns the node.
+   */
+  private getFieldNode(fieldDiff: IFieldDiff): DiffNode {
+    const node = new DiffNode(
+      fieldDiff.field,
+      (fieldDiff.left || '(not set)') + ' → ' + (fieldDiff.right || '(not set)'),
+      TreeItemCollapsibleState.None
+    );
+
+    node.tooltip = this.comparison.leftName + ': ' + fieldDiff.left + '\n' +
+      this.comparison.rightName + ': ' + fieldDiff.right;
+
+    return node;
+  }
+
+  /**
+   * Creates the nodes of the object types that are different.
+   *
+   * @return {DiffNode[]} - Returns the object type nodes, or a single node
+   *    with a message if there are no differences.
+   */
+  private getObjectTypeNodes(): DiffNode[] {
+    const comparison = this.comparison;
+
+    if (!comparison.objectTypes.length) {
+      return [
+        new DiffNode(
+          'No differences',
+          comparison.leftName + ' ↔ ' + comparison.rightName,
+          TreeItemCollapsibleState.None
+        )
+      ];
+    }
+
+    return comparison.objectTypes.map(typeDiff => {
+      const node = new DiffNode(
+        typeDiff.objectType,
+        typeDiff.status ?
+          this.getStatusLabel(typeDiff.status) :
+          typeDiff.entries.length + ' differences',
+        typeDiff.entries.length ?
+          TreeItemCollapsibleState.Collapsed :
+          TreeItemCollapsibleState.None
+      );
+
+      node.objectTypeDiff = typeDiff;
+      return node;
+    });
+  }
+
+  /**
+   * Gets the description of the status of an entry.
+   *
+   * @param {DIFF_STATUS} status - The status.
+   * @return {string} - Returns the description, with the name of the source
+   *    for entries that only exist in one source.
+   */
+  private getStatusLabel(status: DIFF_STATUS): string {
+    if (status === DIFF_STATUS.added) {
+      return 'only in ' + this.comparison.rightName;
+    } else if (status === DIFF_STATUS.removed) {
+      return 'only in ' + this.comparison.leftName;
+    }
+
+    return 'changed';
+  }
+}
@@ -65,9 +65,29 @@ export class MetadataNode extends TreeItem {
   public static ROOT_NODES = {
     custObjDefs: 'customObjectDefinitions',
     default: 'systemObjectDefinitions',
+    localFile: 'localMetadata',
     sitePrefs: 'sitePreferences'
   };
 
+  /** The context values of the custom object type nodes used in menus. */
+  public static CUSTOM_CONTEXT_VALUES = {
+    attribute: 'customAttribute',
+    attributeValues: 'customAttributeValues',
+    definition: 'customDefinition',
+    group: 'customGroup',
+    object: 'customObject',
+    objects: 'customObjects',
+    root: 'customObjectDefinitions',
+    untracked: 'untrackedCustomDefinition'
+  };
+
+  /**
+   * The context value of the nodes in the value definitions list of a system
+   * object attribute. The default value of an attribute is also a value
+   * definition node, but it can't be edited from the tree.
+   */
+  public static VALUE_DEFINITION_CONTEXT_VALUE = 'valueDefinition';
+
   /**
    * The constructor function that calls the super class constructor, and then
    * initializes the custom logic for the MetaNode class.
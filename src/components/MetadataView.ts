@@ -81,7 +81,8 @@ export class MetadataView {
     if (!dataProvider) {
       dataProvider = new MetadataViewProvider(
         providerType,
-        this._onMetaDataChange
+        this._onMetaDataChange,
+        this._context.workspaceState
       );
       this._providers.push(dataProvider);
     }
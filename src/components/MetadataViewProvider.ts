@@ -5,9 +5,11 @@
  * populating the tree view instance.
  */
 
+import * as path from 'path';
 import {
   Event,
   EventEmitter,
+  Memento,
   TreeDataProvider,
   TreeItemCollapsibleState,
   workspace,
@@ -17,10 +19,14 @@ import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
 import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
 import ObjectAttributeValueDefinition from '../documents/ObjectAttributeValueDefinition';
 import ObjectTypeDefinition from '../documents/ObjectTypeDefinition';
+import CustomObjectsHelper from '../helpers/CustomObjectsHelper';
 import OCAPIHelper from '../helpers/OCAPIHelper';
 import SitePreferencesHelper from '../helpers/SitePreferencesHelper';
+import { ICallResult } from '../services/ICallResult';
 import { ICallSetup } from '../services/ICallSetup';
 import { OCAPIService } from '../services/OCAPIService';
+import SnapshotStore from '../services/SnapshotStore';
+import { ILocalMetadata } from '../xmlHandler/MetadataXMLParser';
 import { MetadataNode } from './MetadataNode';
 
 /**
@@ -34,22 +40,33 @@ export class MetadataViewProvider
   // Declare memeber variables.
   public readonly onDidChangeTreeData?: Event<MetadataNode | undefined>;
   public providerType: string = '';
+  private customObjectsHelper: CustomObjectsHelper = null;
   private eventEmitter: EventEmitter<MetadataNode | undefined> = null;
+  private localMetadata: ILocalMetadata = null;
+  private objectLimits: { [typeId: string]: number } = {};
   private ocapiHelper = new OCAPIHelper();
   private service: OCAPIService = new OCAPIService();
+  private snapshots: SnapshotStore = null;
 
   /**
    *
    * @param {string} providerType - The type of provider being initialized;
    * @param {EventEmitter<MetadataNode | undefined>} eventEmitter
+   * @param {Memento} [state] - The workspace state with the IDs of the custom
+   *    object types to show.
    */
   constructor(
     providerType: string,
-    eventEmitter: EventEmitter<MetadataNode | undefined>
+    eventEmitter: EventEmitter<MetadataNode | undefined>,
+    state?: Memento
   ) {
     this.providerType = providerType;
+    this.customObjectsHelper = state ? new CustomObjectsHelper(state) : null;
     this.eventEmitter = eventEmitter;
     this.onDidChangeTreeData = this.eventEmitter.event;
+
+    // Re-render the tree when a background refresh gets new data.
+    this.snapshots = new SnapshotStore(() => this.eventEmitter.fire());
   }
 
   /* ========================================================================
@@ -57,12 +74,41 @@ export class MetadataViewProvider
    * ======================================================================== */
 
   /**
-   * Refreshes the TreeView.
+   * Refreshes the TreeView. The tree is rendered from the metadata snapshot,
+   * and each expanded node is then refreshed from the server again.
    */
   public refresh(): void {
+    this.snapshots.reset();
     this.eventEmitter.fire();
   }
 
+  /**
+   * Sets the metadata that is shown under the local file root node of the
+   * tree, and re-renders the tree.
+   *
+   * @param {ILocalMetadata} localMetadata - The metadata that was read from a
+   *    local file, or null to remove the local file root node.
+   */
+  public setLocalMetadata(localMetadata: ILocalMetadata) {
+    this.localMetadata = localMetadata;
+    this.eventEmitter.fire();
+  }
+
+  /**
+   * Adds the next page of custom objects to an Instances node of a custom
+   * type.
+   *
+   * @param {MetadataNode} element - The Instances node of the custom type.
+   */
+  public loadMoreObjects(element: MetadataNode) {
+    const typeId = element.parentId.split('.').pop();
+
+    this.objectLimits[typeId] = (this.objectLimits[typeId] ||
+      CustomObjectsHelper.OBJECTS_PAGE_SIZE) +
+      CustomObjectsHelper.OBJECTS_PAGE_SIZE;
+    this.eventEmitter.fire(element);
+  }
+
   /**
    * Returns the individual TreeItem instance
    * @param {MetadataNode} element - The element associated with the given
@@ -82,7 +128,7 @@ export class MetadataViewProvider
    * @return {Promise<MetadataNode[]>}
    */
   public async getChildren(element?: MetadataNode): Promise<MetadataNode[]> {
-    const spHelper = new SitePreferencesHelper(this.service);
+    const spHelper = new SitePreferencesHelper(this.service, this.snapshots);
     try {
       if (!element) {
         // Get the base nodes of the tree.
@@ -93,7 +139,9 @@ export class MetadataViewProvider
           const nodeType = element.nodeType;
           const root = element.rootTree;
 
-          if (root === MetadataNode.ROOT_NODES.sitePrefs &&
+          if (root === MetadataNode.ROOT_NODES.localFile) {
+            return this.getLocalFileChildren(element);
+          } else if (root === MetadataNode.ROOT_NODES.sitePrefs &&
             nodeType === 'objectAttributeDefinition'
           ) {
             return spHelper.getSitePreferenceSites(element);
@@ -103,6 +151,10 @@ export class MetadataViewProvider
             return this.getBaseNodeChildren(element);
           } else if (nodeType === 'objectTypeDefinition') {
             return this.getObjectDefinitionChildren(element);
+          } else if (nodeType === 'parentContainer' &&
+            element.parentContainer === 'customObjects'
+          ) {
+            return this.getCustomObjectNodes(element);
           } else if (nodeType === 'parentContainer') {
             return this.getAttributeOrGroupContainerChildren(element);
           } else if (nodeType === 'objectAttributeDefinition') {
@@ -142,28 +194,34 @@ export class MetadataViewProvider
   private async getAttributeOrGroupContainerChildren(
     element: MetadataNode
   ): Promise<MetadataNode[]> {
-    const path = element.parentId.split('.');
-    const objectType = path.pop();
-    const parentType = path.pop();
+    const parentPath = element.parentId.split('.');
+    const objectType = parentPath.pop();
+    const parentType = parentPath.pop();
     const isAttribute = element.name !== 'Attribute Groups';
+    const isCustomType = parentType === MetadataNode.ROOT_NODES.custObjDefs;
     let _callSetup: ICallSetup = null;
-    let _callResult: any;
+    let _callResult: ICallResult;
 
     // If this is the node for attribute definitions.
     if (isAttribute) {
       // Get the System/Custom Object attributes.// Make the call to the OCAPI Service.
       try {
-        _callSetup = await this.service.getCallSetup(
-          parentType,
-          'getAttributes',
-          {
-            count: 700,
-            objectType,
-            select: '(**)'
+        _callResult = await this.snapshots.getResult(
+          [parentType, 'getAttributes', objectType].join('.'),
+          async () => {
+            _callSetup = await this.service.getCallSetup(
+              parentType,
+              'getAttributes',
+              {
+                count: OCAPIService.MAX_PAGE_SIZE,
+                objectType,
+                select: '(**)'
+              }
+            );
+
+            return this.service.makePaginatedCall(_callSetup);
           }
         );
-
-        _callResult = await this.service.makeCall(_callSetup);
       } catch (e) {
         throw new Error(e.toString());
       }
@@ -175,7 +233,7 @@ export class MetadataViewProvider
         Array.isArray(_callResult.data)
       ) {
         return _callResult.data.map(resultObj => {
-          return new MetadataNode(
+          const attributeNode = new MetadataNode(
             resultObj.id,
             TreeItemCollapsibleState.Collapsed,
             {
@@ -183,11 +241,19 @@ export class MetadataViewProvider
               objectAttributeDefinition: new ObjectAttributeDefinition(
                 resultObj
               ),
-              displayDescription: resultObj.display_name
-                ? resultObj.display_name.default
-                : ''
+              displayDescription: SnapshotStore.addAgeToDescription(
+                resultObj.display_name ? resultObj.display_name.default : '',
+                _callResult
+              )
             }
           );
+
+          if (isCustomType) {
+            attributeNode.contextValue =
+              MetadataNode.CUSTOM_CONTEXT_VALUES.attribute;
+          }
+
+          return attributeNode;
         });
       }
 
@@ -195,25 +261,34 @@ export class MetadataViewProvider
       // was a failure to load the object definitions.
       return [
         new MetadataNode('Unable to load...', TreeItemCollapsibleState.None, {
-          parentId: 'root.systemObjectDefinitions.' + objectType
+          parentId: 'root.systemObjectDefinitions.' + objectType,
+          displayDescription: _callResult.errorMessage || ''
         })
       ];
     } else {
       // Make the call to the OCAPI Service to get the attribute groups.
       // Tree branch for attribute groups.
-      _callSetup = await this.service.getCallSetup(
-        'systemObjectDefinitions',
-        'getAttributeGroups',
-        {
-          select: '(**)',
-          count: 150,
-          expand: 'definition',
-          objectType
+      const groupsResource = isCustomType ? parentType :
+        'systemObjectDefinitions';
+
+      _callResult = await this.snapshots.getResult(
+        [groupsResource, 'getAttributeGroups', objectType].join('.'),
+        async () => {
+          _callSetup = await this.service.getCallSetup(
+            groupsResource,
+            'getAttributeGroups',
+            {
+              select: '(**)',
+              count: OCAPIService.MAX_PAGE_SIZE,
+              expand: 'definition',
+              objectType
+            }
+          );
+
+          return this.service.makePaginatedCall(_callSetup);
         }
       );
 
-      _callResult = await this.service.makeCall(_callSetup);
-
       // If the API call returns data create the first level of a tree.
       if (
         !_callResult.error &&
@@ -221,17 +296,24 @@ export class MetadataViewProvider
         Array.isArray(_callResult.data)
       ) {
         return _callResult.data.map(resultObj => {
-          return new MetadataNode(
+          const groupNode = new MetadataNode(
             resultObj.id,
             TreeItemCollapsibleState.Collapsed,
             {
               parentId: element.parentId + '.' + objectType,
               objectAttributeGroup: new ObjectAttributeGroup(resultObj),
-              displayDescription: resultObj.display_name
-                ? resultObj.display_name.default
-                : ''
+              displayDescription: SnapshotStore.addAgeToDescription(
+                resultObj.display_name ? resultObj.display_name.default : '',
+                _callResult
+              )
             }
           );
+
+          if (isCustomType) {
+            groupNode.contextValue = MetadataNode.CUSTOM_CONTEXT_VALUES.group;
+          }
+
+          return groupNode;
         });
       } else if (
         !_callResult.error &&
@@ -255,7 +337,8 @@ export class MetadataViewProvider
       // was a failure to load the object definitions.
       return [
         new MetadataNode('Unable to load...', TreeItemCollapsibleState.None, {
-          parentId: element.parentId + '.' + objectType
+          parentId: element.parentId + '.' + objectType,
+          displayDescription: _callResult.errorMessage || ''
         })
       ];
     }
@@ -273,23 +356,32 @@ export class MetadataViewProvider
     const baseName = element.baseNodeName;
 
     const callDataObj =  {
-      count: 500,
+      count: OCAPIService.MAX_PAGE_SIZE,
       select: '(**)'
     };
 
     if (baseName === 'sitePreferences') {
-      const spHelper = new SitePreferencesHelper(this.service);
+      const spHelper = new SitePreferencesHelper(this.service, this.snapshots);
       return await spHelper.getAllPreferences();
     }
 
-    const _callSetup: ICallSetup = await this.service.getCallSetup(
-      baseName,
-      'getAll',
-      callDataObj
+    // Call the OCAPI service, or get the result from the snapshot.
+    const _callResult = await this.snapshots.getResult(
+      [baseName, 'getAll'].join('.'),
+      async () => {
+        const _callSetup: ICallSetup = await this.service.getCallSetup(
+          baseName,
+          'getAll',
+          callDataObj
+        );
+
+        return this.service.makePaginatedCall(_callSetup);
+      }
     );
 
-    // Call the OCAPI service.
-    const _callResult = await this.service.makeCall(_callSetup);
+    if (baseName === MetadataNode.ROOT_NODES.custObjDefs) {
+      return this.getCustomTypeNodes(_callResult);
+    }
 
     // If the API call returns data create a tree.
     if (_callResult.data && Array.isArray(_callResult.data)) {
@@ -314,12 +406,118 @@ export class MetadataViewProvider
         return new MetadataNode(name, TreeItemCollapsibleState.Collapsed, {
           parentId: 'root.' + baseName,
           objectTypeDefinition: new ObjectTypeDefinition(filterdObj),
-          displayDescription: ' '
+          displayDescription: SnapshotStore.addAgeToDescription(' ',
+            _callResult)
         });
       });
     }
   }
 
+  /**
+   * Gets the nodes of the custom objects of a custom type. The objects are
+   * added a page at a time, and the last node adds the next page of objects
+   * when it is selected.
+   * @param {MetadataNode} element - The Instances node of the custom type.
+   * @return {Promise<MetadataNode[]>} - Returns a promise that will resolve to
+   *    the custom object nodes.
+   */
+  private async getCustomObjectNodes(
+    element: MetadataNode
+  ): Promise<MetadataNode[]> {
+    const typeId = element.parentId.split('.').pop();
+    const result = await this.customObjectsHelper.searchObjects(typeId,
+      this.objectLimits[typeId] || CustomObjectsHelper.OBJECTS_PAGE_SIZE);
+
+    const objectNodes = result.objects.map(objectDoc => {
+      const key = CustomObjectsHelper.getObjectKey(objectDoc);
+      const objectNode = new MetadataNode(key, TreeItemCollapsibleState.None,
+        {
+          parentId: element.parentId,
+          value: key
+        });
+
+      objectNode.contextValue = MetadataNode.CUSTOM_CONTEXT_VALUES.object;
+      objectNode.command = {
+        arguments: [objectNode],
+        command: CustomObjectsHelper.OPEN_OBJECT_COMMAND,
+        title: 'Open Custom Object'
+      };
+
+      return objectNode;
+    });
+
+    if (result.objects.length < result.total) {
+      const moreNode = new MetadataNode('Load more...',
+        TreeItemCollapsibleState.None,
+        {
+          parentId: element.parentId,
+          displayDescription: result.objects.length + ' of ' + result.total
+        });
+
+      moreNode.command = {
+        arguments: [element],
+        command: CustomObjectsHelper.LOAD_OBJECTS_COMMAND,
+        title: 'Load More Custom Objects'
+      };
+
+      objectNodes.push(moreNode);
+    }
+
+    return objectNodes;
+  }
+
+  /**
+   * Gets the nodes of the custom object types. OCAPI lists the custom types
+   * without their IDs, so the types that were added to the view by ID are
+   * shown first & can be expanded. The other listed types are shown by their
+   * display name, and selecting one of them prompts for its ID.
+   * @param {ICallResult} callResult - The result of the call for all object
+   *    type definitions.
+   * @return {MetadataNode[]} - Returns the custom type nodes.
+   */
+  private getCustomTypeNodes(callResult: ICallResult): MetadataNode[] {
+    const parentId = 'root.' + MetadataNode.ROOT_NODES.custObjDefs;
+    const typeIds = this.customObjectsHelper ?
+      this.customObjectsHelper.getTypeIds() : [];
+
+    const typeNodes = typeIds.map(typeId => {
+      const typeNode = new MetadataNode(typeId, TreeItemCollapsibleState.Collapsed,
+        {
+          parentId,
+          objectTypeDefinition: new ObjectTypeDefinition({
+            object_type: typeId
+          })
+        });
+
+      typeNode.contextValue = MetadataNode.CUSTOM_CONTEXT_VALUES.definition;
+      return typeNode;
+    });
+
+    const listedTypes = callResult.data && Array.isArray(callResult.data) ?
+      callResult.data.filter(obj => obj.object_type === 'CustomObject' &&
+        obj.display_name && typeIds.indexOf(obj.display_name.default) === -1) :
+      [];
+
+    return typeNodes.concat(listedTypes.map(obj => {
+      const listedNode = new MetadataNode(obj.display_name.default,
+        TreeItemCollapsibleState.None,
+        {
+          parentId,
+          displayDescription: SnapshotStore.addAgeToDescription('add by ID...',
+            callResult)
+        });
+
+      listedNode.contextValue = MetadataNode.CUSTOM_CONTEXT_VALUES.untracked;
+      listedNode.command = {
+        arguments: [obj.display_name.default],
+        command: CustomObjectsHelper.ADD_TYPE_COMMAND,
+        title: 'Add Custom Object Type'
+      };
+
+      return listedNode;
+    }));
+  }
+
   /**
    * Gets the base nodes of the tree that can be expanded for viewing data types.
    * @param {MetadataNode} element - The MetadataNode instance.
@@ -379,6 +577,8 @@ export class MetadataViewProvider
           }
         )
       );
+      metaNodes[metaNodes.length - 1].contextValue =
+        MetadataNode.CUSTOM_CONTEXT_VALUES.root;
     }
 
     // If display of Site Preferences is enabled, add node to tree.
@@ -395,9 +595,118 @@ export class MetadataViewProvider
       );
     }
 
+    // If a local metadata file has been opened, add its node to the tree.
+    if (this.localMetadata) {
+      const localNode = new MetadataNode(
+        'Local File',
+        TreeItemCollapsibleState.Collapsed,
+        {
+          parentId: 'root',
+          baseNodeName: MetadataNode.ROOT_NODES.localFile,
+          displayDescription: path.basename(this.localMetadata.filePath)
+        }
+      );
+
+      localNode.rootTree = MetadataNode.ROOT_NODES.localFile;
+      localNode.contextValue = 'localFile';
+      metaNodes.push(localNode);
+    }
+
     return Promise.resolve(metaNodes);
   }
 
+  /**
+   * Gets the children elements of the attribute definition & attribute group
+   * container nodes of an object type from the local file.
+   * @param {MetadataNode} element - The MetadataNode instance.
+   * @return {MetadataNode[]}
+   */
+  private getLocalContainerChildren(element: MetadataNode): MetadataNode[] {
+    const objectTypeId = element.parentId.split('.').pop();
+    const objectType = this.localMetadata.objectTypes.filter(localType =>
+      localType.objectTypeDefinition.objectType === objectTypeId)[0];
+    const parentId = element.parentId + '.' + objectTypeId;
+
+    if (element.name !== 'Attribute Groups') {
+      return objectType.attributeDefinitions.map(attrDef =>
+        new MetadataNode(attrDef.id, TreeItemCollapsibleState.Collapsed, {
+          parentId,
+          objectAttributeDefinition: attrDef,
+          displayDescription: attrDef.displayName.default
+        })
+      );
+    } else if (!objectType.attributeGroups.length) {
+      return [
+        new MetadataNode(
+          'No attribute groups defined',
+          TreeItemCollapsibleState.None,
+          { parentId }
+        )
+      ];
+    }
+
+    return objectType.attributeGroups.map(attrGroup =>
+      new MetadataNode(attrGroup.id, TreeItemCollapsibleState.Collapsed, {
+        parentId,
+        objectAttributeGroup: attrGroup,
+        displayDescription: attrGroup.displayName
+      })
+    );
+  }
+
+  /**
+   * Gets the children elements of the nodes under the local file root node.
+   * The nodes are created from the parsed file instead of calling OCAPI, and
+   * have no context value so that the sandbox actions are not shown for them.
+   * @param {MetadataNode} element - The MetadataNode instance.
+   * @return {Promise<MetadataNode[]>}
+   */
+  private async getLocalFileChildren(
+    element: MetadataNode
+  ): Promise<MetadataNode[]> {
+    const nodeType = element.nodeType;
+    let childNodes: MetadataNode[] = [];
+
+    // The file may have been closed while the node was expanded.
+    if (!this.localMetadata) {
+      return [];
+    }
+
+    if (nodeType === 'baseNodeName') {
+      childNodes = this.localMetadata.objectTypes.map(objectType =>
+        new MetadataNode(
+          objectType.objectTypeDefinition.objectType,
+          TreeItemCollapsibleState.Collapsed,
+          {
+            parentId: 'root.' + MetadataNode.ROOT_NODES.localFile,
+            objectTypeDefinition: objectType.objectTypeDefinition
+          }
+        )
+      );
+    } else if (nodeType === 'objectTypeDefinition') {
+      childNodes = await this.getObjectDefinitionChildren(element);
+    } else if (nodeType === 'parentContainer') {
+      childNodes = this.getLocalContainerChildren(element);
+    } else if (nodeType === 'objectAttributeDefinition') {
+      childNodes = await this.getAttributeDefinitionChildren(element);
+    } else if (nodeType === 'objectAttributeGroup') {
+      childNodes = await this.getAttributeGroupChildren(element);
+    } else if (nodeType === 'objectAttributeValueDefinition') {
+      childNodes = await this.getAttributeValueDefinitionChildren(element);
+    } else if (nodeType === 'objectAttributeValueDefinitions') {
+      childNodes = this.ocapiHelper.getValueDefinitionNodes(element);
+    } else if (nodeType === 'stringList') {
+      childNodes = await this.getStringListChildren(element);
+    }
+
+    childNodes.filter(node => !!node).forEach(node => {
+      node.rootTree = MetadataNode.ROOT_NODES.localFile;
+      node.contextValue = undefined;
+    });
+
+    return childNodes;
+  }
+
   /**
    * Gets the children elements of System & Custom object type nodes.
    * @param {MetadataNode} element - The MetadataNode instance.
@@ -411,16 +720,19 @@ export class MetadataViewProvider
       objectAttributeGroups: 'Attribute Groups'
     };
 
+    // The counts of custom types are unknown, as they are not listed by
+    // OCAPI.
+    const isCustomType = element.parentId ===
+      'root.' + MetadataNode.ROOT_NODES.custObjDefs;
+
     // Setup parent nodes for the attribute definition & the attribute
     // Group nodes to be added to.
-    return Object.keys(displayTextMap).map(ctnrName => {
+    const containerNodes = Object.keys(displayTextMap).map(ctnrName => {
       const metaNode = new MetadataNode(
         displayTextMap[ctnrName],
-        element.parentId.indexOf('customObjectDefinitions') > -1 ?
-          TreeItemCollapsibleState.None :
-          TreeItemCollapsibleState.Collapsed,
+        TreeItemCollapsibleState.Collapsed,
         {
-          displayDescription:
+          displayDescription: isCustomType ? '' :
             ctnrName === 'objectAttributeDefinitions'
               ? element.objectTypeDefinition.attributeDefinitionCount.toString()
               : element.objectTypeDefinition.attributeGroupCount.toString(),
@@ -432,6 +744,23 @@ export class MetadataViewProvider
 
       return metaNode;
     });
+
+    // Custom types also have a node for browsing their custom objects.
+    if (isCustomType) {
+      const objectsNode = new MetadataNode('Instances',
+        TreeItemCollapsibleState.Collapsed,
+        {
+          displayDescription: '',
+          parentContainer: 'customObjects',
+          parentId:
+            element.parentId + '.' + element.objectTypeDefinition.objectType
+        });
+
+      objectsNode.contextValue = MetadataNode.CUSTOM_CONTEXT_VALUES.objects;
+      containerNodes.push(objectsNode);
+    }
+
+    return containerNodes;
   }
 
   /**
@@ -535,19 +864,36 @@ export class MetadataViewProvider
   ): Promise<MetadataNode[]> {
     let objAttrDef: ObjectAttributeDefinition = element.objectAttributeDefinition;
 
-    // Check if the attribute is an Enum type.
-    if (objAttrDef.valueType.indexOf('enum') > -1) {
-      // Call OCAPI to get the value definitions of the attribute.
-      const attrAPIObj = await this.ocapiHelper.getExpandedAttribute(element);
+    // Check if the attribute is an Enum type. The value definitions of local
+    // file attributes are already included in the parsed definition.
+    if (objAttrDef.valueType.indexOf('enum') > -1 &&
+      element.rootTree !== MetadataNode.ROOT_NODES.localFile
+    ) {
+      // Call OCAPI to get the value definitions of the attribute, or get them
+      // from the snapshot.
+      const attrAPIObj = await this.snapshots.getResult(
+        ['getAttribute', element.parentId, objAttrDef.id].join('.'),
+        () => this.ocapiHelper.getExpandedAttribute(element)
+      );
 
-      if (attrAPIObj) {
+      if (attrAPIObj && !attrAPIObj.error) {
         objAttrDef = new ObjectAttributeDefinition(attrAPIObj);
       }
     }
 
+    const keys = Object.keys(objAttrDef);
+
+    // Enum attributes always have the Value Definitions node, so that values
+    // can be added to attributes that don't have any yet.
+    if (objAttrDef.valueType.indexOf('enum') > -1 &&
+      keys.indexOf('valueDefinitions') === -1
+    ) {
+      keys.push('valueDefinitions');
+    }
+
     // Loop through the member properties and handle each possible type
     // for display as a node on the tree.
-    return Object.keys(objAttrDef).map(key => {
+    return keys.map(key => {
       // == Primitive Types
       if (
         typeof objAttrDef[key] === 'string' ||
@@ -598,15 +944,26 @@ export class MetadataViewProvider
               element.parentId + '.' + element.objectAttributeDefinition.id
           }
         );
-      } else if (Array.isArray(objAttrDef[key]) && objAttrDef[key].length) {
+      } else if (key === 'valueDefinitions') {
           // == ObjectAttributeValueDefinition[]
-          return new MetadataNode('Value Definitions',
+          const valuesNode = new MetadataNode('Value Definitions',
             TreeItemCollapsibleState.Collapsed,
             {
-              objectAttributeValueDefinitions: objAttrDef[key],
+              objectAttributeValueDefinitions:
+                objAttrDef.valueDefinitions || [],
               parentId: element.parentId + '.' + element.objectAttributeDefinition.id
             }
           );
+
+          // The value definitions of custom types can't be changed with OCAPI.
+          if (element.parentId.split('.')[1] ===
+            MetadataNode.ROOT_NODES.custObjDefs
+          ) {
+            valuesNode.contextValue =
+              MetadataNode.CUSTOM_CONTEXT_VALUES.attributeValues;
+          }
+
+          return valuesNode;
       }
     });
   }
@@ -0,0 +1,63 @@
+/**
+ * @file ProfileStatusBar.ts
+ * @fileoverview - Contains a class that shows the active connection profile in
+ * the VSCode status bar, and allows the user to switch profiles from it.
+ */
+
+import { ExtensionContext, StatusBarAlignment, StatusBarItem, window } from 'vscode';
+import ConfigHelper from '../helpers/ConfigHelper';
+import { IDWConfig } from '../services/IDWConfig';
+
+/**
+ * @class ProfileStatusBar
+ * @classdesc - A status bar item that displays the name of the active
+ *    connection profile. Clicking the item opens the profile switcher.
+ */
+export class ProfileStatusBar {
+  /** The command that is run when the status bar item is clicked. */
+  public static readonly SWITCH_COMMAND: string =
+    'extension.sfccexplorer.profile.switch';
+
+  private statusBarItem: StatusBarItem = null;
+
+  /**
+   * Creates the status bar item, which is updated when the active connection
+   * profile changes.
+   *
+   * @param {ExtensionContext} context - The extension context instance.
+   * @return {ProfileStatusBar} - Returns the status bar.
+   */
+  public static initialize(context: ExtensionContext): ProfileStatusBar {
+    return new ProfileStatusBar(context);
+  }
+
+  /**
+   * @constructor
+   * @param {ExtensionContext} context - The extension context instance. This is
+   *    used for disposing of the status bar item with the extension.
+   */
+  private constructor(context: ExtensionContext) {
+    this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
+    this.statusBarItem.command = ProfileStatusBar.SWITCH_COMMAND;
+    this.statusBarItem.tooltip = 'Switch SFCC connection profile';
+
+    context.subscriptions.push(
+      this.statusBarItem,
+      ConfigHelper.onDidChangeProfile(profile => this.update(profile))
+    );
+
+    this.update(ConfigHelper.activeProfile);
+  }
+
+  /**
+   * Updates the text of the status bar item to show the specified profile.
+   *
+   * @param {IDWConfig} [profile] - The active connection profile.
+   */
+  public update(profile?: IDWConfig) {
+    const name = profile ? profile.name : ConfigHelper.getActiveProfileName();
+
+    this.statusBarItem.text = '$(server) ' + (name || 'No SFCC profile');
+    this.statusBarItem.show();
+  }
+}
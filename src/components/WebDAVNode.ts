@@ -0,0 +1,60 @@
+/**
+ * @file WebDAVNode.ts
+ * @fileoverview - Contains the class of the nodes of the WebDAV view.
+ */
+
+import { TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { IWebDAVEntry } from '../services/IWebDAVEntry';
+import { WebDAVView } from './WebDAVView';
+
+/**
+ * @class WebDAVNode
+ * @extends TreeItem
+ * @classdesc A file or folder of the WebDAV view.
+ */
+export class WebDAVNode extends TreeItem {
+  /** The context values of the node types used in the package.json menus. */
+  public static readonly CONTEXT_VALUES = {
+    file: 'webdavFile',
+    folder: 'webdavFolder',
+    root: 'webdavRoot'
+  };
+
+  /**
+   * @constructor
+   * @param {IWebDAVEntry} entry - The file or folder on the server.
+   * @param {WebDAVNode} [parent] - The node of the parent folder, or undefined
+   *    for the root folders.
+   */
+  constructor(
+    public readonly entry: IWebDAVEntry,
+    public readonly parent?: WebDAVNode
+  ) {
+    super(entry.name, entry.isDirectory ?
+      TreeItemCollapsibleState.Collapsed :
+      TreeItemCollapsibleState.None);
+
+    if (!parent) {
+      this.contextValue = WebDAVNode.CONTEXT_VALUES.root;
+    } else {
+      this.contextValue = entry.isDirectory ?
+        WebDAVNode.CONTEXT_VALUES.folder : WebDAVNode.CONTEXT_VALUES.file;
+    }
+
+    // Open the text files in the editor when they are selected.
+    if (!entry.isDirectory && WebDAVView.isTextFile(entry)) {
+      this.command = {
+        arguments: [this],
+        command: WebDAVView.OPEN_COMMAND,
+        title: 'Open'
+      };
+    }
+  }
+
+  /** @member {string} tooltip - Readonly string for rendering a tooltip. */
+  get tooltip(): string {
+    return this.entry.path + (this.entry.isDirectory ? '' :
+      '\n' + this.entry.size + ' bytes' + (this.entry.lastModified ?
+        '\n' + this.entry.lastModified.toLocaleString() : ''));
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @file WebDAVView.ts
+ * @fileoverview - Contains the tree data provider of the view that browses the
+ * WebDAV folders of the instance of the active connection profile.
+ */
+
+import * as path from 'path';
+import {
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  TreeDataProvider,
+  TreeItem,
+  window
+} from 'vscode';
+import ConfigHelper from '../helpers/ConfigHelper';
+import { IWebDAVEntry } from '../services/IWebDAVEntry';
+import WebDAVService from '../services/WebDAVService';
+import { WebDAVNode } from './WebDAVNode';
+
+/**
+ * @class WebDAVView
+ * @classdesc - Serves the WebDAV root folders of the instance & their contents
+ *    to the WebDAV view.
+ */
+export class WebDAVView implements TreeDataProvider<WebDAVNode> {
+  /** The ID of the view in the package.json file. */
+  public static readonly VIEW_ID: string = 'webdavView';
+
+  /** The command that opens a text file in the editor. */
+  public static readonly OPEN_COMMAND: string = 'extension.sfccexplorer.webdav.open';
+
+  /** The WebDAV root folders that are shown at the first level. */
+  public static readonly ROOT_FOLDERS: string[] = [
+    'Impex', 'Logs', 'Temp', 'Cartridges', 'Static'
+  ];
+
+  /** The extensions of the files that can be opened as text. */
+  public static readonly TEXT_EXTENSIONS: string[] = [
+    '.csv', '.css', '.ds', '.html', '.isml', '.js', '.json', '.log',
+    '.properties', '.txt', '.xml', '.xsd'
+  ];
+
+  public readonly onDidChangeTreeData: Event<WebDAVNode | undefined>;
+  private eventEmitter: EventEmitter<WebDAVNode | undefined> =
+    new EventEmitter<WebDAVNode | undefined>();
+  private service: WebDAVService = new WebDAVService();
+
+  /**
+   * Checks if a file can be opened in the editor as text.
+   *
+   * @param {IWebDAVEntry} entry - The file on the server.
+   * @return {boolean} - Returns true for text files.
+   */
+  public static isTextFile(entry: IWebDAVEntry): boolean {
+    return WebDAVView.TEXT_EXTENSIONS.indexOf(
+      path.extname(entry.name).toLowerCase()) > -1 ||
+      /^text\/|xml|json/.test(entry.contentType);
+  }
+
+  /**
+   * @constructor
+   * @param {ExtensionContext} context - The extension context instance. This is
+   *    used for disposing of the view with the extension.
+   */
+  constructor(context: ExtensionContext) {
+    this.onDidChangeTreeData = this.eventEmitter.event;
+
+    context.subscriptions.push(
+      window.createTreeView(WebDAVView.VIEW_ID, { treeDataProvider: this }),
+      ConfigHelper.onDidChangeProfile(() => this.refresh())
+    );
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Re-renders the contents of a folder, or the whole tree.
+   *
+   * @param {WebDAVNode} [node] - The node of the folder to refresh.
+   */
+  public refresh(node?: WebDAVNode) {
+    this.eventEmitter.fire(node);
+  }
+
+  /**
+   * Returns the TreeItem instance of a node.
+   *
+   * @param {WebDAVNode} element - The node.
+   * @return {WebDAVNode} - Returns the node, which is the TreeItem instance.
+   */
+  public getTreeItem(element: WebDAVNode): WebDAVNode {
+    return element;
+  }
+
+  /**
+   * Gets the files & folders of a folder, or the root folders if no node is
+   * specified.
+   *
+   * @param {WebDAVNode} [element] - The expanded folder node.
+   * @return {Promise<WebDAVNode[]>} - Returns a promise that resolves to the
+   *    child nodes.
+   */
+  public async getChildren(element?: WebDAVNode): Promise<WebDAVNode[]> {
+    if (!element) {
+      return WebDAVView.ROOT_FOLDERS.map(folder => new WebDAVNode({
+        contentType: '',
+        isDirectory: true,
+        lastModified: null,
+        name: folder,
+        path: folder,
+        size: 0
+      }));
+    }
+
+    try {
+      const entries = await this.service.listFolder(element.entry.path);
+      return entries.map(entry => new WebDAVNode(entry, element));
+    } catch (e) {
+      window.showErrorMessage('Unable to list WebDAV folder: ' + e.message);
+      return [];
+    }
+  }
+}
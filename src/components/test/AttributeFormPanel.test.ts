@@ -0,0 +1,147 @@
+/**
+ * @file AttributeFormPanel.test.ts
+ * @fileoverview - Provides unit testing of the AttributeFormPanel.ts class.
+ */
+import * as assert from 'assert';
+
+import ObjectAttributeDefinition from '../../documents/ObjectAttributeDefinition';
+import { AttributeFormPanel } from '../AttributeFormPanel';
+
+const ATTRIBUTE_DOC = {
+  _resource_state: 'abc123',
+  display_name: { default: 'Size', de: 'Größe' },
+  id: 'size',
+  value_definitions: [
+    {
+      display_value: { default: 'Small', de: 'Klein' },
+      position: 1,
+      value: 'S'
+    },
+    {
+      display_value: { default: 'Large', de: 'Groß' },
+      position: 2,
+      value: 'L'
+    }
+  ],
+  value_type: 'enum_of_string'
+};
+
+// AttributeFormPanel Test Suite
+suite('AttributeFormPanel Tests', () => {
+  test('Gets the input kinds from the attribute fields', () => {
+    assert.equal(AttributeFormPanel.getFieldKind('mandatory'), 'boolean');
+    assert.equal(AttributeFormPanel.getFieldKind('displayName'), 'localized');
+    assert.equal(AttributeFormPanel.getFieldKind('minValue'), 'number');
+    assert.equal(AttributeFormPanel.getFieldKind('regularExpression'),
+      'text');
+    assert.equal(AttributeFormPanel.getFieldKind('valueDefinitions'),
+      'values');
+    assert.equal(AttributeFormPanel.getDocName('fieldWidth'), 'field_width');
+  });
+
+  test('Validates the values of a new attribute', () => {
+    assert.deepEqual(AttributeFormPanel.validateValues({
+      display_name: 'Weight',
+      id: 'weight',
+      max_value: '10',
+      min_value: '1.5',
+      scale: '2'
+    }, 'double', true), {});
+
+    const errors = AttributeFormPanel.validateValues({
+      display_name: ' ',
+      id: '',
+      max_value: '1',
+      min_value: '5',
+      scale: '1.5'
+    }, 'double', true);
+
+    assert.deepEqual(Object.keys(errors).sort(),
+      ['display_name', 'id', 'max_value', 'scale']);
+  });
+
+  test('Validates the value definitions of enum attributes', () => {
+    const values = { display_name: 'Size', value_definitions: 'S=Small\nS' };
+
+    assert.deepEqual(
+      AttributeFormPanel.validateValues(values, 'enum_of_string', false),
+      { value_definitions: 'The value "S" is listed more than once' }
+    );
+    assert.deepEqual(
+      AttributeFormPanel.validateValues({
+        display_name: 'Size',
+        value_definitions: '1=Small\nL=Large'
+      }, 'enum_of_int', false),
+      { value_definitions: 'The value "L" is not a whole number' }
+    );
+  });
+
+  test('Saves only the changed fields of an edited attribute', () => {
+    const original = new ObjectAttributeDefinition(ATTRIBUTE_DOC);
+    const attribute = AttributeFormPanel.getAttribute({
+      display_name: 'Size',
+      field_width: '20',
+      mandatory: true,
+      value_definitions: 'S=Small\nL=Large\nXL'
+    }, ATTRIBUTE_DOC);
+
+    assert.deepEqual(
+      AttributeFormPanel.getSaveFields(attribute, original),
+      ['mandatory', 'valueDefinitions', 'fieldWidth']
+    );
+    assert.deepEqual(attribute.displayName, { default: 'Size', de: 'Größe' });
+    assert.deepEqual(attribute.getDocument(['valueDefinitions']), {
+      value_definitions: [
+        ATTRIBUTE_DOC.value_definitions[0],
+        ATTRIBUTE_DOC.value_definitions[1],
+        { display_value: { default: 'XL' }, value: 'XL' }
+      ]
+    });
+  });
+
+  test('Keeps the localized display values of the value definitions', () => {
+    const original = new ObjectAttributeDefinition(ATTRIBUTE_DOC);
+    const values = {
+      display_name: 'Size',
+      value_definitions: 'L=Large\nS=Small'
+    };
+    let attribute = AttributeFormPanel.getAttribute(values, ATTRIBUTE_DOC);
+
+    assert.deepEqual(AttributeFormPanel.getSaveFields(attribute, original), []);
+
+    values.value_definitions = 'S=Small\nL=Big';
+    attribute = AttributeFormPanel.getAttribute(values, ATTRIBUTE_DOC);
+
+    assert.deepEqual(AttributeFormPanel.getSaveFields(attribute, original),
+      ['valueDefinitions']);
+    assert.deepEqual(attribute.valueDefinitions[1].displayValue,
+      { default: 'Big', de: 'Groß' });
+    assert.equal(attribute.valueDefinitions[1].position, 2);
+  });
+
+  test('Keeps the negative min & max values of an edited attribute', () => {
+    const doc = {
+      display_name: { default: 'Temperature' },
+      id: 'temperature',
+      max_value: -1,
+      min_value: -10,
+      value_type: 'double'
+    };
+    const original = new ObjectAttributeDefinition(doc);
+    const values: any = {};
+
+    AttributeFormPanel.FORM_FIELDS
+      .filter(formField => formField.field !== 'valueDefinitions' &&
+        AttributeFormPanel.getFieldKind(formField.field) !== 'boolean')
+      .forEach(formField => {
+        values[AttributeFormPanel.getDocName(formField.field)] =
+          AttributeFormPanel.getInputValue(original, formField.field);
+      });
+
+    assert.equal(values.min_value, '-10');
+    assert.equal(values.max_value, '-1');
+    assert.equal(values.scale, '');
+    assert.deepEqual(AttributeFormPanel.getSaveFields(
+      AttributeFormPanel.getAttribute(values, doc), original), []);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @file MetadataViewProvider.test.ts
+ * @fileoverview - Provides unit testing of the MetadataViewProvider.ts class.
+ */
+import * as assert from 'assert';
+import { EventEmitter, TreeItemCollapsibleState } from 'vscode';
+
+import ObjectAttributeDefinition from '../../documents/ObjectAttributeDefinition';
+import { MetadataNode } from '../MetadataNode';
+import { MetadataViewProvider } from '../MetadataViewProvider';
+
+// MetadataViewProvider Test Suite
+suite('MetadataViewProvider Tests', () => {
+  let provider: MetadataViewProvider;
+
+  /**
+   * Gets the node of an attribute of a local metadata file, so that the
+   * children of the node are read without calling OCAPI.
+   */
+  const getAttributeNode = (attributeDoc: any) => {
+    const node = new MetadataNode(attributeDoc.id,
+      TreeItemCollapsibleState.Collapsed, {
+        objectAttributeDefinition: new ObjectAttributeDefinition(attributeDoc),
+        parentId: 'root.' + MetadataNode.ROOT_NODES.localFile + '.Product'
+      });
+
+    node.rootTree = MetadataNode.ROOT_NODES.localFile;
+    return node;
+  };
+
+  /** Gets the Value Definitions nodes of the children of a node. */
+  const getValuesNodes = async (node: MetadataNode) =>
+    (await provider.getChildren(node)).filter(child =>
+      child && child.name === 'Value Definitions');
+
+  setup(() => {
+    provider = new MetadataViewProvider('systemObjectDefinitions',
+      new EventEmitter<MetadataNode | undefined>());
+    provider.setLocalMetadata({ filePath: 'metadata.xml', objectTypes: [] });
+  });
+
+  test('Shows one Value Definitions node for enum attributes', async () => {
+    const valuesNodes = await getValuesNodes(getAttributeNode({
+      id: 'size',
+      value_definitions: [
+        { display_value: { default: 'Small' }, value: 'S' },
+        { display_value: { default: 'Large' }, value: 'L' }
+      ],
+      value_type: 'enum_of_string'
+    }));
+
+    assert.equal(valuesNodes.length, 1);
+    assert.deepEqual(valuesNodes[0].objectAttributeValueDefinitions
+      .map(valueDef => valueDef.value), ['S', 'L']);
+  });
+
+  test('Shows the Value Definitions node of enums without values', async () => {
+    const valuesNodes = await getValuesNodes(getAttributeNode({
+      id: 'rating',
+      value_type: 'enum_of_int'
+    }));
+
+    assert.equal(valuesNodes.length, 1);
+    assert.deepEqual(valuesNodes[0].objectAttributeValueDefinitions, []);
+    assert.equal((await getValuesNodes(getAttributeNode({
+      id: 'name',
+      value_type: 'string'
+    }))).length, 0);
+  });
+});
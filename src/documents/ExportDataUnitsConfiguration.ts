@@ -18,7 +18,9 @@ export default class ExportDataUnitsConfiguration implements IAPIDocument {
   public libraries: object = { all: false };
   public libraryStaticResources: object = { all: false };
   public priceBooks: object = { all: false };
-  public sites: object = { all: new ExportSitesConfiguration() };
+  public sites: { [siteId: string]: ExportSitesConfiguration } = {
+    all: new ExportSitesConfiguration()
+  };
   public includedFields: string[] = [];
   public readonly MEMBER_MAP = {
     catalogStaticResources: 'catalog_static_resources',
@@ -54,15 +56,28 @@ export default class ExportDataUnitsConfiguration implements IAPIDocument {
       if (args.libraries) {
         this.libraries = args.libraries;
       }
+      if (args.library_static_resources) {
+        this.libraryStaticResources = args.library_static_resources;
+      }
       if (args.price_books) {
         this.priceBooks = args.price_books;
       }
       if (args.sites) {
-        this.sites = new ExportSitesConfiguration(args.sites);
+        this.sites = {};
+        Object.keys(args.sites).forEach(siteId => {
+          this.sites[siteId] = new ExportSitesConfiguration(args.sites[siteId]);
+        });
       }
     }
   }
 
+  /**
+   * Gets the OCAPI document object for sending in an API request. Only the
+   * data units that export data are included in the document.
+   * @param {string[]} includeFields - An optional array of fields can be
+   *    specified to send only specific attribute values.
+   * @return {Object} - Returns the OCAPI format object w/snake-case naming.
+   */
   public getDocument(includeFields: string[] = []) {
     const instance = this;
     const documentObj = {};
@@ -90,12 +105,26 @@ export default class ExportDataUnitsConfiguration implements IAPIDocument {
       const docPropName: string = localPropName in instance.MEMBER_MAP ?
         instance.MEMBER_MAP[localPropName] : localPropName;
       const localPropVal = instance[localPropName];
-      const isAll = localPropVal &&
-        typeof localPropVal.all === 'boolean' &&
-        localPropVal.all;
 
       if (localPropName === 'globalData') {
         documentObj[docPropName] = localPropVal.getDocument();
+      } else if (localPropName === 'sites') {
+        // Add the configuration of each site that exports any site data.
+        const sitesObj = {};
+        Object.keys(localPropVal).forEach(siteId => {
+          if (localPropVal[siteId].hasDataUnits()) {
+            sitesObj[siteId] = localPropVal[siteId].getDocument();
+          }
+        });
+
+        if (Object.keys(sitesObj).length) {
+          documentObj[docPropName] = sitesObj;
+        }
+      } else if (localPropVal &&
+        Object.keys(localPropVal).some(id => localPropVal[id] === true)
+      ) {
+        // Add the catalogs, libraries, etc. when any id, or `all`, is set.
+        documentObj[docPropName] = localPropVal;
       }
     });
 
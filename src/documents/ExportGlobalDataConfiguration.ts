@@ -60,34 +60,12 @@ export default class ExportGlobalDataConfiguration implements IAPIDocument {
    */
   constructor(args: any = {}) {
     if (args) {
-      this.accessRoles = typeof args.access_roles !== 'undefined' ? args.access_roles : false;
-      this.all = typeof args.all !== 'undefined' ? args.all : false;
-      this.cscSettings = typeof args.csc_settings !== 'undefined' ? args.cscSettings : false;
-      this.csrfWhitelists = typeof args.csrf_whitelists !== 'undefined' ? args.csrfWhitelists : false;
-      this.customPreferenceGroups = typeof args.customPreferenceGroups !== 'undefined' ?
-        args.customPreferenceGroups : false;
-      this.customQuotaSettings = typeof args.customQuotaSettings !== 'undefined' ? args.customQuotaSettings : false;
-      this.customTypes = typeof args.customTypes !== 'undefined' ? args.customTypes : false;
-      this.geolocations = typeof args.geolocations !== 'undefined' ? args.geolocations : false;
-      this.globalCustomObjects = typeof args.globalCustomObjects !== 'undefined' ? args.globalCustomObjects : false;
-      this.jobSchedules = typeof args.jobSchedules !== 'undefined' ? args.jobSchedules : false;
-      this.jobSchedulesDeprecated = typeof args.jobSchedulesDeprecated !== 'undefined' ?
-        args.jobSchedulesDeprecated : false;
-      this.locales = typeof args.locales !== 'undefined' ? args.locales : false;
-      this.oauthProviders = typeof args.oauthProviders !== 'undefined' ? args.oauthProviders : false;
-      this.ocapiSettings = typeof args.ocapiSettings !== 'undefined' ? args.ocapiSettings : false;
-      this.pageMetaTags = typeof args.pageMetaTags !== 'undefined' ? args.pageMetaTags : false;
-      this.preferences = typeof args.preferences !== 'undefined' ? args.preferences : false;
-      this.priceAdjustmentLimits = typeof args.priceAdjustmentLimits !== 'undefined' ?
-        args.priceAdjustmentLimits : false;
-      this.services = typeof args.services !== 'undefined' ? args.services : false;
-      this.sortingRules = typeof args.sortingRules !== 'undefined' ? args.sortingRules : false;
-      this.staticResources = typeof args.staticResources !== 'undefined' ? args.staticResources : false;
-      this.systemTypeDefinitions = typeof args.systemTypeDefinitions !== 'undefined' ?
-        args.systemTypeDefinitions : false;
-      this.users = typeof args.users !== 'undefined' ? args.users : false;
-      this.webdavClientPermissions = typeof args.webdavClientPermissions !== 'undefined' ?
-        args.webdavClientPermissions : false;
+      // Set each data unit from its OCAPI document name.
+      Object.keys(this).filter(key => typeof this[key] === 'boolean')
+        .forEach(key => {
+          const docName = key in this.MEMBER_MAP ? this.MEMBER_MAP[key] : key;
+          this[key] = typeof args[docName] !== 'undefined' ? args[docName] : false;
+        });
     }
   }
 
@@ -95,6 +95,14 @@ export default class ExportSitesConfiguration implements IAPIDocument {
     }
   }
 
+  /**
+   * Checks if any data of the site is exported with this configuration.
+   * @returns {boolean} - Returns true if any of the data units is set.
+   */
+  public hasDataUnits(): boolean {
+    return Object.keys(this.MEMBER_MAP).some(key => this[key] === true);
+  }
+
   /**
    * Gets the object with OCAPI snake_case named properties for sending in API
    * call payloads.
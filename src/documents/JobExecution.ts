@@ -56,6 +56,7 @@ export default class JobsExecution implements IAPIDocument {
       this.logFileName = args.log_file_name ? args.log_file_name : '';
       this.status = args.status ? args.status : '';
       this.parameters = args.parameters && args.parameters.length ? args.parameters : [];
+      this.duration = args.duration || 0;
 
       // Set boolean property values.
       this.isLogFileExisting = typeof args.is_log_file_existing !== 'undefined' &&
@@ -75,6 +76,12 @@ export default class JobsExecution implements IAPIDocument {
       if (args.execution_scopes && args.execution_scopes.length) {
         this.executionScopes = args.execution_scopes;
       }
+
+      // Set stepExecutions property value.
+      if (args.step_executions && args.step_executions.length) {
+        this.stepExecutions = args.step_executions.map(
+          stepExe => new JobStepExecution(stepExe));
+      }
     }
 
     // Set Date field values.
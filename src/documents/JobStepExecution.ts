@@ -1,4 +1,5 @@
 import IAPIDocument from '../interfaces/IAPIDocument';
+import { IOCAPITypes } from '../interfaces/IOCAPITypes';
 
 /**
  * @class
@@ -9,7 +10,7 @@ export default class JobStepExecution implements IAPIDocument {
   public duration: number = 0;
   public endTime: Date;
   public executionScope: string = '';
-  public exitStatus: string = '';
+  public exitStatus: IOCAPITypes.IStatus;
   public id: string = '';
   public includeStepsFromJobId: string = '';
   public isChunkOriented: boolean = false;
@@ -59,24 +60,33 @@ export default class JobStepExecution implements IAPIDocument {
 
       // String type fields
       this.executionScope = args.execution_scope || '';
-      this.exitStatus = args.exit_status || '';
       this.id = args.id || '';
       this.includeStepsFromJobId = args.include_steps_from_job_id || '';
       this.status = args.status || '';
       this.stepDescription = args.step_description || '';
       this.stepId = args.step_id || '';
       this.stepTypeId = args.step_type_id || '';
-      this.stepTypeInfo = args.stepTypeInfo || '';
+      this.stepTypeInfo = args.step_type_info || '';
 
       // Other
       this.isChunkOriented = typeof args.is_chunk_oriented !== 'undefined' &&
         args.is_chunk_oriented;
+
+      // Set exitStatus property value.
+      if (args.exit_status) {
+        this.exitStatus = {
+          code: args.exit_status.code || '',
+          message: args.exit_status.message || '',
+          status: args.exit_status.status || 'ok'
+        };
+      }
     }
 
     // Set date fields.
     this.endTime = args && args.end_time ? new Date(args.end_time) : new Date();
-    this.endTime = args && args.modification_time ? new Date(args.modification_time) : new Date();
-    this.endTime = args && args.start_time ? new Date(args.start_time) : new Date();
+    this.modificationTime = args && args.modification_time ?
+      new Date(args.modification_time) : new Date();
+    this.startTime = args && args.start_time ? new Date(args.start_time) : new Date();
   }
 
   /**
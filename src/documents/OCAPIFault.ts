@@ -0,0 +1,86 @@
+/**
+ * @file OCAPIFault.ts
+ * @fileoverview - Exports the OCAPIFault class which is a model for the fault
+ * document that OCAPI returns in the body of a failed request.
+ */
+
+import IAPIDocument from '../interfaces/IAPIDocument';
+
+/**
+ * @class
+ * @classdesc - Used for handling the OCAPI document: Fault. The `type` is the
+ *    name of the server side exception, for example:
+ *    `AttributeDefinitionAlreadyExistsException`.
+ */
+export default class OCAPIFault implements IAPIDocument {
+  // Class Member Fields
+  public arguments: { [key: string]: any } = {};
+  public message: string = '';
+  public statusCode: number = 0;
+  public type: string = '';
+  public includedFields: string[] = [];
+
+  public readonly MEMBER_MAP = {};
+
+  /**
+   * @param {Object} args - The raw JSON object returned from a failed call to
+   *    SFCC OCAPI. This can be either the full response body, or the value of
+   *    its `fault` property.
+   * @param {number} [statusCode] - The HTTP status code of the response.
+   * @constructor
+   */
+  constructor(args, statusCode?: number) {
+    const fault = args && args.fault ? args.fault : args;
+
+    if (fault) {
+      if (fault.arguments) {
+        this.arguments = fault.arguments;
+      }
+      if (fault.message) {
+        this.message = fault.message;
+      }
+      if (fault.type) {
+        this.type = fault.type;
+      }
+    }
+
+    if (statusCode) {
+      this.statusCode = statusCode;
+    }
+  }
+
+  /**
+   * Checks if a response body contains an OCAPI fault document.
+   *
+   * @param {Object} body - The parsed JSON body of an OCAPI response.
+   * @return {boolean} - Returns true if the body contains a fault.
+   */
+  public static isFault(body: any): boolean {
+    return !!body && typeof body.fault === 'object' && body.fault !== null &&
+      typeof body.fault.type === 'string';
+  }
+
+  /**
+   * Gets a message for displaying the reason for the fault to the user.
+   *
+   * @return {string} - Returns the fault type and the server message.
+   */
+  public toString(): string {
+    return this.message ? this.type + ': ' + this.message : this.type;
+  }
+
+  /**
+   * Gets an object literal that conforms to the OCAPI Fault document.
+   *
+   * @return {Object} - Returns the fault document.
+   */
+  public getDocument(): object {
+    return {
+      fault: {
+        arguments: this.arguments,
+        message: this.message,
+        type: this.type
+      }
+    };
+  }
+}
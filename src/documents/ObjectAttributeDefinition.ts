@@ -22,6 +22,8 @@ export default class ObjectAttributeDefinition implements IAPIDocument {
   public effectiveId: string;
   public externallyDefined: boolean;
   public externallyManaged: boolean;
+  public fieldHeight?: number;
+  public fieldWidth?: number;
   public id: string;
   public key: boolean;
   public link: string;
@@ -81,8 +83,8 @@ export default class ObjectAttributeDefinition implements IAPIDocument {
    * Notes:
    *  - Number values that default to -1 do so because they are integers. The -1
    *    value indicates that they have not been set.
-   *  - The values for field_height and field_width are ignored only kept for
-   *    use in the import and export files.
+   *  - The values for field_height and field_width are not part of the OCAPI
+   *    document, and are only kept for use in the import and export files.
    */
   constructor(args) {
     this.defaultValue =
@@ -93,21 +95,23 @@ export default class ObjectAttributeDefinition implements IAPIDocument {
     this.effectiveId = args.effective_id || '';
     this.externallyDefined = args.externally_defined || false;
     this.externallyManaged = args.externally_managed || false;
+    this.fieldHeight = args.field_height || null;
+    this.fieldWidth = args.field_width || null;
     this.id = args.id || '';
     this.key = args.key || false;
     this.link = args.link || '';
     this.localizable = args.localizable || false;
     this.mandatory = args.mandatory || false;
-    this.maxValue = args.max_value || null;
+    this.maxValue = typeof args.max_value === 'number' ? args.max_value : null;
     this.minLength = args.min_length || 0;
-    this.minValue = args.min_value || null;
+    this.minValue = typeof args.min_value === 'number' ? args.min_value : null;
     this.multiValueType = args.multi_value_type || false;
     this.orderRequired = args.order_required || false;
     this.queryable = args.queryable || false;
     this.readOnly = args.read_only || false;
     this.regularExpression = args.regular_expression || '';
     this.requiresEncoding = args.requires_encoding || false;
-    this.scale = args.scale || -1;
+    this.scale = typeof args.scale === 'number' ? args.scale : -1;
     this.searchable = args.searchable || false;
     this.setValueType = args.set_value_type || '';
     this.siteSpecific = args.site_specific || false;
@@ -32,10 +32,24 @@ export default class ObjectAttributeValueDefinition {
       this.displayValue = args.display_value || { default: '' };
       this.id = args.id || '';
       this.position = args.position || -1;
-      this.value = args.value || {};
+      // Keep the falsy values of boolean & number attributes, like the
+      // default value `false`.
+      this.value = typeof args.value !== 'undefined' && args.value !== null ?
+        args.value : {};
     }
   }
 
+  /**
+   * Checks if the value definition has a value. The value is an empty object
+   * when the document had no value.
+   *
+   * @return {boolean} - Returns true if the value is set.
+   */
+  public hasValue(): boolean {
+    return typeof this.value !== 'undefined' && this.value !== null &&
+      (typeof this.value !== 'object' || Array.isArray(this.value));
+  }
+
   /**
    * Gets a JSON string representation in the form of the OCAPI document.
    *
@@ -50,6 +64,31 @@ export default class ObjectAttributeValueDefinition {
    */
   public getDocument(includeFields: string[] = []): object {
     const result = {};
+    const docFields = {
+      description: 'description',
+      displayValue: 'display_value',
+      id: 'id',
+      position: 'position',
+      value: 'value'
+    };
+
+    Object.keys(docFields).filter(field => !includeFields.length ||
+      includeFields.indexOf(field) > -1
+    ).forEach(field => {
+      const fieldValue = this[field];
+
+      // Leave out the fields that still have the defaults of the constructor.
+      const isUnset = typeof fieldValue === 'undefined' || fieldValue === '' ||
+        (field === 'position' && fieldValue === -1) ||
+        (field === 'value' && !this.hasValue()) ||
+        ((field === 'description' || field === 'displayValue') &&
+          !fieldValue.default && Object.keys(fieldValue).length === 1);
+
+      if (!isUnset) {
+        result[docFields[field]] = fieldValue;
+      }
+    });
+
     return result;
   }
 }
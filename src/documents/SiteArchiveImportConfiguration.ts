@@ -0,0 +1,49 @@
+import { getAPIVersion } from '../apiConfig';
+import IAPIDocument from '../interfaces/IAPIDocument';
+
+/**
+ * @class
+ * @classdesc - OCAPI SiteArchiveImportConfiguration document class for TS.
+ *    The OCAPI document is passed to the Jobs resource to execute the global
+ *    system job sfcc-site-archive-import for importing an archive that has
+ *    been uploaded to the Impex/src/instance folder of the server.
+ */
+export default class SiteArchiveImportConfiguration implements IAPIDocument {
+  /** The import modes that are supported by the import job. */
+  public static readonly MODES: string[] = ['merge', 'replace', 'delete'];
+
+  public fileName: string = '';
+  public mode: string = 'merge';
+
+  public includedFields: string[] = [];
+  public readonly MEMBER_MAP = {
+    fileName: 'file_name'
+  };
+
+  /**
+   * @param {Object} [args] - An optional argumanet for passing the raw JSON
+   *    OCAPI body for SiteArchiveImportConfiguration type.
+   * @constructor
+   */
+  constructor(args: any = {}) {
+    if (args) {
+      this.fileName = args.file_name || '';
+      this.mode = SiteArchiveImportConfiguration.MODES.indexOf(args.mode) > -1 ?
+        args.mode : 'merge';
+    }
+  }
+
+  /**
+   * Gets the OCAPI document.
+   * @return {Object} - Returns the SiteArchiveImportConfiguration OCAPI doc.
+   */
+  public getDocument() {
+    const docObj = {
+      '_v': getAPIVersion(),
+      'file_name': this.fileName,
+      'mode': this.mode
+    };
+
+    return docObj;
+  }
+}
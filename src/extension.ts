@@ -1,10 +1,40 @@
 'use strict';
 
-import { commands, Disposable, ExtensionContext, window } from 'vscode';
+import {
+  commands,
+  Disposable,
+  ExtensionContext,
+  Uri,
+  window,
+  workspace
+} from 'vscode';
+import CredentialProvider from './authorization/CredentialProvider';
+import { AttributeFormPanel } from './components/AttributeFormPanel';
+import { CustomObjectFileSystem } from './components/CustomObjectFileSystem';
+import { JobNode } from './components/JobNode';
+import { JobsView } from './components/JobsView';
+import { MetadataDiffView } from './components/MetadataDiffView';
 import { MetadataNode } from './components/MetadataNode';
 import { MetadataView } from './components/MetadataView';
+import { ProfileStatusBar } from './components/ProfileStatusBar';
+import { WebDAVNode } from './components/WebDAVNode';
+import { WebDAVView } from './components/WebDAVView';
 import CommandHelper from './helpers/CommandHelper';
+import ConfigHelper from './helpers/ConfigHelper';
+import CredentialsHelper from './helpers/CredentialsHelper';
+import CustomObjectsHelper from './helpers/CustomObjectsHelper';
+import ExportHelper from './helpers/ExportHelper';
+import ExportPresetsHelper from './helpers/ExportPresetsHelper';
+import ImportHelper from './helpers/ImportHelper';
+import JobsHelper from './helpers/JobsHelper';
+import MetadataDiffHelper from './helpers/MetadataDiffHelper';
 import OCAPIHelper from './helpers/OCAPIHelper';
+import ValueDefinitionsHelper from './helpers/ValueDefinitionsHelper';
+import WebDAVHelper from './helpers/WebDAVHelper';
+import JobRunner from './services/JobRunner';
+import { OCAPIService } from './services/OCAPIService';
+import SnapshotStore from './services/SnapshotStore';
+import MetadataXMLParser from './xmlHandler/MetadataXMLParser';
 import XMLHandler from './xmlHandler/XMLHandler';
 
 /**
@@ -14,13 +44,213 @@ import XMLHandler from './xmlHandler/XMLHandler';
  * @param context - The context object used to subscribe commands with.
  */
 export function activate(context: ExtensionContext) {
+  // Setup the connection profiles & the status bar profile switcher.
+  ConfigHelper.initialize(context);
+  CredentialProvider.initialize(context);
+  SnapshotStore.initialize(context);
+  ProfileStatusBar.initialize(context);
+
   // Setup view for System Object Definitions view.
   const metaView: MetadataView = new MetadataView(context);
   const ocapiHelper = new OCAPIHelper();
   const xmlHandler = new XMLHandler();
   const commandHelper = new CommandHelper();
+  const credentialsHelper = new CredentialsHelper();
+  const diffView = new MetadataDiffView(context);
+  const webDAVView = new WebDAVView(context);
+  const webDAVHelper = new WebDAVHelper();
+  const jobsHelper = new JobsHelper(context.workspaceState);
+  const customObjectsHelper = new CustomObjectsHelper(context.workspaceState);
+  const jobsView = new JobsView(context, jobsHelper);
+  const customObjectFileSystem = new CustomObjectFileSystem(customObjectsHelper);
+  const valueDefinitionsHelper = new ValueDefinitionsHelper();
   metaView.getDataFromProvider('systemObjectDefinitions');
 
+  /**
+   * Binds the handlers for browsing & editing the custom objects of the
+   * custom types in the explorer. The custom objects are opened as JSON
+   * documents of the custom object file system, and saving a document updates
+   * the custom object.
+   *
+   * @listens extension.sfccexplorer.customobject.openobject
+   * @listens extension.sfccexplorer.customobject.loadobjects
+   * @listens extension.sfccexplorer.customobject.createobject
+   * @listens extension.sfccexplorer.customobject.deleteobject
+   */
+  const customObjectFileSystemDisposable: Disposable =
+    workspace.registerFileSystemProvider(CustomObjectFileSystem.SCHEME,
+      customObjectFileSystem, { isCaseSensitive: true });
+
+  const openCustomObject = (uri: Uri) => {
+    workspace.openTextDocument(uri)
+      .then(doc => window.showTextDocument(doc))
+      .then(undefined, err => {
+        window.showErrorMessage('Unable to open custom object: ' +
+          (err.message || err));
+      });
+  };
+
+  const openCustomObjectDisposable: Disposable = commands.registerCommand(
+    CustomObjectsHelper.OPEN_OBJECT_COMMAND,
+    (metaNode: MetadataNode) => {
+      openCustomObject(CustomObjectFileSystem.getUri(
+        metaNode.parentId.split('.').pop(), String(metaNode.value)));
+    }
+  );
+
+  const loadCustomObjectsDisposable: Disposable = commands.registerCommand(
+    CustomObjectsHelper.LOAD_OBJECTS_COMMAND,
+    (metaNode: MetadataNode) => {
+      metaView.currentProvider.loadMoreObjects(metaNode);
+    }
+  );
+
+  const createCustomObjectDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.createobject',
+    (metaNode: MetadataNode) => {
+      customObjectsHelper.createObject(metaNode).then(key => {
+        if (key) {
+          metaView.currentProvider.refresh();
+          openCustomObject(CustomObjectFileSystem.getUri(
+            metaNode.parentId.split('.').pop(), key));
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to create custom object: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  const deleteCustomObjectDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.deleteobject',
+    (metaNode: MetadataNode) => {
+      customObjectsHelper.deleteObject(metaNode).then(isDeleted => {
+        if (isDeleted) {
+          window.showInformationMessage('Custom object deleted.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to delete custom object: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for switching the active connection profile. The command
+   * is also run when the profile status bar item is clicked.
+   *
+   * @listens extension.sfccexplorer.profile.switch
+   */
+  const switchProfileDisposable: Disposable = commands.registerCommand(
+    ProfileStatusBar.SWITCH_COMMAND,
+    () => {
+      new ConfigHelper().switchProfile().then(profile => {
+        // Reload the tree view from the newly selected instance.
+        if (profile) {
+          window.showInformationMessage(
+            'Switched to SFCC connection profile: ' + profile.name);
+          metaView.currentProvider.refresh();
+        }
+      });
+    }
+  );
+
+  /**
+   * Binds the handlers for managing the custom object type definitions. The
+   * types are changed with the site import job, so the tree is refreshed
+   * when the import has finished.
+   *
+   * @listens extension.sfccexplorer.customobject.create
+   * @listens extension.sfccexplorer.customobject.addtype
+   * @listens extension.sfccexplorer.customobject.addattribute
+   * @listens extension.sfccexplorer.customobject.editattribute
+   * @listens extension.sfccexplorer.customobject.delete
+   * @listens extension.sfccexplorer.customobject.remove
+   */
+  const createCustomTypeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.create',
+    () => {
+      customObjectsHelper.createType().then(typeId => {
+        if (typeId) {
+          window.showInformationMessage('Custom object type created: ' +
+            typeId);
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to create custom object type: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  const addCustomTypeDisposable: Disposable = commands.registerCommand(
+    CustomObjectsHelper.ADD_TYPE_COMMAND,
+    (suggestedId?: string) => {
+      customObjectsHelper.addExistingType(
+        typeof suggestedId === 'string' ? suggestedId : undefined
+      ).then(typeId => {
+        if (typeId) {
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to add custom object type: ' +
+          (err.message || err));
+      });
+    }
+  );
+
+  const saveCustomAttributeHandler = (metaNode: MetadataNode) => {
+    customObjectsHelper.saveAttribute(metaNode).then(isSaved => {
+      if (isSaved) {
+        window.showInformationMessage('Attribute saved successfully.');
+        metaView.currentProvider.refresh();
+      }
+    }).catch(err => {
+      window.showErrorMessage('Unable to save attribute: ' +
+        (err.message || err));
+      console.error(err);
+    });
+  };
+
+  const addCustomAttributeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.addattribute',
+    saveCustomAttributeHandler
+  );
+
+  const editCustomAttributeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.editattribute',
+    saveCustomAttributeHandler
+  );
+
+  const deleteCustomTypeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.delete',
+    (metaNode: MetadataNode) => {
+      customObjectsHelper.deleteType(metaNode).then(isDeleted => {
+        if (isDeleted) {
+          window.showInformationMessage('Custom object type deleted.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to delete custom object type: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  const removeCustomTypeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.customobject.remove',
+    (metaNode: MetadataNode) => {
+      customObjectsHelper.removeType(metaNode).then(() => {
+        metaView.currentProvider.refresh();
+      });
+    }
+  );
+
   /**
    * Binds the handler function for the event. The command has been defined in
    * the package.json file.
@@ -30,20 +260,196 @@ export function activate(context: ExtensionContext) {
   const addAttributeDisposable: Disposable = commands.registerCommand(
     'extension.sfccexplorer.systemobject.addattribute',
     (metaNode: MetadataNode) => {
-      ocapiHelper
-        .addAttributeNode(metaNode)
-        .then(data => {
-          window.showInformationMessage(
-            'Attribute successfully added.');
-          metaView.currentProvider.refresh();
+      new AttributeFormPanel(metaNode.objectTypeDefinition.objectType)
+        .show()
+        .then(isSaved => {
+          if (isSaved) {
+            window.showInformationMessage(
+              'Attribute successfully added.');
+            metaView.currentProvider.refresh();
+          }
+        });
+    }
+  );
+
+  /**
+   * Binds the handler for editing a system object attribute definition in
+   * the attribute form.
+   *
+   * @listens extension.sfccexplorer.systemobject.attributeform
+   */
+  const attributeFormDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.attributeform',
+    (metaNode: MetadataNode) => {
+      const path = metaNode.parentId.split('.');
+
+      ocapiHelper.getExpandedAttribute(metaNode)
+        .then(result => OCAPIService.rejectOnError(result))
+        .then(attributeDoc =>
+          new AttributeFormPanel(path[path.length - 2], attributeDoc).show())
+        .then(isSaved => {
+          if (isSaved) {
+            window.showInformationMessage('Attribute saved successfully.');
+            metaView.currentProvider.refresh();
+          }
         })
         .catch(err => {
-          window.showErrorMessage('Unable to add attribute: {0}', err);
+          window.showErrorMessage('Unable to edit attribute: ' +
+            (err.message || err));
           console.error(err);
         });
     }
   );
 
+  /**
+   * Binds the handler for editing the fields of a system object attribute
+   * definition.
+   *
+   * @listens extension.sfccexplorer.systemobject.editattribute
+   */
+  const editAttributeDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.editattribute',
+    (metaNode: MetadataNode) => {
+      ocapiHelper.editAttributeDefinition(metaNode).then(isChanged => {
+        if (isChanged) {
+          window.showInformationMessage('Attribute saved successfully.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to edit attribute: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for adding a value definition to an enum attribute.
+   *
+   * @listens extension.sfccexplorer.systemobject.addvalue
+   */
+  const addValueDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.addvalue',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.addValueDefinition(metaNode).then(isAdded => {
+        if (isAdded) {
+          window.showInformationMessage('Value successfully added.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to add value: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for adding the value definitions of an enum attribute
+   * from CSV lines on the clipboard.
+   *
+   * @listens extension.sfccexplorer.systemobject.pastevalues
+   */
+  const pasteValuesDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.pastevalues',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.pasteValueDefinitions(metaNode).then(count => {
+        if (count) {
+          window.showInformationMessage(count + ' value(s) saved.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to paste values: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for editing the localized display value of a value
+   * definition.
+   *
+   * @listens extension.sfccexplorer.systemobject.editvalue
+   */
+  const editValueDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.editvalue',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.editDisplayValue(metaNode).then(isChanged => {
+        if (isChanged) {
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to edit value: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for moving a value definition up in the values of the
+   * attribute.
+   *
+   * @listens extension.sfccexplorer.systemobject.movevalueup
+   */
+  const moveValueUpDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.movevalueup',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.moveValueDefinition(metaNode, -1).then(isMoved => {
+        if (isMoved) {
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to move value: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for moving a value definition down in the values of the
+   * attribute.
+   *
+   * @listens extension.sfccexplorer.systemobject.movevaluedown
+   */
+  const moveValueDownDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.movevaluedown',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.moveValueDefinition(metaNode, 1).then(isMoved => {
+        if (isMoved) {
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to move value: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for deleting a value definition of an enum attribute.
+   *
+   * @listens extension.sfccexplorer.systemobject.deletevalue
+   */
+  const deleteValueDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.systemobject.deletevalue',
+    (metaNode: MetadataNode) => {
+      valueDefinitionsHelper.deleteValueDefinition(metaNode).then(isDeleted => {
+        if (isDeleted) {
+          window.showInformationMessage('Value successfully deleted.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to delete value: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
   /**
    * Binds the handler function for the event. The command has been defined in
    * the package.json file.
@@ -60,7 +466,7 @@ export function activate(context: ExtensionContext) {
           metaView.currentProvider.refresh();
         })
         .catch(err => {
-          window.showErrorMessage('Unable to delete attribute: {0}', err);
+          window.showErrorMessage('Unable to delete attribute: ' + err);
           console.log(err);
         });
     }
@@ -96,12 +502,60 @@ export function activate(context: ExtensionContext) {
           metaView.currentProvider.refresh();
         })
         .catch(err => {
-          window.showErrorMessage('Unable to add attribute: {0}', err);
+          window.showErrorMessage('Unable to add attribute: ' + err);
           console.log(err);
         });
     }
   );
 
+  /**
+   * Binds the handlers for the commands that manage the credentials of the
+   * connection profiles in the secret storage.
+   *
+   * @listens extension.sfccexplorer.credentials.set
+   * @listens extension.sfccexplorer.credentials.rotate
+   * @listens extension.sfccexplorer.credentials.clear
+   */
+  const setCredentialDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.credentials.set',
+    () => {
+      credentialsHelper.setCredential().then(isStored => {
+        if (isStored) {
+          window.showInformationMessage('Credential stored successfully.');
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to store credential: ' + err);
+        console.error(err);
+      });
+    }
+  );
+  const rotateCredentialDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.credentials.rotate',
+    () => {
+      credentialsHelper.rotateCredential().then(isStored => {
+        if (isStored) {
+          window.showInformationMessage('Credential rotated successfully.');
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to rotate credential: ' + err);
+        console.error(err);
+      });
+    }
+  );
+  const clearCredentialsDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.credentials.clear',
+    () => {
+      credentialsHelper.clearCredentials().then(isCleared => {
+        if (isCleared) {
+          window.showInformationMessage('Stored credentials removed.');
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to clear credentials: ' + err);
+        console.error(err);
+      });
+    }
+  );
+
   /**
    * Binds the handler for the context menu command to set the default value of
    * a system object attribute.
@@ -113,13 +567,16 @@ export function activate(context: ExtensionContext) {
     (metaNode: MetadataNode) => {
       ocapiHelper
         .setDefaultAttributeValue(metaNode)
-        .then(data => {
-          window.showInformationMessage(
-            'Attribute default value sucessfully set.');
-          metaView.currentProvider.refresh();
+        .then(isChanged => {
+          if (isChanged) {
+            window.showInformationMessage(
+              'Attribute default value sucessfully set.');
+            metaView.currentProvider.refresh();
+          }
         })
         .catch(err => {
-          window.showErrorMessage('Unable to set default value: {0}', err);
+          window.showErrorMessage('Unable to set default value: ' +
+            (err.message || err));
           console.log(err);
         });
     }
@@ -149,7 +606,7 @@ export function activate(context: ExtensionContext) {
             return;
           }
 
-          window.showErrorMessage('Could not create attribute group: {0}', err);
+          window.showErrorMessage('Could not create attribute group: ' + err);
           console.log(err);
         });
     }
@@ -179,7 +636,7 @@ export function activate(context: ExtensionContext) {
             return;
           }
 
-          window.showErrorMessage('Could not create attribute group: {0}', err);
+          window.showErrorMessage('Could not remove attribute from group: ' + err);
           console.log(err);
         });
     }
@@ -209,7 +666,7 @@ export function activate(context: ExtensionContext) {
             return;
           }
 
-          window.showErrorMessage('Could not delete attribute group:' + JSON.stringify(err));
+          window.showErrorMessage('Could not delete attribute group: ' + err);
           console.log(err);
         });
     }
@@ -271,6 +728,304 @@ export function activate(context: ExtensionContext) {
     }
   );
 
+  /**
+   * Binds the handlers for opening a local metadata XML file, or site import
+   * archive, for preview in the tree view & for removing it from the tree.
+   *
+   * @listens extension.sfccexplorer.localfile.open
+   * @listens extension.sfccexplorer.localfile.close
+   */
+  const openLocalFileDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.localfile.open',
+    () => {
+      window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Metadata Files': ['xml', 'zip'] },
+        openLabel: 'Preview Metadata'
+      }).then(uris => {
+        if (!uris || !uris.length) {
+          return;
+        }
+
+        return new MetadataXMLParser().parseFile(uris[0].fsPath)
+          .then(localMetadata => {
+            metaView.currentProvider.setLocalMetadata(localMetadata);
+          });
+      }).then(undefined, err => {
+        window.showErrorMessage('Unable to open metadata file: ' + err);
+        console.error(err);
+      });
+    }
+  );
+  const closeLocalFileDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.localfile.close',
+    () => {
+      metaView.currentProvider.setLocalMetadata(null);
+    }
+  );
+
+  /**
+   * Binds the handler for comparing the metadata of the active connection
+   * profile with a local metadata file or another connection profile.
+   *
+   * @listens extension.sfccexplorer.metadata.diff
+   */
+  const diffMetadataDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.metadata.diff',
+    () => {
+      new MetadataDiffHelper().compare().then(comparison => {
+        if (comparison) {
+          diffView.setComparison(comparison);
+          window.showInformationMessage(comparison.objectTypes.length ?
+            'Metadata differences are shown in the Metadata Diff view.' :
+            'No metadata differences found.');
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to compare metadata: ' + err);
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for deploying a local metadata folder to the sandbox
+   * with the site import job.
+   *
+   * @listens extension.sfccexplorer.metadata.deploy
+   */
+  const deployMetadataDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.metadata.deploy',
+    () => {
+      new ImportHelper().deployMetadata().then(isDeployed => {
+        if (isDeployed) {
+          window.showInformationMessage('Metadata imported successfully.');
+          metaView.currentProvider.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to deploy metadata: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handler for exporting the selected data units with the site
+   * export job, and extracting the archive into a local folder.
+   *
+   * @listens extension.sfccexplorer.export.wizard
+   */
+  const exportArchiveDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.export.wizard',
+    () => {
+      new ExportHelper().exportArchive().catch(err => {
+        window.showErrorMessage('Unable to export site archive: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  /**
+   * Binds the handlers for running an export preset of the workspace, and for
+   * opening the presets file.
+   *
+   * @listens extension.sfccexplorer.export.preset
+   * @listens extension.sfccexplorer.export.presets.open
+   */
+  const runExportPresetDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.export.preset',
+    () => {
+      new ExportPresetsHelper().runPreset().catch(err => {
+        window.showErrorMessage('Unable to run export preset: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  const openExportPresetsDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.export.presets.open',
+    () => {
+      new ExportPresetsHelper().openPresetsFile().catch(err => {
+        window.showErrorMessage('Unable to open export presets: ' +
+          (err.message || err));
+      });
+    }
+  );
+
+  /**
+   * Binds the handlers for the commands of the WebDAV file browser view.
+   *
+   * @listens extension.sfccexplorer.webdav.open
+   * @listens extension.sfccexplorer.webdav.download
+   * @listens extension.sfccexplorer.webdav.upload
+   * @listens extension.sfccexplorer.webdav.delete
+   * @listens extension.sfccexplorer.webdav.refresh
+   */
+  const openWebDAVFileDisposable: Disposable = commands.registerCommand(
+    WebDAVView.OPEN_COMMAND,
+    (node: WebDAVNode) => {
+      webDAVHelper.openFile(node).catch(err => {
+        window.showErrorMessage('Unable to open file: ' + err.message);
+        console.error(err);
+      });
+    }
+  );
+  const downloadWebDAVFileDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.webdav.download',
+    (node: WebDAVNode) => {
+      webDAVHelper.downloadFile(node).then(filePath => {
+        if (filePath) {
+          window.showInformationMessage('Downloaded file to: ' + filePath);
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to download file: ' + err.message);
+        console.error(err);
+      });
+    }
+  );
+  const uploadWebDAVFileDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.webdav.upload',
+    (node: WebDAVNode) => {
+      webDAVHelper.uploadFiles(node).then(fileCount => {
+        if (fileCount) {
+          window.showInformationMessage('Uploaded ' + fileCount +
+            ' file(s) to ' + node.entry.path);
+          webDAVView.refresh(node);
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to upload file: ' + err.message);
+        console.error(err);
+      });
+    }
+  );
+  const deleteWebDAVFileDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.webdav.delete',
+    (node: WebDAVNode) => {
+      webDAVHelper.deleteEntry(node).then(isDeleted => {
+        if (isDeleted) {
+          webDAVView.refresh(node.parent);
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to delete: ' + err.message);
+        console.error(err);
+      });
+    }
+  );
+  const refreshWebDAVDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.webdav.refresh',
+    () => {
+      webDAVView.refresh();
+    }
+  );
+
+  /**
+   * Binds the handlers for the commands of the jobs view, which lists the
+   * recent executions of a job.
+   *
+   * @listens extension.sfccexplorer.jobs.select
+   * @listens extension.sfccexplorer.jobs.showlog
+   * @listens extension.sfccexplorer.jobs.refresh
+   * @listens extension.sfccexplorer.jobs.run
+   */
+  const selectJobDisposable: Disposable = commands.registerCommand(
+    JobsView.SELECT_JOB_COMMAND,
+    () => {
+      jobsView.selectJob();
+    }
+  );
+  const showJobLogDisposable: Disposable = commands.registerCommand(
+    JobsView.SHOW_LOG_COMMAND,
+    (node: JobNode) => {
+      const isRunning = JobRunner.isRunning(node.execution.status);
+
+      jobsHelper.streamLog(node.execution).then(() => {
+        // Update the view with the final status of a job that was running.
+        if (isRunning) {
+          jobsView.refresh();
+        }
+      }).catch(err => {
+        window.showErrorMessage('Unable to show job log: ' +
+          (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+  const refreshJobsDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.jobs.refresh',
+    () => {
+      jobsView.refresh();
+    }
+  );
+
+  const runJobDisposable: Disposable = commands.registerCommand(
+    'extension.sfccexplorer.jobs.run',
+    () => {
+      jobsHelper.runJob().then(jobExe => {
+        if (!jobExe) {
+          return;
+        }
+
+        jobsView.refresh();
+
+        const message = 'Job ' + jobExe.jobId + ' finished with status: ' +
+          (jobExe.exitStatus ? jobExe.exitStatus.code : jobExe.status);
+        const showMessage = JobRunner.isSuccessful(jobExe) ?
+          window.showInformationMessage : window.showWarningMessage;
+
+        showMessage(message, 'Show Log').then(choice => {
+          if (choice) {
+            return jobsHelper.streamLog(jobExe);
+          }
+        });
+      }).catch(err => {
+        window.showErrorMessage('Unable to run job: ' + (err.message || err));
+        console.error(err);
+      });
+    }
+  );
+
+  context.subscriptions.push(addValueDisposable);
+  context.subscriptions.push(pasteValuesDisposable);
+  context.subscriptions.push(editValueDisposable);
+  context.subscriptions.push(moveValueUpDisposable);
+  context.subscriptions.push(moveValueDownDisposable);
+  context.subscriptions.push(deleteValueDisposable);
+  context.subscriptions.push(attributeFormDisposable);
+  context.subscriptions.push(editAttributeDisposable);
+  context.subscriptions.push(customObjectFileSystemDisposable);
+  context.subscriptions.push(openCustomObjectDisposable);
+  context.subscriptions.push(loadCustomObjectsDisposable);
+  context.subscriptions.push(createCustomObjectDisposable);
+  context.subscriptions.push(deleteCustomObjectDisposable);
+  context.subscriptions.push(createCustomTypeDisposable);
+  context.subscriptions.push(addCustomTypeDisposable);
+  context.subscriptions.push(addCustomAttributeDisposable);
+  context.subscriptions.push(editCustomAttributeDisposable);
+  context.subscriptions.push(deleteCustomTypeDisposable);
+  context.subscriptions.push(removeCustomTypeDisposable);
+  context.subscriptions.push(jobsHelper);
+  context.subscriptions.push(runJobDisposable);
+  context.subscriptions.push(selectJobDisposable);
+  context.subscriptions.push(showJobLogDisposable);
+  context.subscriptions.push(refreshJobsDisposable);
+  context.subscriptions.push(switchProfileDisposable);
+  context.subscriptions.push(openWebDAVFileDisposable);
+  context.subscriptions.push(downloadWebDAVFileDisposable);
+  context.subscriptions.push(uploadWebDAVFileDisposable);
+  context.subscriptions.push(deleteWebDAVFileDisposable);
+  context.subscriptions.push(refreshWebDAVDisposable);
+  context.subscriptions.push(deployMetadataDisposable);
+  context.subscriptions.push(exportArchiveDisposable);
+  context.subscriptions.push(runExportPresetDisposable);
+  context.subscriptions.push(openExportPresetsDisposable);
+  context.subscriptions.push(diffMetadataDisposable);
+  context.subscriptions.push(openLocalFileDisposable);
+  context.subscriptions.push(closeLocalFileDisposable);
+  context.subscriptions.push(setCredentialDisposable);
+  context.subscriptions.push(rotateCredentialDisposable);
+  context.subscriptions.push(clearCredentialsDisposable);
   context.subscriptions.push(getFullXMLDisposable);
   context.subscriptions.push(deleteGroupDisposable);
   context.subscriptions.push(setSitePreferenceValue);
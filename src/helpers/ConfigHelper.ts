@@ -1,87 +1,368 @@
 import { IDWConfig } from '../services/IDWConfig';
-import { WorkspaceFolder, RelativePattern, workspace, window, Uri } from 'vscode';
+import {
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  Memento,
+  QuickPickItem,
+  RelativePattern,
+  Uri,
+  window,
+  workspace,
+  WorkspaceConfiguration,
+  WorkspaceFolder
+} from 'vscode';
 import { createReadStream } from 'fs';
 
+/**
+ * @interface IProfileQuickPickItem - A quick pick item for selecting one of the
+ *    connection profiles.
+ */
+interface IProfileQuickPickItem extends QuickPickItem {
+  profile: IDWConfig;
+}
+
 /**
  * @class
- * @classdesc - A class for getting the configuration settings from dw.json.
+ * @classdesc - A class for getting the connection profiles from dw.json files
+ *    & the VSCode settings, and for keeping track of the active profile.
  */
 export default class ConfigHelper {
-  private dwConfig: IDWConfig = {
-    hostname: '',
-    ok: false,
-    password: '',
-    username: ''
-  };
+  /** The workspace state key used to store the name of the active profile. */
+  public static readonly ACTIVE_PROFILE_KEY: string =
+    'sfccmetadata.activeProfile';
+
+  /** The active profile, this is shared by all of the helper instances. */
+  public static activeProfile: IDWConfig = null;
+
+  private static profileEmitter: EventEmitter<IDWConfig> =
+    new EventEmitter<IDWConfig>();
+  private static profiles: IDWConfig[] = null;
+  private static state: Memento = null;
+
+  /** An event that is fired when the active profile is changed. */
+  public static readonly onDidChangeProfile: Event<IDWConfig> =
+    ConfigHelper.profileEmitter.event;
+
+  /**
+   * Sets up the persistance of the active profile, and watches the dw.json
+   * files & the VSCode settings so that the profiles are re-read on changes.
+   *
+   * @param {ExtensionContext} context - The extension context instance.
+   */
+  public static initialize(context: ExtensionContext) {
+    const dwConfigWatcher = workspace.createFileSystemWatcher('**/dw.json');
+    const resetProfiles = () => {
+      ConfigHelper.profiles = null;
+    };
+
+    ConfigHelper.state = context.workspaceState;
+
+    context.subscriptions.push(
+      dwConfigWatcher,
+      dwConfigWatcher.onDidChange(resetProfiles),
+      dwConfigWatcher.onDidCreate(resetProfiles),
+      dwConfigWatcher.onDidDelete(resetProfiles),
+      workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('extension.sfccmetadata.profiles')) {
+          resetProfiles();
+        }
+      })
+    );
+  }
+
+  /**
+   * Gets the name of the active profile without prompting the user to select
+   * a profile.
+   *
+   * @return {string} - Returns the name of the active profile, or an empty
+   *    string if no profile has been activated yet.
+   */
+  public static getActiveProfileName(): string {
+    if (ConfigHelper.activeProfile) {
+      return ConfigHelper.activeProfile.name;
+    }
+
+    return ConfigHelper.state ?
+      ConfigHelper.state.get(ConfigHelper.ACTIVE_PROFILE_KEY, '') : '';
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
 
   /**
-   * Gets the sandbox connection configuration from a dw.json configuration file
-   * in one of the workspace folders.
+   * Gets the sandbox connection configuration of the active connection
+   * profile. If no profile has been activated, then the profile marked as
+   * active in dw.json is used. If there is more than one profile and none are
+   * marked as active, then the user is prompted to select a profile.
    *
-   * @private
    * @return {IDWConfig} - Returns a Promise that resolves to a an
    *    object literal that conforms to the IDWConfig interface definition.
-   * @author github: sqrtt
-   *    This is a helper function that was borrowed from the Prophet debugger
-   *    extension for debugging and development of SFCC code.
    */
   public async getDWConfig(): Promise<IDWConfig> {
+    // Setup the default response.
+    const result: IDWConfig = {
+      hostname: '',
+      ok: false,
+      password: '',
+      username: ''
+    };
+
     // Check if the configuration has already been loaded.
-    if (
-      this.dwConfig.hostname &&
-      this.dwConfig.username &&
-      this.dwConfig.password &&
-      this.dwConfig.ok
-    ) {
-      return await Promise.resolve(this.dwConfig);
-    } else {
-      // Setup the default response.
-      let result: IDWConfig = {
-        hostname: '',
-        ok: false,
-        password: '',
-        username: ''
-      };
+    if (ConfigHelper.activeProfile && ConfigHelper.activeProfile.ok) {
+      return ConfigHelper.activeProfile;
+    }
+
+    const profiles = await this.getProfiles();
+    const activeName = ConfigHelper.getActiveProfileName();
+    let profile = profiles.find(p => p.name === activeName);
+
+    if (!profile && profiles.length === 1) {
+      profile = profiles[0];
+    } else if (!profile && profiles.length > 1) {
+      profile = profiles.find(p => p.active === true) ||
+        await this.showProfileQuickPick(profiles);
+    }
+
+    if (profile) {
+      this.setActiveProfile(profile);
+      return profile;
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets all of the connection profiles that are configured in the VSCode
+   * settings, and in the dw.json files of the workspace folders. Each entry of
+   * the `configs` array of a dw.json file is read as a separate profile.
+   *
+   * @return {Promise<IDWConfig[]>} - Returns a promise that resolves to the
+   *    array of configured profiles.
+   */
+  public async getProfiles(): Promise<IDWConfig[]> {
+    if (ConfigHelper.profiles) {
+      return ConfigHelper.profiles;
+    }
+
+    const profiles: IDWConfig[] = [];
+    const workspaceConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      'extension.sfccmetadata'
+    );
+    const settingsProfiles: any[] = workspaceConfig.get('profiles') || [];
+
+    // Add the profiles configured in the VSCode settings.
+    settingsProfiles.forEach(settingsProfile => {
+      this.addProfile(profiles, {
+        clientId: settingsProfile.clientId,
+        clientPassword: settingsProfile.clientPassword,
+        hostname: settingsProfile.hostname || '',
+        name: settingsProfile.name,
+        ocapiVersion: settingsProfile.ocapiVersion,
+        ok: !!settingsProfile.hostname,
+        password: settingsProfile.password || '',
+        username: settingsProfile.username || ''
+      });
+    });
+
+    // Add the profiles from the dw.json files.
+    const configFiles = await this.findConfigFiles();
+    for (const configFile of configFiles) {
+      try {
+        const conf = await this.readConfigFromFile(configFile.fsPath);
+        this.getProfilesFromDWConfig(conf).forEach(fileProfile => {
+          this.addProfile(profiles, fileProfile);
+        });
+      } catch (e) {
+        window.showErrorMessage('Unable to read connection profile from: ' +
+          configFile.fsPath);
+        console.error(e);
+      }
+    }
+
+    ConfigHelper.profiles = profiles;
+    return profiles;
+  }
+
+  /**
+   * Makes the specified profile the active profile, and notifies any
+   * listeners of the change.
+   *
+   * @param {IDWConfig} profile - The profile to activate.
+   */
+  public setActiveProfile(profile: IDWConfig) {
+    const isChanged = !ConfigHelper.activeProfile ||
+      ConfigHelper.activeProfile.name !== profile.name;
+
+    ConfigHelper.activeProfile = profile;
 
-      // Check all of the folders in the current workspace for the existance of
-      // one or more dw.json files.
-      const workspaceFolders: WorkspaceFolder[] =
-        workspace.workspaceFolders || [];
-      const dwConfigFiles = await Promise.all(
-        workspaceFolders.map(wf =>
-          workspace.findFiles(
-            new RelativePattern(wf, '**/dw.json'),
-            new RelativePattern(
-              wf,
-              '{node_modules,.git,RemoteSystemsTempFiles}'
-            )
+    if (ConfigHelper.state) {
+      ConfigHelper.state.update(ConfigHelper.ACTIVE_PROFILE_KEY, profile.name);
+    }
+
+    if (isChanged) {
+      ConfigHelper.profileEmitter.fire(profile);
+    }
+  }
+
+  /**
+   * Prompts the user to select one of the configured profiles, and makes the
+   * selection the active profile.
+   *
+   * @return {Promise<IDWConfig>} - Returns a promise that resolves to the
+   *    selected profile, or undefined if the user cancelled the selection.
+   */
+  public async switchProfile(): Promise<IDWConfig> {
+    const profile = await this.pickProfile();
+
+    if (profile) {
+      this.setActiveProfile(profile);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Prompts the user to select one of the configured profiles. The profiles
+   * are re-read in case the files or settings have been changed.
+   *
+   * @param {string} [placeHolder] - The placeholder text of the quick pick.
+   * @return {Promise<IDWConfig>} - Returns a promise that resolves to the
+   *    selected profile, or undefined if the user cancelled the selection.
+   */
+  public async pickProfile(
+    placeHolder: string = 'Select connection profile'
+  ): Promise<IDWConfig> {
+    ConfigHelper.profiles = null;
+    const profiles = await this.getProfiles();
+
+    if (!profiles.length) {
+      window.showWarningMessage('No SFCC connection profiles found. Add a ' +
+        'dw.json file or configure extension.sfccmetadata.profiles.');
+      return;
+    }
+
+    return this.showProfileQuickPick(profiles, placeHolder);
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Adds a profile to the list of profiles if it is valid and there isn't
+   * already a profile with the same name.
+   *
+   * @param {IDWConfig[]} profiles - The list of profiles.
+   * @param {IDWConfig} profile - The profile to add.
+   */
+  private addProfile(profiles: IDWConfig[], profile: IDWConfig) {
+    profile.name = profile.name || profile.hostname;
+
+    if (profile.ok && !profiles.some(p => p.name === profile.name)) {
+      profiles.push(profile);
+    }
+  }
+
+  /**
+   * Finds the dw.json files in each of the folders of the workspace.
+   *
+   * @return {Promise<Uri[]>} - Returns a promise that resolves to the Uris of
+   *    the dw.json files.
+   * @author github: sqrtt
+   *    This is a helper function that was borrowed from the Prophet debugger
+   *    extension for debugging and development of SFCC code.
+   */
+  private async findConfigFiles(): Promise<Uri[]> {
+    // Check all of the folders in the current workspace for the existance of
+    // one or more dw.json files.
+    const workspaceFolders: WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    const dwConfigFiles = await Promise.all(
+      workspaceFolders.map(wf =>
+        workspace.findFiles(
+          new RelativePattern(wf, '**/dw.json'),
+          new RelativePattern(
+            wf,
+            '{node_modules,.git,RemoteSystemsTempFiles}'
           )
         )
-      );
+      )
+    );
 
-      let configFiles: Uri[] = [];
-      dwConfigFiles.forEach(uriSubArray => {
-        configFiles = configFiles.concat(uriSubArray);
-      });
+    let configFiles: Uri[] = [];
+    dwConfigFiles.forEach(uriSubArray => {
+      configFiles = configFiles.concat(uriSubArray);
+    });
 
-      // Get rid of any paths that return undefined or null when evaluated.
-      configFiles = configFiles.filter(Boolean);
+    // Get rid of any paths that return undefined or null when evaluated.
+    return configFiles.filter(uri => uri && uri.fsPath);
+  }
 
-      // 1 dw.json file found
-      if (configFiles.length === 1 && configFiles[0].fsPath) {
-        result = await this.readConfigFromFile(configFiles[0].fsPath);
+  /**
+   * Gets the connection profiles from the contents of a dw.json file. The
+   * root configuration is a profile, and each entry of the `configs` array is
+   * an additional profile that uses the root credentials as defaults.
+   *
+   * @param {Object} conf - The parsed contents of a dw.json file.
+   * @return {IDWConfig[]} - Returns the profiles defined in the file.
+   */
+  private getProfilesFromDWConfig(conf: any): IDWConfig[] {
+    const getProfile = (profileConf: any, defaults: any): IDWConfig => {
+      return {
+        active: profileConf.active === true,
+        clientId: profileConf['client-id'] || defaults['client-id'],
+        clientPassword: profileConf['client-secret'] ||
+          defaults['client-secret'],
+        configFilename: conf.configFilename,
+        hostname: profileConf.hostname || '',
+        name: profileConf.name,
+        ocapiVersion: profileConf['ocapi-version'] || defaults['ocapi-version'],
+        ok: !!profileConf.hostname,
+        password: profileConf.password || defaults.password || '',
+        username: profileConf.username || defaults.username || ''
+      };
+    };
 
-        // > 1 dw.json file found
-      } else if (configFiles.length > 1) {
-        const dwConfig = await window.showQuickPick(
-          configFiles.map(config => config.fsPath),
-          { placeHolder: 'Select configuration' }
-        );
-        result = await this.readConfigFromFile(dwConfig);
-      }
+    const profiles = [getProfile(conf, {})];
 
-      return result;
+    if (Array.isArray(conf.configs)) {
+      conf.configs.forEach(profileConf => {
+        profiles.push(getProfile(profileConf, conf));
+      });
     }
+
+    return profiles;
+  }
+
+  /**
+   * Shows a quick pick with the connection profiles for the user to select.
+   *
+   * @param {IDWConfig[]} profiles - The profiles to select from.
+   * @param {string} [placeHolder] - The placeholder text of the quick pick.
+   * @return {Promise<IDWConfig>} - Returns a promise that resolves to the
+   *    selected profile, or undefined if the selection was cancelled.
+   */
+  private async showProfileQuickPick(
+    profiles: IDWConfig[],
+    placeHolder: string = 'Select connection profile'
+  ): Promise<IDWConfig> {
+    const activeName = ConfigHelper.getActiveProfileName();
+    const items: IProfileQuickPickItem[] = profiles.map(profile => {
+      return {
+        description: profile.hostname,
+        detail: profile.configFilename || 'VSCode settings',
+        label: (profile.name === activeName ? '$(check) ' : '') + profile.name,
+        profile
+      };
+    });
+
+    const selected = await window.showQuickPick(items, {
+      placeHolder
+    });
+
+    return selected ? selected.profile : undefined;
   }
 
   /**
@@ -0,0 +1,192 @@
+import { QuickPickItem, window } from 'vscode';
+import CredentialProvider from '../authorization/CredentialProvider';
+import { IDWConfig } from '../services/IDWConfig';
+import { OCAPIService } from '../services/OCAPIService';
+import ConfigHelper from './ConfigHelper';
+
+/**
+ * @interface ISecretQuickPickItem - A quick pick item for selecting the type
+ *    of secret to store for a connection profile.
+ */
+interface ISecretQuickPickItem extends QuickPickItem {
+  secretType: string;
+}
+
+/**
+ * @class
+ * @classdesc - A helper class for handling the commands that set, rotate, and
+ *    clear the secrets of the connection profiles.
+ */
+export default class CredentialsHelper {
+  private configHelper: ConfigHelper = new ConfigHelper();
+  private credentialProvider: CredentialProvider = new CredentialProvider();
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for a profile, a secret type, and the secret value, and
+   * then stores the value in the secret storage.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    a secret was stored.
+   */
+  public async setCredential(): Promise<boolean> {
+    const profile = await this.getProfile('Select profile to set credentials for');
+    if (!profile) {
+      return false;
+    }
+
+    const secretType = await this.getSecretType();
+    if (!secretType) {
+      return false;
+    }
+
+    return this.storeSecret(profile, secretType);
+  }
+
+  /**
+   * Replaces a secret that is already stored for a profile. Any cached tokens
+   * are discarded so that the new secret is used for the following calls.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the secret was replaced.
+   */
+  public async rotateCredential(): Promise<boolean> {
+    const profile = await this.getProfile('Select profile to rotate credentials for');
+    if (!profile) {
+      return false;
+    }
+
+    const secretType = await this.getSecretType();
+    if (!secretType) {
+      return false;
+    }
+
+    const currentValue = await this.credentialProvider.getSecret(
+      profile, secretType);
+    if (!currentValue) {
+      window.showWarningMessage('No ' +
+        CredentialProvider.SECRET_TYPES[secretType] +
+        ' is stored for profile: ' + profile.name);
+      return false;
+    }
+
+    return this.storeSecret(profile, secretType);
+  }
+
+  /**
+   * Removes all of the stored secrets of a profile after the user confirms.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the secrets were removed.
+   */
+  public async clearCredentials(): Promise<boolean> {
+    const profile = await this.getProfile('Select profile to clear credentials for');
+    if (!profile || !this.checkSecretStorage()) {
+      return false;
+    }
+
+    const answer = await window.showWarningMessage(
+      'Remove the stored credentials for profile: ' + profile.name + '?',
+      { modal: true },
+      'Remove'
+    );
+
+    if (answer !== 'Remove') {
+      return false;
+    }
+
+    await this.credentialProvider.clearSecrets(profile);
+    OCAPIService.clearTokenCache();
+
+    return true;
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Shows an error if the running version of VSCode has no secret storage.
+   *
+   * @return {boolean} - Returns true if the secret storage is available.
+   */
+  private checkSecretStorage(): boolean {
+    if (!CredentialProvider.isSecretStorageAvailable()) {
+      window.showErrorMessage('Secret storage is not supported by this ' +
+        'version of VSCode.');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Prompts the user to select a connection profile.
+   *
+   * @param {string} placeHolder - The placeholder text of the quick pick.
+   * @return {Promise<IDWConfig>} - Returns a promise that resolves to the
+   *    selected profile, or undefined if the selection was cancelled.
+   */
+  private getProfile(placeHolder: string): Promise<IDWConfig> {
+    return this.configHelper.pickProfile(placeHolder);
+  }
+
+  /**
+   * Prompts the user to select the type of secret.
+   *
+   * @return {Promise<string>} - Returns a promise that resolves to the
+   *    selected secret type, or undefined if the selection was cancelled.
+   */
+  private async getSecretType(): Promise<string> {
+    const items: ISecretQuickPickItem[] = Object.keys(
+      CredentialProvider.SECRET_TYPES
+    ).map(secretType => {
+      return {
+        label: CredentialProvider.SECRET_TYPES[secretType],
+        secretType
+      };
+    });
+
+    const selected = await window.showQuickPick(items, {
+      placeHolder: 'Select credential'
+    });
+
+    return selected ? selected.secretType : undefined;
+  }
+
+  /**
+   * Prompts the user for the value of a secret and stores it.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @param {string} secretType - The type of secret to store.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the secret was stored.
+   */
+  private async storeSecret(
+    profile: IDWConfig,
+    secretType: string
+  ): Promise<boolean> {
+    if (!this.checkSecretStorage()) {
+      return false;
+    }
+
+    const value = await window.showInputBox({
+      ignoreFocusOut: true,
+      password: true,
+      prompt: 'Enter the ' + CredentialProvider.SECRET_TYPES[secretType] +
+        ' for profile: ' + profile.name
+    });
+
+    if (!value) {
+      return false;
+    }
+
+    await this.credentialProvider.setSecret(profile, secretType, value);
+    OCAPIService.clearTokenCache();
+
+    return true;
+  }
+}
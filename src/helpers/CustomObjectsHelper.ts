@@ -0,0 +1,565 @@
+import { Memento, window } from 'vscode';
+import { MetadataNode } from '../components/MetadataNode';
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import { ICustomTypeDefinition } from '../interfaces/ICustomTypeDefinition';
+import { OCAPIService } from '../services/OCAPIService';
+import XMLHandler from '../xmlHandler/XMLHandler';
+import ImportHelper from './ImportHelper';
+import OCAPIHelper from './OCAPIHelper';
+
+/**
+ * @class
+ * @classdesc - A helper class for managing custom object type definitions &
+ *    custom objects. OCAPI only has read access to the custom object types,
+ *    so the types are created, changed & deleted by importing metadata XML
+ *    with the site import job. OCAPI also has no call for listing the IDs of
+ *    the custom types, so the IDs of the types shown in the explorer are kept
+ *    in the workspace state. The custom objects are managed with OCAPI.
+ */
+export default class CustomObjectsHelper {
+  /** The workspace state key of the IDs of the custom types in the view. */
+  public static readonly TYPES_KEY: string = 'extension.sfccmetadata.customTypes';
+
+  /** The command that adds an existing custom object type to the view. */
+  public static readonly ADD_TYPE_COMMAND: string =
+    'extension.sfccexplorer.customobject.addtype';
+
+  /** The command that opens a custom object in the editor. */
+  public static readonly OPEN_OBJECT_COMMAND: string =
+    'extension.sfccexplorer.customobject.openobject';
+
+  /** The command that adds the next page of custom objects to the view. */
+  public static readonly LOAD_OBJECTS_COMMAND: string =
+    'extension.sfccexplorer.customobject.loadobjects';
+
+  /** The storage scopes of custom object types. */
+  public static readonly STORAGE_SCOPES: string[] = ['site', 'organization'];
+
+  /** The types of the key attribute of custom object types. */
+  public static readonly KEY_TYPES: string[] = ['string', 'int'];
+
+  /** The number of custom objects that are added to the view at a time. */
+  public static readonly OBJECTS_PAGE_SIZE: number = 50;
+
+  /** The fields of a custom object document that are set by the server. */
+  public static readonly READ_ONLY_FIELDS: string[] = [
+    '_resource_state',
+    '_type',
+    '_v',
+    'creation_date',
+    'key_property',
+    'key_value_int',
+    'key_value_string',
+    'last_modified',
+    'link',
+    'object_type'
+  ];
+
+  private importHelper = new ImportHelper();
+  private service = new OCAPIService();
+  private state: Memento;
+  private xmlHandler = new XMLHandler();
+
+  /**
+   * Checks if an ID can be used for a custom object type or attribute.
+   *
+   * @param {string} id - The entered ID.
+   * @return {string} - Returns the validation message, or an empty string if
+   *    the ID is valid.
+   */
+  public static validateId(id: string): string {
+    return /^[A-Za-z][\w.-]*$/.test(id.trim()) ? '' :
+      'The ID must start with a letter, and can only contain letters, ' +
+      'digits, _, . & -';
+  }
+
+  /**
+   * Gets the key of a custom object from its document.
+   *
+   * @param {Object} objectDoc - The custom object document.
+   * @return {string} - Returns the key value of the object.
+   */
+  public static getObjectKey(objectDoc: any): string {
+    return String(typeof objectDoc.key_value_string !== 'undefined' ?
+      objectDoc.key_value_string : objectDoc.key_value_int);
+  }
+
+  /**
+   * Gets the document for updating a custom object from the edited document.
+   * The fields that are set by the server are left out, and the attributes
+   * that were removed from the edited document are set to null so that their
+   * values are removed.
+   *
+   * @param {Object} objectDoc - The edited custom object document.
+   * @param {Object} [previousDoc] - The document of the object before it was
+   *    edited.
+   * @return {Object} - Returns the document for the PATCH call.
+   */
+  public static getUpdateDocument(objectDoc: any, previousDoc?: any): any {
+    const updateDoc = {};
+    const isEditable = (field: string) =>
+      CustomObjectsHelper.READ_ONLY_FIELDS.indexOf(field) === -1;
+
+    Object.keys(previousDoc || {}).filter(isEditable).forEach(field => {
+      updateDoc[field] = null;
+    });
+
+    Object.keys(objectDoc).filter(isEditable).forEach(field => {
+      updateDoc[field] = objectDoc[field];
+    });
+
+    return updateDoc;
+  }
+
+  /**
+   * @constructor
+   * @param {Memento} state - The workspace state that the IDs of the custom
+   *    types in the view are stored in.
+   */
+  constructor(state: Memento) {
+    this.state = state;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the IDs of the custom object types that are shown in the view.
+   *
+   * @return {string[]} - Returns the sorted type IDs.
+   */
+  public getTypeIds(): string[] {
+    return this.state.get<string[]>(CustomObjectsHelper.TYPES_KEY, [])
+      .slice().sort();
+  }
+
+  /**
+   * Prompts the user for the ID of an existing custom object type, and adds
+   * the type to the view after checking that it exists on the instance.
+   *
+   * @param {string} [suggestedId] - The ID to show in the input box.
+   * @return {Promise<string>} - Returns a promise that resolves to the type
+   *    ID, or to undefined if the user cancelled.
+   */
+  public async addExistingType(suggestedId?: string): Promise<string> {
+    const typeId = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the ID of the custom object type to show',
+      validateInput: CustomObjectsHelper.validateId,
+      value: suggestedId || ''
+    });
+
+    if (!typeId) {
+      return undefined;
+    }
+
+    const callSetup = await this.service.getCallSetup(
+      MetadataNode.ROOT_NODES.custObjDefs,
+      'getAttributes',
+      { count: 1, objectType: typeId.trim() }
+    );
+
+    await OCAPIService.rejectOnError(await this.service.makeCall(callSetup));
+    await this.addTypeId(typeId.trim());
+
+    return typeId.trim();
+  }
+
+  /**
+   * Prompts the user for the settings of a new custom object type, and then
+   * creates the type on the sandbox with the site import job.
+   *
+   * @return {Promise<string>} - Returns a promise that resolves to the ID of
+   *    the created type, or to undefined if the user cancelled.
+   */
+  public async createType(): Promise<string> {
+    const typeId = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the ID of the new custom object type',
+      validateInput: CustomObjectsHelper.validateId
+    });
+
+    if (!typeId) {
+      return undefined;
+    }
+
+    const displayName = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the display name of the type',
+      value: typeId.trim()
+    });
+
+    if (typeof displayName === 'undefined') {
+      return undefined;
+    }
+
+    const keyAttributeId = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the ID of the key attribute',
+      validateInput: CustomObjectsHelper.validateId,
+      value: 'ID'
+    });
+
+    if (!keyAttributeId) {
+      return undefined;
+    }
+
+    const keyType = await window.showQuickPick(CustomObjectsHelper.KEY_TYPES,
+      { ignoreFocusOut: true, placeHolder: 'Select the type of the key' });
+
+    if (!keyType) {
+      return undefined;
+    }
+
+    const storageScope = await window.showQuickPick(
+      CustomObjectsHelper.STORAGE_SCOPES,
+      { ignoreFocusOut: true, placeHolder: 'Select the storage scope' }
+    );
+
+    if (!storageScope) {
+      return undefined;
+    }
+
+    const retentionDays = await window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder: 'Keep objects until they are deleted',
+      prompt: 'Enter the number of days to keep the objects (Optional)',
+      validateInput: value => !value.trim() || /^[1-9]\d*$/.test(value.trim()) ?
+        '' : 'Enter a whole number of days'
+    });
+
+    if (typeof retentionDays === 'undefined') {
+      return undefined;
+    }
+
+    const customType: ICustomTypeDefinition = {
+      displayName,
+      keyAttributeId: keyAttributeId.trim(),
+      keyType,
+      retentionDays: retentionDays.trim() ?
+        parseInt(retentionDays, 10) : undefined,
+      storageScope,
+      typeId: typeId.trim()
+    };
+
+    await this.importHelper.importMetadataXML(XMLHandler.CUSTOM_TYPES_FILE,
+      this.xmlHandler.getCustomTypeXML(customType));
+    await this.addTypeId(customType.typeId);
+
+    return customType.typeId;
+  }
+
+  /**
+   * Prompts the user for the settings of an attribute definition of a custom
+   * object type, and then saves the attribute with the site import job. For a
+   * new attribute the ID & the value type are also entered.
+   *
+   * @param {MetadataNode} node - The custom type node to add an attribute to,
+   *    or the attribute node to edit.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the attribute was saved, or to false if the user cancelled.
+   */
+  public async saveAttribute(node: MetadataNode): Promise<boolean> {
+    const isNew = !node.objectAttributeDefinition;
+    const typeId = isNew ? node.objectTypeDefinition.objectType :
+      node.parentId.split('.').pop();
+    const attribute = isNew ? new ObjectAttributeDefinition({}) :
+      node.objectAttributeDefinition;
+
+    if (isNew) {
+      const attributeId = await window.showInputBox({
+        ignoreFocusOut: true,
+        prompt: 'Enter the ID of the attribute',
+        validateInput: CustomObjectsHelper.validateId
+      });
+
+      if (!attributeId) {
+        return false;
+      }
+
+      const valueType = await window.showQuickPick(OCAPIHelper.ATTRIBUTE_TYPES,
+        { ignoreFocusOut: true, placeHolder: 'Select the type of the attribute' });
+
+      if (!valueType) {
+        return false;
+      }
+
+      attribute.id = attributeId.trim();
+      attribute.valueType = OCAPIHelper.ATTRIBUTE_MAP[valueType.toLowerCase()] ||
+        valueType.toLowerCase();
+    }
+
+    const displayName = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the display name of the attribute',
+      value: attribute.displayName.default || attribute.id
+    });
+
+    if (typeof displayName === 'undefined') {
+      return false;
+    }
+
+    const description = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the description of the attribute (Optional)',
+      value: attribute.description.default
+    });
+
+    if (typeof description === 'undefined') {
+      return false;
+    }
+
+    const mandatory = await window.showQuickPick(['No', 'Yes'], {
+      ignoreFocusOut: true,
+      placeHolder: 'Is the attribute mandatory? (currently: ' +
+        (attribute.mandatory ? 'Yes' : 'No') + ')'
+    });
+
+    if (!mandatory) {
+      return false;
+    }
+
+    attribute.displayName = { default: displayName };
+    attribute.description = { default: description };
+    attribute.mandatory = mandatory === 'Yes';
+
+    await this.importHelper.importMetadataXML(XMLHandler.CUSTOM_TYPES_FILE,
+      this.xmlHandler.getCustomAttributeXML(typeId, attribute));
+
+    return true;
+  }
+
+  /**
+   * Deletes a custom object type, and all of its objects, from the sandbox
+   * after the user confirms.
+   *
+   * @param {MetadataNode} node - The node of the custom type.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the type was deleted, or to false if the user cancelled.
+   */
+  public async deleteType(node: MetadataNode): Promise<boolean> {
+    const typeId = node.objectTypeDefinition.objectType;
+    const answer = await window.showWarningMessage(
+      'Delete the custom object type "' + typeId + '"? All custom objects ' +
+      'of the type are deleted with it.',
+      { modal: true },
+      'Delete'
+    );
+
+    if (answer !== 'Delete') {
+      return false;
+    }
+
+    await this.importHelper.importMetadataXML(XMLHandler.CUSTOM_TYPES_FILE,
+      this.xmlHandler.getDeleteCustomTypeXML(typeId));
+    await this.removeTypeId(typeId);
+
+    return true;
+  }
+
+  /**
+   * Removes a custom object type from the view without changing the type on
+   * the instance.
+   *
+   * @param {MetadataNode} node - The node of the custom type.
+   * @return {Promise<void>} - Returns a promise that resolves when the type
+   *    has been removed from the workspace state.
+   */
+  public removeType(node: MetadataNode): Promise<void> {
+    return this.removeTypeId(node.objectTypeDefinition.objectType);
+  }
+
+  /**
+   * Searches for the custom objects of a type. The objects are requested a
+   * page at a time until the limit, or all of the objects, have been
+   * retrieved.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @param {number} limit - The maximum number of objects to get.
+   * @return {Promise<{objects: Object[], total: number}>} - Returns a promise
+   *    that resolves to the custom object documents & the total number of
+   *    objects of the type.
+   */
+  public async searchObjects(
+    typeId: string,
+    limit: number
+  ): Promise<{ objects: any[], total: number }> {
+    let objects: any[] = [];
+    let total = 0;
+
+    do {
+      const callSetup = await this.service.getCallSetup(
+        'customObjects',
+        'search',
+        {
+          body: JSON.stringify({
+            count: Math.min(OCAPIService.MAX_PAGE_SIZE, limit - objects.length),
+            query: { match_all_query: {} },
+            select: '(**)',
+            start: objects.length
+          }),
+          objectType: typeId
+        }
+      );
+
+      const result = await OCAPIService.rejectOnError(
+        await this.service.makeCall(callSetup));
+      const hits: any[] = result.hits || [];
+
+      total = result.total || 0;
+      objects = objects.concat(hits);
+
+      if (!hits.length) {
+        break;
+      }
+    } while (objects.length < Math.min(limit, total));
+
+    return { objects, total };
+  }
+
+  /**
+   * Gets the document of a custom object.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @param {string} key - The key of the custom object.
+   * @return {Promise<Object>} - Returns a promise that resolves to the custom
+   *    object document.
+   */
+  public getObject(typeId: string, key: string): Promise<any> {
+    return this.callObject('get', typeId, key);
+  }
+
+  /**
+   * Prompts the user for the key of a new custom object, and then creates the
+   * object without any attribute values.
+   *
+   * @param {MetadataNode} node - The Instances node of the custom type.
+   * @return {Promise<string>} - Returns a promise that resolves to the key of
+   *    the created object, or to undefined if the user cancelled.
+   */
+  public async createObject(node: MetadataNode): Promise<string> {
+    const typeId = node.parentId.split('.').pop();
+    const key = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the key of the new ' + typeId + ' custom object',
+      validateInput: value => value.trim() ? '' : 'Enter a key'
+    });
+
+    if (!key) {
+      return undefined;
+    }
+
+    await this.callObject('create', typeId, key.trim(), {});
+
+    return key.trim();
+  }
+
+  /**
+   * Updates the attribute values of a custom object.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @param {string} key - The key of the custom object.
+   * @param {Object} objectDoc - The edited custom object document.
+   * @param {Object} [previousDoc] - The document of the object before it was
+   *    edited.
+   * @return {Promise<Object>} - Returns a promise that resolves to the
+   *    updated custom object document.
+   */
+  public updateObject(
+    typeId: string,
+    key: string,
+    objectDoc: any,
+    previousDoc?: any
+  ): Promise<any> {
+    return this.callObject('update', typeId, key,
+      CustomObjectsHelper.getUpdateDocument(objectDoc, previousDoc));
+  }
+
+  /**
+   * Deletes a custom object from the sandbox after the user confirms.
+   *
+   * @param {MetadataNode} node - The node of the custom object.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the object was deleted, or to false if the user cancelled.
+   */
+  public async deleteObject(node: MetadataNode): Promise<boolean> {
+    const typeId = node.parentId.split('.').pop();
+    const key = String(node.value);
+    const answer = await window.showWarningMessage(
+      'Delete the ' + typeId + ' custom object "' + key + '"?',
+      { modal: true },
+      'Delete'
+    );
+
+    if (answer !== 'Delete') {
+      return false;
+    }
+
+    await this.callObject('delete', typeId, key);
+
+    return true;
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Adds the ID of a custom object type to the types shown in the view.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @return {Promise<void>} - Returns a promise that resolves when the ID
+   *    has been stored.
+   */
+  private async addTypeId(typeId: string): Promise<void> {
+    const typeIds = this.getTypeIds().filter(id => id !== typeId);
+
+    typeIds.push(typeId);
+    await this.state.update(CustomObjectsHelper.TYPES_KEY, typeIds);
+  }
+
+  /**
+   * Makes a call for a single custom object.
+   *
+   * @param {string} callName - The name of the call of the customObjects
+   *    resource.
+   * @param {string} typeId - The ID of the custom type.
+   * @param {string} key - The key of the custom object.
+   * @param {Object} [body] - The document to send with the call.
+   * @return {Promise<Object>} - Returns a promise that resolves to the result
+   *    of the call, or rejects with the error message of the call.
+   */
+  private async callObject(
+    callName: string,
+    typeId: string,
+    key: string,
+    body?: any
+  ): Promise<any> {
+    const callData: any = {
+      key: encodeURIComponent(key),
+      objectType: typeId
+    };
+
+    if (body) {
+      callData.body = JSON.stringify(body);
+    }
+
+    const callSetup = await this.service.getCallSetup('customObjects',
+      callName, callData);
+
+    return OCAPIService.rejectOnError(await this.service.makeCall(callSetup));
+  }
+
+  /**
+   * Removes the ID of a custom object type from the types shown in the view.
+   *
+   * @param {string} typeId - The ID of the custom type.
+   * @return {Promise<void>} - Returns a promise that resolves when the ID
+   *    has been removed.
+   */
+  private async removeTypeId(typeId: string): Promise<void> {
+    await this.state.update(CustomObjectsHelper.TYPES_KEY,
+      this.getTypeIds().filter(id => id !== typeId));
+  }
+}
@@ -1,7 +1,42 @@
-import { window } from 'vscode';
+import * as AdmZip from 'adm-zip';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  commands,
+  OutputChannel,
+  ProgressLocation,
+  QuickPickItem,
+  window,
+  workspace
+} from 'vscode';
+import { getExportOptions } from '../apiConfig';
+import ExportSitesConfiguration from '../documents/ExportSitesConfiguration';
+import JobExecution from '../documents/JobExecution';
 import SiteArchiveExportConfiguration from '../documents/SiteArchiveExportConfiguration';
-import { ICallSetup } from '../services/ICallSetup';
-import { OCAPIService } from '../services/OCAPIService';
+import JobRunner from '../services/JobRunner';
+import WebDAVService from '../services/WebDAVService';
+import XMLFormatter from '../xmlHandler/XMLFormatter';
+import SitesHelper from './SitesHelper';
+
+/**
+ * @interface IExportOptions - The settings for extracting exported archives.
+ */
+export interface IExportOptions {
+  deleteRemoteArchive: boolean;
+  folder: string;
+  prettyPrint: boolean;
+}
+
+/**
+ * @interface IDataUnitItem - A quick pick item for selecting a data unit of
+ *    the export.
+ */
+interface IDataUnitItem extends QuickPickItem {
+  isGlobal: boolean;
+  unit: string;
+}
 
 /**
  * @class
@@ -9,73 +44,498 @@ import { OCAPIService } from '../services/OCAPIService';
  *     system export jobs, and retreiving the export files.
  */
 export default class ExportHelper {
-  private ocapiService = new OCAPIService();
+  /** The WebDAV folder that the export job writes archives to. */
+  public static readonly IMPEX_PATH: string = 'Impex/src/instance/';
+
+  /** The prefix of the names of the archives exported with the wizard. */
+  public static readonly ARCHIVE_PREFIX: string = 'sfccMetaExplorerExport';
+
+  /** The data units that are exported per id, with their display names. */
+  public static readonly ID_DATA_UNITS = {
+    catalogs: 'Catalogs',
+    inventoryLists: 'Inventory Lists',
+    libraries: 'Libraries',
+    priceBooks: 'Price Books',
+    sites: 'Sites'
+  };
+
+  /** The words of the OCAPI data unit names that are shown in upper case. */
+  public static readonly ACRONYMS: string[] = [
+    'ab', 'cdn', 'csc', 'csrf', 'oauth', 'ocapi', 'url', 'webdav'
+  ];
+
+  /** The labels of the git status codes shown in the export summary. */
+  public static readonly GIT_STATUS_LABELS = {
+    '??': 'added',
+    'A': 'added',
+    'D': 'deleted',
+    'M': 'modified'
+  };
+
+  private static outputChannel: OutputChannel = null;
+
+  private jobRunner = new JobRunner();
+  private sitesHelper = new SitesHelper();
+  private webDAVService = new WebDAVService();
 
   /**
-   * Gets the JobExecution OCAPI Document for the specified Job Id.
-   * @param {string} jobId - The Id of the job that was executed.
-   * @param {string} executionId - The Id of the execution to retrieve results from.
-   * @return {Promise<any>} - Returns a Promise that resolves to the JobExecution
-   *    JSON result from the server.
+   * Gets the display name of a data unit from its OCAPI document name.
+   * @param {string} docName - The snake_case name of the data unit.
+   * @return {string} - Returns the display name, for example: `OCAPI Settings`.
    */
-  public async getJobExecution(jobId: string, executionId: string): Promise<any> {
-    let callSetup: ICallSetup = null;
-    let callResult: any;
+  public static getUnitLabel(docName: string): string {
+    return docName.split('_').map(word =>
+      ExportHelper.ACRONYMS.indexOf(word) > -1 ? word.toUpperCase() :
+        word.charAt(0).toUpperCase() + word.substring(1)
+    ).join(' ');
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
 
-    // Guard against missing data.
-    if (!jobId || !executionId) {
-      window.showErrorMessage('Error getting job execution result from server.');
+  /**
+   * Prompts the user for the data units to export, and then runs the system
+   * export job & extracts the exported archive into the export folder.
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the folder that the archive was extracted to, or to undefined if the
+   *    user cancelled.
+   */
+  public async exportArchive(): Promise<string> {
+    const saeConfig = new SiteArchiveExportConfiguration();
+    saeConfig.dataUnits.sites = {};
+
+    const units = await this.pickDataUnits(saeConfig);
+    if (!units) {
+      return undefined;
     }
 
-    const callData = {
-      job_id: jobId,
-      execution_id: executionId
-    };
+    // Get the ids of the sites, catalogs, etc. to export.
+    for (const unit of units) {
+      if (unit === 'sites') {
+        const sites = await this.pickSites();
+        if (!sites) {
+          return undefined;
+        }
 
-    try {
-      callSetup = await this.ocapiService.getCallSetup(
-        'jobs', 'getExecution', callData);
-      if (!callSetup.setupError) {
-        callResult = await this.ocapiService.makeCall(callSetup);
+        saeConfig.dataUnits.sites = sites;
       } else {
-        throw new Error('Call setup error.');
+        const ids = await this.getUnitIds(ExportHelper.ID_DATA_UNITS[unit]);
+        if (!ids) {
+          return undefined;
+        }
+
+        saeConfig.dataUnits[unit] = ids;
       }
-    } catch (e) {
-      window.showErrorMessage('Error getting job execution results from server');
-      console.error(e);
-      return Promise.reject(e);
     }
 
-    return Promise.resolve(callResult);
+    saeConfig.exportFile = ExportHelper.ARCHIVE_PREFIX + '_' + Date.now();
+
+    return this.runExport(saeConfig);
   }
 
   /**
-   * Runs the system global job `sfcc-site-archive-export`.
+   * Runs the system export job with a configuration, and extracts the exported
+   * archive into the configured export folder of the workspace. If no folder
+   * is configured, then the user is prompted for one. The user is asked before
+   * any existing file of the folder is overwritten. When the archive has been
+   * extracted, a summary of the changed files is shown.
+   * @param {SiteArchiveExportConfiguration} saeConfig - The configuration of
+   *    the export.
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the folder that the archive was extracted to, or to undefined if the
+   *    user cancelled.
+   */
+  public async runExport(
+    saeConfig: SiteArchiveExportConfiguration
+  ): Promise<string> {
+    const options = getExportOptions();
+    const folderPath = await this.getExportFolder(options);
+
+    if (!folderPath) {
+      return undefined;
+    }
+
+    const jobExe = await this.runSystemExport(saeConfig);
+
+    if (!JobRunner.isSuccessful(jobExe)) {
+      return Promise.reject('The export job finished with status: ' +
+        (jobExe.exitStatus ? jobExe.exitStatus.code : jobExe.status));
+    }
+
+    const archivePath = ExportHelper.IMPEX_PATH + saeConfig.exportFile + '.zip';
+    const zipPath = path.join(os.tmpdir(), path.posix.basename(archivePath));
+    let files: string[];
+
+    await window.withProgress({
+      location: ProgressLocation.Notification,
+      title: 'Downloading ' + saeConfig.exportFile + '.zip'
+    }, () => this.webDAVService.download(archivePath, zipPath));
+
+    try {
+      files = await this.extractArchive(zipPath, saeConfig.exportFile,
+        folderPath, options.prettyPrint);
+    } finally {
+      fs.unlinkSync(zipPath);
+    }
+
+    if (!files) {
+      return undefined;
+    }
+
+    if (options.deleteRemoteArchive) {
+      try {
+        await this.webDAVService.delete(archivePath);
+      } catch (e) {
+        window.showWarningMessage('Unable to delete the archive ' +
+          archivePath + ': ' + (e.message || e));
+      }
+    }
+
+    await this.showSummary(folderPath, files);
+
+    return folderPath;
+  }
+
+  /**
+   * Runs the system global job `sfcc-site-archive-export`, and tracks the
+   * execution until it has finished.
    * @param {SiteArchiveExportConfiguration} SAEConfig - The OCAPI document to
    *    use as the body of the request.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or rejects if the job couldn't be started or
+   *    didn't finish in time.
    */
-  public async runSystemExport(SAEConfig: SiteArchiveExportConfiguration): Promise<any> {
-    let callSetup: ICallSetup = null;
-    let callResult: any;
-    const callData = {
-      job_id: 'sfcc-site-archive-export',
-      body: JSON.stringify(SAEConfig.getDocument())
-    };
+  public runSystemExport(
+    SAEConfig: SiteArchiveExportConfiguration
+  ): Promise<JobExecution> {
+    return this.jobRunner.run('sfcc-site-archive-export', SAEConfig,
+      'Exporting metadata');
+  }
 
-    try {
-      callSetup = await this.ocapiService.getCallSetup(
-        'jobs',
-        'executeJob',
-        callData
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Creates a local folder, and any of its parent folders that don't exist.
+   * @param {string} folderPath - The path of the folder.
+   */
+  private ensureFolder(folderPath: string) {
+    if (!fs.existsSync(folderPath)) {
+      this.ensureFolder(path.dirname(folderPath));
+      fs.mkdirSync(folderPath);
+    }
+  }
+
+  /**
+   * Extracts a downloaded archive into a local folder. The job archives the
+   * files in a folder with the name of the archive, and the contents of that
+   * folder are extracted, so that the local folder has the layout of a site
+   * import folder. If any of the files already exist in the folder, then the
+   * user is asked to confirm that they are overwritten.
+   * @param {string} zipPath - The local path of the downloaded archive.
+   * @param {string} archiveName - The name of the archive without extension.
+   * @param {string} folderPath - The path of the local folder.
+   * @param {boolean} prettyPrint - If true, then the XML files are re-indented.
+   * @return {Promise<string[]>} - Returns a promise that resolves to the
+   *    paths of the extracted files, relative to the folder, or to undefined
+   *    if the user did not confirm overwriting the existing files.
+   */
+  private async extractArchive(
+    zipPath: string,
+    archiveName: string,
+    folderPath: string,
+    prettyPrint: boolean
+  ): Promise<string[]> {
+    const rootFolder = archiveName + '/';
+    const entries = new AdmZip(zipPath).getEntries()
+      .filter(entry => !entry.isDirectory)
+      .map(entry => {
+        const entryName = entry.entryName.indexOf(rootFolder) === 0 ?
+          entry.entryName.substring(rootFolder.length) : entry.entryName;
+        const filePath = path.resolve(folderPath, entryName);
+
+        return {
+          entry,
+          filePath,
+          relativePath: path.relative(folderPath, filePath)
+        };
+      })
+      // Skip any entry that would be written outside of the folder.
+      .filter(file => file.relativePath &&
+        file.relativePath.indexOf('..') !== 0 &&
+        !path.isAbsolute(file.relativePath));
+
+    const existingCount = entries
+      .filter(file => fs.existsSync(file.filePath)).length;
+
+    if (existingCount) {
+      const answer = await window.showWarningMessage(
+        'The export will overwrite ' + existingCount + ' existing ' +
+        (existingCount === 1 ? 'file' : 'files') + ' in ' + folderPath + '.',
+        { modal: true },
+        'Overwrite'
       );
-      console.log(callSetup);
-      callResult = await this.ocapiService.makeCall(callSetup);
-      console.log(callResult);
-    } catch (e) {
-      window.showErrorMessage('There was an error running the system export job');
-      console.error(e);
+
+      if (answer !== 'Overwrite') {
+        return undefined;
+      }
     }
 
-    return Promise.resolve(callResult);
+    entries.forEach(file => {
+      let data: Buffer = file.entry.getData();
+      if (prettyPrint && /\.xml$/i.test(file.filePath)) {
+        data = Buffer.from(XMLFormatter.format(data.toString('utf8')));
+      }
+
+      this.ensureFolder(path.dirname(file.filePath));
+      fs.writeFileSync(file.filePath, data);
+    });
+
+    return entries.map(file => file.relativePath);
+  }
+
+  /**
+   * Gets the folder to extract an archive into. This is the configured export
+   * folder of the workspace, or a folder selected by the user if no folder is
+   * configured or no workspace is open.
+   * @param {IExportOptions} options - The export settings.
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the folder, or to undefined if the user cancelled.
+   */
+  private async getExportFolder(options: IExportOptions): Promise<string> {
+    const folders = workspace.workspaceFolders;
+
+    if (options.folder && path.isAbsolute(options.folder)) {
+      return options.folder;
+    } else if (options.folder && folders && folders.length) {
+      return path.join(folders[0].uri.fsPath, options.folder);
+    }
+
+    const uris = await window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: folders && folders.length ? folders[0].uri : undefined,
+      openLabel: 'Extract Here'
+    });
+
+    return uris && uris.length ? uris[0].fsPath : undefined;
+  }
+
+  /**
+   * Gets the changes of the files in a folder from git.
+   * @param {string} folderPath - The path of the folder.
+   * @return {Promise<string[]>} - Returns a promise that resolves to the lines
+   *    of the short git status of the folder, or to null if the folder isn't
+   *    in a git repository.
+   */
+  private getGitChanges(folderPath: string): Promise<string[]> {
+    return new Promise(resolve => {
+      execFile(
+        'git',
+        ['status', '--porcelain', '--untracked-files=all', '--', '.'],
+        { cwd: folderPath },
+        (err, stdout) => {
+          resolve(err ? null :
+            String(stdout).split('\n').filter(line => line.trim()));
+        }
+      );
+    });
+  }
+
+  /**
+   * Gets the output channel of the export summaries, and creates it if needed.
+   * @return {OutputChannel} - Returns the output channel.
+   */
+  private getOutputChannel(): OutputChannel {
+    if (!ExportHelper.outputChannel) {
+      ExportHelper.outputChannel = window.createOutputChannel('SFCC Export');
+    }
+
+    return ExportHelper.outputChannel;
+  }
+
+  /**
+   * Prompts the user for the ids of the catalogs, libraries, etc. to export.
+   * @param {string} label - The display name of the data unit.
+   * @return {Promise<Object>} - Returns a promise that resolves to the map
+   *    of the ids to export, or to undefined if the user cancelled.
+   */
+  private async getUnitIds(label: string): Promise<object> {
+    const value = await window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder: '* for all ' + label.toLowerCase(),
+      prompt: 'Enter the IDs of the ' + label.toLowerCase() +
+        ' to export, separated by commas',
+      validateInput: input => input.trim() ? '' : 'Enter at least one ID'
+    });
+
+    if (!value) {
+      return undefined;
+    } else if (value.trim() === '*') {
+      return { all: true };
+    }
+
+    const ids = {};
+    value.split(',').map(id => id.trim()).filter(id => id).forEach(id => {
+      ids[id] = true;
+    });
+
+    return ids;
+  }
+
+  /**
+   * Prompts the user for the global data units to export, and for the data
+   * units that are exported per id. The selected global units are set in the
+   * export configuration.
+   * @param {SiteArchiveExportConfiguration} saeConfig - The configuration of
+   *    the export.
+   * @return {Promise<string[]>} - Returns a promise that resolves to the names
+   *    of the selected data units that need ids, or to undefined if the user
+   *    cancelled.
+   */
+  private async pickDataUnits(
+    saeConfig: SiteArchiveExportConfiguration
+  ): Promise<string[]> {
+    const globalData = saeConfig.dataUnits.globalData;
+    const items: IDataUnitItem[] = Object.keys(ExportHelper.ID_DATA_UNITS)
+      .map(unit => ({
+        description: 'select IDs',
+        isGlobal: false,
+        label: ExportHelper.ID_DATA_UNITS[unit],
+        unit
+      }))
+      .concat(Object.keys(globalData)
+        .filter(key => typeof globalData[key] === 'boolean' && key !== 'all')
+        .map(key => ({
+          description: 'global',
+          isGlobal: true,
+          label: ExportHelper.getUnitLabel(
+            key in globalData.MEMBER_MAP ? globalData.MEMBER_MAP[key] : key),
+          unit: key
+        })));
+
+    const selected = await window.showQuickPick(items, {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      placeHolder: 'Select the data to export'
+    });
+
+    if (!selected || !selected.length) {
+      return undefined;
+    }
+
+    selected.filter(item => item.isGlobal).forEach(item => {
+      globalData[item.unit] = true;
+    });
+
+    return selected.filter(item => !item.isGlobal).map(item => item.unit);
+  }
+
+  /**
+   * Prompts the user for the sites to export, and for the site data units to
+   * export for each of the sites.
+   * @return {Promise<Object>} - Returns a promise that resolves to the export
+   *    configuration of each selected site, or to undefined if the user
+   *    cancelled.
+   */
+  private async pickSites(): Promise<{
+    [siteId: string]: ExportSitesConfiguration
+  }> {
+    const sites = await this.sitesHelper.getAllSites();
+    const selectedSites = await window.showQuickPick(
+      sites.data.map(site => ({
+        description: site.displayName && site.displayName.default ?
+          site.displayName.default : '',
+        label: site.id
+      })),
+      {
+        canPickMany: true,
+        ignoreFocusOut: true,
+        placeHolder: 'Select the sites to export'
+      }
+    );
+
+    if (!selectedSites || !selectedSites.length) {
+      return undefined;
+    }
+
+    const siteConfig = new ExportSitesConfiguration();
+    const selectedUnits = await window.showQuickPick(
+      Object.keys(siteConfig.MEMBER_MAP).map(key => ({
+        description: key === 'all' ? 'all site data' : '',
+        label: ExportHelper.getUnitLabel(siteConfig.MEMBER_MAP[key]),
+        unit: key
+      })),
+      {
+        canPickMany: true,
+        ignoreFocusOut: true,
+        placeHolder: 'Select the site data to export'
+      }
+    );
+
+    if (!selectedUnits || !selectedUnits.length) {
+      return undefined;
+    }
+
+    const sitesConfig = {};
+    selectedSites.forEach(site => {
+      sitesConfig[site.label] = new ExportSitesConfiguration();
+      selectedUnits.forEach(item => {
+        sitesConfig[site.label][item.unit] = true;
+      });
+    });
+
+    return sitesConfig;
+  }
+
+  /**
+   * Shows a summary of an extracted archive, with the files that were changed
+   * by the export if the folder is in a git repository.
+   * @param {string} folderPath - The path of the folder of the archive.
+   * @param {string[]} files - The paths of the extracted files.
+   * @return {Promise<void>} - Returns a promise that resolves when the
+   *    summary has been written, without waiting for the user to dismiss the
+   *    message.
+   */
+  private async showSummary(folderPath: string, files: string[]): Promise<void> {
+    const changes = await this.getGitChanges(folderPath);
+    const outputChannel = this.getOutputChannel();
+    const counts = { added: 0, deleted: 0, modified: 0 };
+    let message = 'Export extracted to ' + folderPath + ': ';
+
+    outputChannel.clear();
+    outputChannel.appendLine('Extracted ' + files.length + ' files to: ' +
+      folderPath);
+
+    if (changes) {
+      changes.forEach(line => {
+        const code = line.substring(0, 2).trim();
+        const label = ExportHelper.GIT_STATUS_LABELS[code] ||
+          ExportHelper.GIT_STATUS_LABELS[code.charAt(0)] || 'modified';
+
+        counts[label]++;
+        outputChannel.appendLine(label + ': ' + line.substring(3));
+      });
+
+      message += changes.length ? Object.keys(counts)
+        .map(label => counts[label] + ' ' + label).join(', ') :
+        'no files changed';
+    } else {
+      files.forEach(file => outputChannel.appendLine(file));
+      message += files.length + ' files';
+    }
+
+    const actions = changes && changes.length ?
+      ['Show Summary', 'Source Control'] : ['Show Summary'];
+    window.showInformationMessage(message, ...actions).then(answer => {
+      if (answer === 'Show Summary') {
+        outputChannel.show(true);
+      } else if (answer === 'Source Control') {
+        commands.executeCommand('workbench.view.scm');
+      }
+    });
   }
 }
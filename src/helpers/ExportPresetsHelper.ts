@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuickPickItem, Uri, window, workspace } from 'vscode';
+import SiteArchiveExportConfiguration from '../documents/SiteArchiveExportConfiguration';
+import ExportHelper from './ExportHelper';
+
+/**
+ * @interface IExportPreset - A named export preset. The preset is the
+ *    SiteArchiveExportConfiguration document of the export.
+ */
+export interface IExportPreset {
+  name: string;
+  description?: string;
+  data_units: object;
+  export_file?: string;
+  overwrite_export_file?: boolean;
+}
+
+/**
+ * @interface IExportPresetItem - A quick pick item for selecting a preset.
+ */
+interface IExportPresetItem extends QuickPickItem {
+  preset: IExportPreset;
+}
+
+/**
+ * @class
+ * @classdesc - A helper class for running the named export presets that are
+ *    stored in the presets file of the workspace. The presets file is
+ *    validated against the JSON schema contributed by the extension while it
+ *    is edited, and again before a preset is run.
+ */
+export default class ExportPresetsHelper {
+  /** The name of the presets file in the root of a workspace folder. */
+  public static readonly FILE_NAME: string = 'sfcc-export-presets.json';
+
+  /** The presets that are written to a new presets file. */
+  public static readonly EXAMPLE_PRESETS: { presets: IExportPreset[] } = {
+    presets: [
+      {
+        data_units: {
+          global_data: {
+            custom_types: true,
+            system_type_definitions: true
+          }
+        },
+        description: 'System & custom object type definitions',
+        name: 'Metadata only'
+      },
+      {
+        data_units: {
+          global_data: {
+            ocapi_settings: true,
+            services: true
+          }
+        },
+        name: 'Services & OCAPI settings'
+      },
+      {
+        data_units: {
+          sites: {
+            RefArch: {
+              site_preferences: true
+            }
+          }
+        },
+        name: 'RefArch site preferences'
+      }
+    ]
+  };
+
+  /**
+   * The JSON schema of the presets file. The same schema is contributed to the
+   * editor for validating the file while it is edited.
+   */
+  public static readonly SCHEMA: any =
+    require('../../resources/schemas/export-presets.schema.json');
+
+  private exportHelper = new ExportHelper();
+
+  /**
+   * Checks the contents of a presets file against the JSON schema of the file,
+   * and gets a message for each error. The names of the presets are also
+   * checked for duplicates, which the schema can't describe.
+   *
+   * @param {any} presetsDoc - The parsed contents of the presets file.
+   * @return {string[]} - Returns the error messages, which are empty if the
+   *    presets are valid.
+   */
+  public static validatePresets(presetsDoc: any): string[] {
+    const errors: string[] = [];
+
+    ExportPresetsHelper.validateSchema(presetsDoc, ExportPresetsHelper.SCHEMA,
+      '', errors);
+
+    if (!errors.length) {
+      const names: string[] = [];
+
+      presetsDoc.presets.forEach((preset, i) => {
+        if (names.indexOf(preset.name) > -1) {
+          errors.push('presets[' + i + '] has the same name as another ' +
+            'preset: ' + preset.name);
+        }
+
+        names.push(preset.name);
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks a value against a JSON schema, and adds a message for each error.
+   * Only the schema keywords that are used by the presets schema are
+   * supported: `$ref` to the schema definitions, `type`, `minLength`,
+   * `items`, `required`, `properties` & `additionalProperties`.
+   *
+   * @param {any} value - The value to check.
+   * @param {Object} schema - The schema of the value.
+   * @param {string} valuePath - The path of the value for the messages, or an
+   *    empty string for the whole presets file.
+   * @param {string[]} errors - The error messages to add to.
+   */
+  private static validateSchema(
+    value: any,
+    schema: any,
+    valuePath: string,
+    errors: string[]
+  ) {
+    if (schema.$ref) {
+      schema = ExportPresetsHelper.SCHEMA.definitions[
+        schema.$ref.replace('#/definitions/', '')];
+    }
+
+    const label = valuePath || 'The presets file';
+    const valueType = Array.isArray(value) ? 'array' :
+      (value === null ? 'null' : typeof value);
+    const getPath = (key: string) => valuePath ? valuePath + '.' + key : key;
+
+    if (schema.type && schema.type !== valueType) {
+      errors.push(label + ' must be ' +
+        (/^[aeiou]/.test(schema.type) ? 'an ' : 'a ') + schema.type);
+    } else if (valueType === 'string' && value.length < schema.minLength) {
+      errors.push(label + ' must not be empty');
+    } else if (valueType === 'array' && schema.items) {
+      value.forEach((item, i) => ExportPresetsHelper.validateSchema(item,
+        schema.items, valuePath + '[' + i + ']', errors));
+    } else if (valueType === 'object') {
+      const properties = schema.properties || {};
+
+      (schema.required || []).filter(key => !(key in value)).forEach(key => {
+        errors.push(getPath(key) + ' is required');
+      });
+
+      Object.keys(value).forEach(key => {
+        if (properties.hasOwnProperty(key)) {
+          ExportPresetsHelper.validateSchema(value[key], properties[key],
+            getPath(key), errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push(getPath(key) + ' is not a supported field');
+        } else if (typeof schema.additionalProperties === 'object') {
+          ExportPresetsHelper.validateSchema(value[key],
+            schema.additionalProperties, getPath(key), errors);
+        }
+      });
+    }
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for a preset from the presets file, and then runs the
+   * export of the preset. If the workspace has no presets file, then the user
+   * is offered to create one.
+   *
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the folder that the archive was extracted to, or to undefined if the
+   *    user cancelled.
+   */
+  public async runPreset(): Promise<string> {
+    const filePath = this.findPresetsFile();
+
+    if (!filePath) {
+      const answer = await window.showInformationMessage(
+        'No ' + ExportPresetsHelper.FILE_NAME + ' file was found in the ' +
+        'workspace.',
+        'Create Presets File'
+      );
+
+      if (answer) {
+        await this.openPresetsFile();
+      }
+
+      return undefined;
+    }
+
+    const presets = this.readPresets(filePath);
+    const selected = await window.showQuickPick(
+      presets.map((preset): IExportPresetItem => ({
+        description: preset.description || '',
+        label: preset.name,
+        preset
+      })),
+      { placeHolder: 'Select the export preset to run' }
+    );
+
+    if (!selected) {
+      return undefined;
+    }
+
+    const saeConfig = new SiteArchiveExportConfiguration(selected.preset);
+
+    // Only export the sites that are listed in the preset.
+    if (!('sites' in selected.preset.data_units)) {
+      saeConfig.dataUnits.sites = {};
+    }
+
+    // Use a unique archive name unless the preset sets one.
+    if (!selected.preset.export_file) {
+      saeConfig.exportFile = ExportHelper.ARCHIVE_PREFIX + '_' + Date.now();
+    }
+
+    return this.exportHelper.runExport(saeConfig);
+  }
+
+  /**
+   * Opens the presets file of the workspace in the editor. If the workspace
+   * has no presets file, then one is created with example presets.
+   *
+   * @return {Promise<void>} - Returns a promise that resolves when the file
+   *    is shown in the editor.
+   */
+  public async openPresetsFile(): Promise<void> {
+    let filePath = this.findPresetsFile();
+
+    if (!filePath) {
+      const folders = workspace.workspaceFolders;
+      if (!folders || !folders.length) {
+        return Promise.reject('Open a workspace folder to create the ' +
+          'presets file.');
+      }
+
+      filePath = path.join(folders[0].uri.fsPath, ExportPresetsHelper.FILE_NAME);
+      fs.writeFileSync(filePath,
+        JSON.stringify(ExportPresetsHelper.EXAMPLE_PRESETS, null, 2) + '\n');
+    }
+
+    await window.showTextDocument(
+      await workspace.openTextDocument(Uri.file(filePath)));
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the path of the presets file from the first workspace folder that
+   * contains one.
+   *
+   * @return {string} - Returns the path of the file, or undefined if none of
+   *    the workspace folders contain a presets file.
+   */
+  private findPresetsFile(): string {
+    const folders = workspace.workspaceFolders || [];
+    const filePaths = folders.map(folder => path.join(folder.uri.fsPath,
+      ExportPresetsHelper.FILE_NAME)).filter(filePath => fs.existsSync(filePath));
+
+    return filePaths.length ? filePaths[0] : undefined;
+  }
+
+  /**
+   * Reads & validates the presets of a presets file.
+   *
+   * @param {string} filePath - The path of the presets file.
+   * @return {IExportPreset[]} - Returns the presets of the file.
+   * @throws {Error} - Throws an error describing the first problems found if
+   *    the file isn't valid.
+   */
+  private readPresets(filePath: string): IExportPreset[] {
+    let presetsDoc;
+
+    try {
+      presetsDoc = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+      throw new Error('Unable to parse ' + ExportPresetsHelper.FILE_NAME +
+        ': ' + e.message);
+    }
+
+    const errors = ExportPresetsHelper.validatePresets(presetsDoc);
+    if (errors.length) {
+      throw new Error('Invalid ' + ExportPresetsHelper.FILE_NAME + ': ' +
+        errors.slice(0, 3).join('; ') +
+        (errors.length > 3 ? ' (' + (errors.length - 3) + ' more)' : ''));
+    }
+
+    return presetsDoc.presets;
+  }
+}
@@ -0,0 +1,177 @@
+import * as AdmZip from 'adm-zip';
+import * as path from 'path';
+import { ProgressLocation, window } from 'vscode';
+import JobExecution from '../documents/JobExecution';
+import SiteArchiveImportConfiguration from '../documents/SiteArchiveImportConfiguration';
+import JobRunner from '../services/JobRunner';
+import WebDAVService from '../services/WebDAVService';
+
+/**
+ * @class
+ * @classdesc - A helper class for deploying a local metadata folder to the
+ *    sandbox by uploading it as a site import archive, and running the system
+ *    job `sfcc-site-archive-import`.
+ */
+export default class ImportHelper {
+  /** The WebDAV folder that the import job reads archives from. */
+  public static readonly IMPEX_PATH: string = 'Impex/src/instance/';
+
+  /** The prefix of the names of the uploaded archives. */
+  public static readonly ARCHIVE_PREFIX: string = 'sfccMetaExplorerImport';
+
+  private jobRunner = new JobRunner();
+  private webDAVService = new WebDAVService();
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for a metadata folder & an import mode, and then deploys
+   * the folder to the sandbox.
+   *
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the import job completed successfully, or to false if the user
+   *    cancelled.
+   */
+  public async deployMetadata(): Promise<boolean> {
+    const uris = await window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: 'Deploy Folder'
+    });
+
+    if (!uris || !uris.length) {
+      return false;
+    }
+
+    const mode = await window.showQuickPick(
+      SiteArchiveImportConfiguration.MODES,
+      { placeHolder: 'Select import mode' }
+    );
+
+    if (!mode) {
+      return false;
+    }
+
+    // Replace & delete modes remove data from the sandbox, so confirm first.
+    if (mode !== 'merge') {
+      const answer = await window.showWarningMessage(
+        'Import the metadata with mode "' + mode + '"? Definitions on the ' +
+        'sandbox may be removed.',
+        { modal: true },
+        'Import'
+      );
+
+      if (answer !== 'Import') {
+        return false;
+      }
+    }
+
+    const archiveName = ImportHelper.ARCHIVE_PREFIX + '_' + Date.now();
+
+    await this.importArchive(archiveName,
+      this.createArchive(uris[0].fsPath, archiveName), mode);
+
+    return true;
+  }
+
+  /**
+   * Imports a metadata XML document to the sandbox by uploading it as the
+   * meta file of a site import archive, and running the import job with the
+   * `merge` mode. Elements of the document can still delete definitions with
+   * their own `mode` attribute.
+   *
+   * @param {string} fileName - The name of the file in the meta folder of the
+   *    archive, for example: `custom-objecttype-definitions.xml`.
+   * @param {string} xml - The metadata XML document.
+   * @return {Promise<void>} - Returns a promise that resolves when the import
+   *    job has completed successfully, or rejects with the exit status.
+   */
+  public async importMetadataXML(fileName: string, xml: string): Promise<void> {
+    const archiveName = ImportHelper.ARCHIVE_PREFIX + '_' + Date.now();
+    const zip = new AdmZip();
+
+    zip.addFile(archiveName + '/meta/' + fileName, Buffer.from(xml, 'utf8'));
+    await this.importArchive(archiveName, zip.toBuffer(), 'merge');
+  }
+
+  /**
+   * Runs the system global job `sfcc-site-archive-import`, and tracks the
+   * execution until it has finished.
+   *
+   * @param {SiteArchiveImportConfiguration} SAIConfig - The OCAPI document to
+   *    use as the body of the request.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or rejects if the job couldn't be started or
+   *    didn't finish in time.
+   */
+  public runSystemImport(
+    SAIConfig: SiteArchiveImportConfiguration
+  ): Promise<JobExecution> {
+    return this.jobRunner.run('sfcc-site-archive-import', SAIConfig,
+      'Importing metadata');
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Uploads a site import archive, and runs the import job for it.
+   *
+   * @param {string} archiveName - The name of the archive without extension.
+   * @param {Buffer} archive - The contents of the zip file.
+   * @param {string} mode - The import mode.
+   * @return {Promise<void>} - Returns a promise that resolves when the import
+   *    job has completed successfully, or rejects with the exit status.
+   */
+  private async importArchive(
+    archiveName: string,
+    archive: Buffer,
+    mode: string
+  ): Promise<void> {
+    await window.withProgress({
+      location: ProgressLocation.Notification,
+      title: 'Deploying metadata'
+    }, async progress => {
+      progress.report({ message: 'Uploading ' + archiveName + '.zip' });
+      await this.webDAVService.upload(
+        ImportHelper.IMPEX_PATH + archiveName + '.zip', archive);
+    });
+
+    const jobExe = await this.runSystemImport(
+      new SiteArchiveImportConfiguration({
+        file_name: archiveName + '.zip',
+        mode
+      })
+    );
+
+    if (!JobRunner.isSuccessful(jobExe)) {
+      return Promise.reject('The import job finished with status: ' +
+        (jobExe.exitStatus ? jobExe.exitStatus.code +
+          (jobExe.exitStatus.message ? ' - ' + jobExe.exitStatus.message : '') :
+          jobExe.status));
+    }
+  }
+
+  /**
+   * Creates a site import archive from a local folder. A `meta` folder is
+   * added to the archive as the meta folder of the import, and any other
+   * folder is added as the root folder of the import.
+   *
+   * @param {string} folderPath - The path of the local folder.
+   * @param {string} archiveName - The name of the root folder of the archive.
+   * @return {Buffer} - Returns the contents of the zip file.
+   */
+  private createArchive(folderPath: string, archiveName: string): Buffer {
+    const zip = new AdmZip();
+    const isMetaFolder = path.basename(folderPath).toLowerCase() === 'meta';
+
+    zip.addLocalFolder(folderPath,
+      isMetaFolder ? archiveName + '/meta' : archiveName);
+
+    return zip.toBuffer();
+  }
+}
@@ -0,0 +1,322 @@
+import * as path from 'path';
+import { Memento, OutputChannel, QuickPickItem, window } from 'vscode';
+import JobExecution from '../documents/JobExecution';
+import JobExecutionRequest from '../documents/JobExecutionRequest';
+import { IOCAPITypes } from '../interfaces/IOCAPITypes';
+import { ICallSetup } from '../services/ICallSetup';
+import JobRunner from '../services/JobRunner';
+import { OCAPIService } from '../services/OCAPIService';
+import WebDAVService from '../services/WebDAVService';
+
+/**
+ * @class
+ * @classdesc - A helper class for running jobs, getting the recent executions
+ *    of a job, and for streaming the log file of an execution to an output
+ *    channel while the job runs.
+ */
+export default class JobsHelper {
+  /** The WebDAV folder that contains a log folder for each job. */
+  public static readonly LOG_FOLDER: string = 'Logs/jobs/';
+
+  /** The number of recent executions that are listed for a job. */
+  public static readonly MAX_EXECUTIONS: number = 20;
+
+  /** The workspace state key of the ids of the recently run jobs. */
+  public static readonly HISTORY_KEY: string = 'extension.sfccmetadata.jobHistory';
+
+  /** The number of recently run job ids that are kept in the history. */
+  public static readonly MAX_HISTORY: number = 10;
+
+  /** The system jobs that are suggested when running a job. */
+  public static readonly SYSTEM_JOBS: string[] = [
+    'sfcc-site-archive-export',
+    'sfcc-site-archive-import'
+  ];
+
+  /** The delay between the reads of the log file of a running job. */
+  public static readonly LOG_POLL_INTERVAL: number = 2000;
+
+  private jobRunner = new JobRunner();
+  private ocapiService = new OCAPIService();
+  private outputChannel: OutputChannel = null;
+  private state: Memento;
+  private streamId: number = 0;
+  private webDAVService = new WebDAVService();
+
+  /**
+   * Gets the WebDAV path of the log file of a job execution.
+   *
+   * @param {JobExecution} jobExe - The job execution.
+   * @return {string} - Returns the path of the log file on the server.
+   */
+  public static getLogFilePath(jobExe: JobExecution): string {
+    return JobsHelper.LOG_FOLDER + jobExe.jobId + '/' +
+      path.posix.basename(jobExe.logFileName);
+  }
+
+  /**
+   * @constructor
+   * @param {Memento} state - The workspace state that the ids of the recently
+   *    run jobs are stored in.
+   */
+  constructor(state: Memento) {
+    this.state = state;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for a job id & the parameters of the job, and then runs
+   * the job while showing its progress in a notification. Cancelling the
+   * notification stops the job execution.
+   *
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or to null if the user cancelled the prompts.
+   */
+  public async runJob(): Promise<JobExecution> {
+    const jobId = await this.pickJobId();
+    if (!jobId) {
+      return null;
+    }
+
+    const parameters = await this.getParameters();
+    if (!parameters) {
+      return null;
+    }
+
+    const jobExe = await this.jobRunner.start(jobId,
+      new JobExecutionRequest({ parameters }));
+    await this.addToHistory(jobId);
+
+    return this.jobRunner.trackWithProgress(jobExe, 'Running job ' + jobId);
+  }
+
+  /**
+   * Gets the most recent executions of a job, with the latest first.
+   *
+   * @param {string} jobId - The id of the job.
+   * @return {Promise<JobExecution[]>} - Returns a promise that resolves to
+   *    the job executions, or rejects with the error message of the call.
+   */
+  public async getExecutions(jobId: string): Promise<JobExecution[]> {
+    const callSetup: ICallSetup = await this.ocapiService.getCallSetup(
+      'jobs',
+      'searchExecutions',
+      {
+        body: JSON.stringify({
+          count: JobsHelper.MAX_EXECUTIONS,
+          query: {
+            term_query: {
+              fields: ['job_id'],
+              operator: 'is',
+              values: [jobId]
+            }
+          },
+          select: '(**)',
+          sorts: [{ field: 'start_time', sort_order: 'desc' }]
+        })
+      }
+    );
+
+    const result = await OCAPIService.rejectOnError(
+      await this.ocapiService.makeCall(callSetup));
+
+    return (result.hits || []).map(hit => new JobExecution(hit));
+  }
+
+  /**
+   * Gets a job execution, including its step executions.
+   *
+   * @param {string} jobId - The id of the job.
+   * @param {string} executionId - The id of the job execution.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    job execution, or rejects with the error message of the call.
+   */
+  public async getExecution(
+    jobId: string,
+    executionId: string
+  ): Promise<JobExecution> {
+    return this.jobRunner.getExecution(jobId, executionId);
+  }
+
+  /**
+   * Shows the log file of a job execution in the output channel. While the
+   * job is running, the new lines of the log file are appended as they are
+   * written. Showing the log of another execution stops the stream.
+   *
+   * @param {JobExecution} jobExe - The job execution.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    last state of the job execution when the stream has ended.
+   */
+  public async streamLog(jobExe: JobExecution): Promise<JobExecution> {
+    /** @function sleep - Promisify the setTimeout method. */
+    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+    const streamId = ++this.streamId;
+    const outputChannel = this.getOutputChannel();
+    let offset = 0;
+
+    outputChannel.clear();
+    outputChannel.show(true);
+    outputChannel.appendLine('Job: ' + jobExe.jobId + ' :: Execution: ' +
+      jobExe.id);
+
+    while (streamId === this.streamId) {
+      jobExe = await this.getExecution(jobExe.jobId, jobExe.id);
+
+      // The log file is created by the server once the job has started.
+      if (jobExe.isLogFileExisting && jobExe.logFileName) {
+        const contents = await this.webDAVService.readFile(
+          JobsHelper.getLogFilePath(jobExe), offset);
+
+        offset += contents.length;
+        outputChannel.append(contents.toString('utf8'));
+      }
+
+      if (!JobRunner.isRunning(jobExe.status)) {
+        if (!jobExe.isLogFileExisting) {
+          outputChannel.appendLine('No log file exists for the execution.');
+        }
+
+        outputChannel.appendLine('Status: ' + jobExe.status +
+          (jobExe.exitStatus ? ' :: Exit Status: ' + jobExe.exitStatus.code : ''));
+        break;
+      }
+
+      await sleep(JobsHelper.LOG_POLL_INTERVAL);
+    }
+
+    return jobExe;
+  }
+
+  /**
+   * Disposes of the output channel of the job logs.
+   */
+  public dispose() {
+    this.streamId++;
+
+    if (this.outputChannel) {
+      this.outputChannel.dispose();
+      this.outputChannel = null;
+    }
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Adds a job id to the top of the history of recently run jobs.
+   *
+   * @param {string} jobId - The id of the job.
+   * @return {Promise<void>} - Returns a promise that resolves when the
+   *    history has been stored.
+   */
+  private async addToHistory(jobId: string): Promise<void> {
+    const history = this.state.get<string[]>(JobsHelper.HISTORY_KEY, [])
+      .filter(historyId => historyId !== jobId);
+
+    history.unshift(jobId);
+    await this.state.update(JobsHelper.HISTORY_KEY,
+      history.slice(0, JobsHelper.MAX_HISTORY));
+  }
+
+  /**
+   * Prompts the user for the parameters of a job execution. The user enters
+   * the parameters one at a time, and an empty value completes the list.
+   *
+   * @return {Promise<IOCAPITypes.IJobExecutionParameter[]>} - Returns a
+   *    promise that resolves to the parameters, or to undefined if the user
+   *    cancelled.
+   */
+  private async getParameters(): Promise<IOCAPITypes.IJobExecutionParameter[]> {
+    const parameters: IOCAPITypes.IJobExecutionParameter[] = [];
+
+    while (true) {
+      const entry = await window.showInputBox({
+        ignoreFocusOut: true,
+        placeHolder: 'name=value',
+        prompt: 'Enter a job parameter, or leave empty to run the job (' +
+          parameters.length + ' parameters entered)',
+        validateInput: value => !value.trim() || /^[^=\s]+=/.test(value.trim()) ?
+          '' : 'Enter the parameter in the format: name=value'
+      });
+
+      if (typeof entry === 'undefined') {
+        return undefined;
+      } else if (!entry.trim()) {
+        return parameters;
+      }
+
+      const separatorIndex = entry.indexOf('=');
+      parameters.push({
+        name: entry.substring(0, separatorIndex).trim(),
+        value: entry.substring(separatorIndex + 1)
+      });
+    }
+  }
+
+  /**
+   * Prompts the user for the id of a job to run. The recently run jobs & the
+   * system jobs are suggested, and any other job id can be entered.
+   *
+   * @return {Promise<string>} - Returns a promise that resolves to the job id,
+   *    or to undefined if the user cancelled.
+   */
+  private pickJobId(): Promise<string> {
+    const history = this.state.get<string[]>(JobsHelper.HISTORY_KEY, []);
+    const suggestions: QuickPickItem[] = history.map(
+      (jobId): QuickPickItem => ({ description: 'recent', label: jobId })
+    ).concat(JobsHelper.SYSTEM_JOBS.filter(
+      jobId => history.indexOf(jobId) === -1
+    ).map(
+      (jobId): QuickPickItem => ({ description: 'system job', label: jobId })
+    ));
+    const quickPick = window.createQuickPick();
+
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = suggestions;
+    quickPick.placeholder = 'Enter or select the ID of the job to run';
+
+    // Add the entered value as the first item, so that any job id can be run.
+    quickPick.onDidChangeValue(value => {
+      const isSuggested = suggestions.some(item => item.label === value.trim());
+
+      const enteredItem: QuickPickItem = {
+        description: 'run job',
+        label: value.trim()
+      };
+
+      quickPick.items = value.trim() && !isSuggested ?
+        [enteredItem].concat(suggestions) : suggestions;
+    });
+
+    return new Promise(resolve => {
+      quickPick.onDidAccept(() => {
+        const selected = quickPick.selectedItems[0];
+
+        resolve(selected ? selected.label : quickPick.value.trim());
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+  }
+
+  /**
+   * Gets the output channel of the job logs, and creates it if needed.
+   *
+   * @return {OutputChannel} - Returns the output channel.
+   */
+  private getOutputChannel(): OutputChannel {
+    if (!this.outputChannel) {
+      this.outputChannel = window.createOutputChannel('SFCC Job Log');
+    }
+
+    return this.outputChannel;
+  }
+}
@@ -0,0 +1,280 @@
+import { ProgressLocation, QuickPickItem, window } from 'vscode';
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
+import { ICallResult } from '../services/ICallResult';
+import { ICallSetup } from '../services/ICallSetup';
+import { IDWConfig } from '../services/IDWConfig';
+import MetadataDiff, {
+  IObjectTypeDiff,
+  IObjectTypeMetadata
+} from '../services/MetadataDiff';
+import { OCAPIService } from '../services/OCAPIService';
+import MetadataXMLParser from '../xmlHandler/MetadataXMLParser';
+import ConfigHelper from './ConfigHelper';
+
+/**
+ * @interface IMetadataComparison - The result of comparing the active
+ *    connection profile (left side) with another metadata source (right side).
+ */
+export interface IMetadataComparison {
+  leftName: string;
+  objectTypes: IObjectTypeDiff[];
+  rightName: string;
+}
+
+/**
+ * @class
+ * @classdesc - A helper class for handling the command that compares the
+ *    metadata of the active connection profile with a local metadata file, or
+ *    with the metadata of another connection profile.
+ */
+export default class MetadataDiffHelper {
+  /** The sources that the active connection profile can be compared with. */
+  public static readonly SOURCES = {
+    file: 'Local metadata file',
+    profile: 'Another connection profile'
+  };
+
+  private configHelper: ConfigHelper = new ConfigHelper();
+  private metadataDiff: MetadataDiff = new MetadataDiff();
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for the source to compare the active connection profile
+   * with, and then compares the metadata of the two sources.
+   *
+   * @return {Promise<IMetadataComparison>} - Returns a promise that resolves
+   *    to the comparison, or undefined if the user cancelled.
+   */
+  public async compare(): Promise<IMetadataComparison> {
+    const source = await window.showQuickPick(
+      Object.keys(MetadataDiffHelper.SOURCES).map(key =>
+        MetadataDiffHelper.SOURCES[key]),
+      { placeHolder: 'Compare the sandbox metadata with' }
+    );
+
+    if (source === MetadataDiffHelper.SOURCES.file) {
+      return this.compareWithFile();
+    } else if (source === MetadataDiffHelper.SOURCES.profile) {
+      return this.compareWithProfile();
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compares the object types defined in a local metadata XML file, or site
+   * import archive, with the same object types of the active profile.
+   *
+   * @return {Promise<IMetadataComparison>} - Returns a promise that resolves
+   *    to the comparison, or undefined if the user cancelled.
+   */
+  public async compareWithFile(): Promise<IMetadataComparison> {
+    const uris = await window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Metadata Files': ['xml', 'zip'] },
+      openLabel: 'Compare'
+    });
+
+    if (!uris || !uris.length) {
+      return undefined;
+    }
+
+    const localMetadata = await new MetadataXMLParser().parseFile(
+      uris[0].fsPath);
+    const right: IObjectTypeMetadata[] = localMetadata.objectTypes.map(
+      localType => {
+        return {
+          attributeDefinitions: localType.attributeDefinitions,
+          attributeGroups: localType.attributeGroups,
+          objectType: localType.objectTypeDefinition.objectType
+        };
+      });
+
+    const activeProfile = await this.configHelper.getDWConfig();
+    const left = await this.getProfileMetadata(activeProfile,
+      right.map(objectType => objectType.objectType));
+
+    return {
+      leftName: activeProfile.name,
+      objectTypes: this.metadataDiff.compare(left, right),
+      rightName: uris[0].fsPath.split(/[\\/]/).pop()
+    };
+  }
+
+  /**
+   * Compares the selected object types of the active profile with the same
+   * object types of another connection profile.
+   *
+   * @return {Promise<IMetadataComparison>} - Returns a promise that resolves
+   *    to the comparison, or undefined if the user cancelled.
+   */
+  public async compareWithProfile(): Promise<IMetadataComparison> {
+    const activeProfile = await this.configHelper.getDWConfig();
+    const otherProfile = await this.configHelper.pickProfile(
+      'Select profile to compare with: ' + activeProfile.name);
+
+    if (!otherProfile) {
+      return undefined;
+    }
+
+    const objectTypes = await this.pickObjectTypes(new OCAPIService());
+    if (!objectTypes || !objectTypes.length) {
+      return undefined;
+    }
+
+    const left = await this.getProfileMetadata(activeProfile, objectTypes);
+    const right = await this.getProfileMetadata(otherProfile, objectTypes);
+
+    return {
+      leftName: activeProfile.name,
+      objectTypes: this.metadataDiff.compare(left, right),
+      rightName: otherProfile.name
+    };
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the custom attribute definitions, with their value definitions, & the
+   * attribute groups of an object type from an instance.
+   *
+   * @param {OCAPIService} service - The service for the instance.
+   * @param {string} objectType - The ID of the object type.
+   * @return {Promise<IObjectTypeMetadata>} - Returns a promise that resolves
+   *    to the metadata, or to null if the object type doesn't exist on the
+   *    instance.
+   */
+  private async getObjectTypeMetadata(
+    service: OCAPIService,
+    objectType: string
+  ): Promise<IObjectTypeMetadata> {
+    let _callSetup: ICallSetup = await service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAttributes',
+      { count: OCAPIService.MAX_PAGE_SIZE, objectType, select: '(**)' }
+    );
+
+    const attrResult = await service.makePaginatedCall(_callSetup);
+    if (attrResult.error && attrResult.status === 404) {
+      return null;
+    }
+
+    await OCAPIService.rejectOnError(attrResult);
+    const attrDefs: ObjectAttributeDefinition[] = [];
+
+    for (const attr of attrResult.data || []) {
+      if (attr.system) {
+        continue;
+      }
+
+      // The value definitions are only included when requesting a single
+      // attribute definition.
+      let attrDoc = attr;
+      if (String(attr.value_type).indexOf('enum') > -1) {
+        _callSetup = await service.getCallSetup(
+          'systemObjectDefinitions',
+          'getAttribute',
+          { expand: 'value', id: attr.id, objectType }
+        );
+
+        attrDoc = await OCAPIService.rejectOnError(
+          await service.makeCall(_callSetup));
+      }
+
+      attrDefs.push(new ObjectAttributeDefinition(attrDoc));
+    }
+
+    _callSetup = await service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAttributeGroups',
+      {
+        count: OCAPIService.MAX_PAGE_SIZE,
+        expand: 'definition',
+        objectType,
+        select: '(**)'
+      }
+    );
+
+    const groupResult: ICallResult = await OCAPIService.rejectOnError(
+      await service.makePaginatedCall(_callSetup));
+
+    return {
+      attributeDefinitions: attrDefs,
+      attributeGroups: (groupResult.data || []).map(group =>
+        new ObjectAttributeGroup(group)),
+      objectType
+    };
+  }
+
+  /**
+   * Gets the metadata of the specified object types from the instance of a
+   * connection profile.
+   *
+   * @param {IDWConfig} profile - The connection profile.
+   * @param {string[]} objectTypes - The IDs of the object types.
+   * @return {Promise<IObjectTypeMetadata[]>} - Returns a promise that resolves
+   *    to the metadata of the object types that exist on the instance.
+   */
+  private async getProfileMetadata(
+    profile: IDWConfig,
+    objectTypes: string[]
+  ): Promise<IObjectTypeMetadata[]> {
+    const service = new OCAPIService(profile);
+    const metadata: IObjectTypeMetadata[] = [];
+
+    await window.withProgress({
+      location: ProgressLocation.Notification,
+      title: 'Getting metadata from ' + profile.name
+    }, async progress => {
+      for (const objectType of objectTypes) {
+        progress.report({ message: objectType });
+
+        const typeMetadata = await this.getObjectTypeMetadata(
+          service, objectType);
+
+        if (typeMetadata) {
+          metadata.push(typeMetadata);
+        }
+      }
+    });
+
+    return metadata;
+  }
+
+  /**
+   * Prompts the user to select the system object types to compare.
+   *
+   * @param {OCAPIService} service - The service for the active profile.
+   * @return {Promise<string[]>} - Returns a promise that resolves to the
+   *    selected object type IDs, or undefined if the selection was cancelled.
+   */
+  private async pickObjectTypes(service: OCAPIService): Promise<string[]> {
+    const _callSetup: ICallSetup = await service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAll',
+      { count: OCAPIService.MAX_PAGE_SIZE, select: '(**)' }
+    );
+
+    const _callResult = await OCAPIService.rejectOnError(
+      await service.makePaginatedCall(_callSetup));
+
+    const items: QuickPickItem[] = (_callResult.data || [])
+      .filter(obj => obj.object_type !== 'CustomObject')
+      .map(obj => {
+        return { label: obj.object_type };
+      });
+
+    const selected = await window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: 'Select the system object types to compare'
+    });
+
+    return selected ? selected.map(item => item.label) : undefined;
+  }
+}
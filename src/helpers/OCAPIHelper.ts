@@ -9,6 +9,7 @@ import {
   CancellationToken,
   CancellationTokenSource,
   InputBoxOptions,
+  QuickPickItem,
   QuickPickOptions,
   TreeItemCollapsibleState,
   window
@@ -16,9 +17,26 @@ import {
 import { MetadataNode } from '../components/MetadataNode';
 import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
 import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
+import { ICallResult } from '../services/ICallResult';
 import { ICallSetup } from '../services/ICallSetup';
 import { OCAPIService } from '../services/OCAPIService';
 
+/**
+ * @interface IAttributeFieldItem - A quick pick item for selecting a field of
+ *    an attribute definition to change.
+ */
+interface IAttributeFieldItem extends QuickPickItem {
+  field: string;
+}
+
+/**
+ * @interface IDefaultValueItem - A quick pick item for selecting the default
+ *    value of an attribute definition.
+ */
+interface IDefaultValueItem extends QuickPickItem {
+  value: any;
+}
+
 /**
  * @class OCAPIHelper
  * @classdesc - A class with static helper methods for assisting in making calls
@@ -63,67 +81,154 @@ export default class OCAPIHelper {
     'set of strings': 'set_of_string'
   };
 
-  /* ========================================================================
-   * Private Instance Members
-   * ======================================================================== */
+  /** The value types of the attributes that can't have a default value. */
+  public static readonly NO_DEFAULT_TYPES: string[] = ['image', 'password'];
 
   /**
-   * Makes a call to the OCAPIService class to add a new system object attribute
-   * definition to the system object who's Id is specified.
+   * The fields of an attribute definition that can be changed, and the value
+   * types of the attributes that the field applies to.
+   */
+  public static readonly EDITABLE_FIELDS: {
+    [field: string]: { label: string, valueTypes?: string[] }
+  } = {
+    description: { label: 'Description' },
+    displayName: { label: 'Display Name' },
+    mandatory: { label: 'Mandatory' },
+    minLength: {
+      label: 'Min Length',
+      valueTypes: ['email', 'password', 'set_of_string', 'string']
+    },
+    regularExpression: {
+      label: 'Regular Expression',
+      valueTypes: ['email', 'password', 'set_of_string', 'string']
+    },
+    scale: { label: 'Scale', valueTypes: ['double', 'set_of_double'] },
+    searchable: { label: 'Searchable' },
+    unit: {
+      label: 'Unit',
+      valueTypes: ['double', 'int', 'set_of_double', 'set_of_int']
+    },
+    visible: { label: 'Visible' }
+  };
+
+  /**
+   * Gets the editable fields that have a different value in the edited
+   * attribute definition than in the original.
    *
-   * @param {string} objectType - The Id of the system object to that the
-   *    new attribute definition should be added to.
-   * @param {ObjectAttributeDefinition} attributeDefinition - The object
-   *    attribute defintion class instance that can be passed to the OCAPI
-   *    service as the body of the request.
-   * @returns {Promise<Object>} - Returns a promise that resoves to an Object.
-   *    The object is the JSON result reutrned form the service call.
+   * @param {ObjectAttributeDefinition} original - The attribute definition
+   *    before it was edited.
+   * @param {ObjectAttributeDefinition} edited - The edited attribute
+   *    definition.
+   * @return {string[]} - Returns the names of the changed fields.
    */
-  private async addAttributeDefiniton(
-    objectType: string,
-    attributeDefinition: ObjectAttributeDefinition,
-    includeDescription: boolean = false
-  ): Promise<any> {
-    const includeFields = [
-      'displayName',
-      'key',
-      'localizable',
-      'mandatory',
-      'searchable',
-      'siteSpecific',
-      'valueType',
-      'visible'
-    ];
+  public static getChangedFields(
+    original: ObjectAttributeDefinition,
+    edited: ObjectAttributeDefinition
+  ): string[] {
+    return Object.keys(OCAPIHelper.EDITABLE_FIELDS).filter(field =>
+      JSON.stringify(original[field]) !== JSON.stringify(edited[field]));
+  }
 
-    // Only include the description if it was specified.
-    if (includeDescription) {
-      includeFields.push('description');
+  /**
+   * Gets the display value of a field of an attribute definition.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @param {string} field - The name of the field.
+   * @return {string} - Returns the value as it is shown to the user.
+   */
+  public static getFieldDisplayValue(
+    attribute: ObjectAttributeDefinition,
+    field: string
+  ): string {
+    const value = attribute[field];
+
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    } else if (typeof value === 'number') {
+      return value > -1 ? String(value) : '';
+    } else if (value && typeof value === 'object') {
+      return value.default || '';
     }
 
-    const docObj = attributeDefinition.getDocument(includeFields);
-    let _callSetup: ICallSetup = null;
-    let _callResult: any;
-    const callData: any = {
-      body: JSON.stringify(docObj),
-      objectType,
-      id: attributeDefinition.id
-    };
+    return value || '';
+  }
 
-    try {
-      _callSetup = await this.service.getCallSetup(
-        'systemObjectDefinitions',
-        'createAttribute',
-        callData
-      );
+  /**
+   * Formats a date as a `YYYY-MM-DD` date value in the local time zone.
+   *
+   * @param {Date} date - The date.
+   * @return {string} - Returns the formatted date.
+   */
+  public static formatDateValue(date: Date): string {
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+      .map(part => (part < 10 ? '0' : '') + part)
+      .join('-');
+  }
 
-      _callResult = await this.service.makeCall(_callSetup);
-    } catch (e) {
-      window.showErrorMessage('ERROR making call to OCAPI: ' + e.message);
+  /**
+   * Gets the default value of an attribute from the entered text. The values
+   * of set types are separated by commas.
+   *
+   * @param {string} input - The entered text.
+   * @param {string} valueType - The value type of the attribute.
+   * @return {any} - Returns the default value with the type of the attribute.
+   */
+  public static parseDefaultValue(input: string, valueType: string): any {
+    const isNumber = /int|double/.test(valueType);
+
+    if (valueType.indexOf('set_of_') === 0) {
+      return input.split(',')
+        .map(value => value.trim())
+        .filter(value => value)
+        .map(value => isNumber ? Number(value) : value);
     }
 
-    return Promise.resolve(_callResult);
+    return isNumber ? Number(input.trim()) : input;
   }
 
+  /**
+   * Checks if the entered text is a valid default value for an attribute.
+   *
+   * @param {string} input - The entered text.
+   * @param {string} valueType - The value type of the attribute.
+   * @return {string} - Returns the validation message, or an empty string if
+   *    the value is valid.
+   */
+  public static validateDefaultValue(input: string, valueType: string): string {
+    const values = valueType.indexOf('set_of_') === 0 ?
+      input.split(',').map(value => value.trim()).filter(value => value) :
+      [input.trim()];
+    const patterns = {
+      date: /^\d{4}-\d{2}-\d{2}$/,
+      double: /^-?\d+(\.\d+)?$/,
+      email: /^[^@\s]+@[^@\s]+$/,
+      int: /^-?\d+$/,
+      time: /^([01]\d|2[0-3]):[0-5]\d$/
+    };
+    const messages = {
+      date: 'Enter the date as YYYY-MM-DD',
+      double: 'Enter a number',
+      email: 'Enter an email address',
+      int: 'Enter a whole number',
+      time: 'Enter the time as HH:mm'
+    };
+    const baseType = valueType.replace('set_of_', '');
+
+    if (!values.length || !values[0]) {
+      return 'Enter a value';
+    } else if (baseType in patterns &&
+      values.some(value => !patterns[baseType].test(value))
+    ) {
+      return messages[baseType];
+    }
+
+    return '';
+  }
+
+  /* ========================================================================
+   * Private Instance Members
+   * ======================================================================== */
+
   /**
    * Makes a call to the OCAPIService class to add a new attribute group to the
    * currently selected system object in the view.
@@ -144,7 +249,7 @@ export default class OCAPIHelper {
 
     const docObj = attributeGroup.getDocument(includeFields);
     let _callSetup: ICallSetup = null;
-    let _callResult: any;
+    let _callResult: ICallResult;
     const callData: any = {
       body: JSON.stringify(docObj),
       objectType,
@@ -160,10 +265,10 @@ export default class OCAPIHelper {
 
       _callResult = await this.service.makeCall(_callSetup);
     } catch (e) {
-      window.showErrorMessage('ERROR: Unable to add new attribute group', e.message);
+      return Promise.reject('Unable to add new attribute group: ' + e.message);
     }
 
-    return Promise.resolve(_callResult);
+    return OCAPIService.rejectOnError(_callResult);
   }
 
   /**
@@ -196,6 +301,174 @@ export default class OCAPIHelper {
     return attributeId;
   }
 
+  /**
+   * Prompts the user for a date, and for datetime attributes also for the
+   * time. The date is picked from a list of dates relative to today, or
+   * entered as `YYYY-MM-DD`.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @returns {Promise<string>} - Returns a promise that resolves to the date
+   *    value, or to undefined if the user cancelled.
+   */
+  private async getDateFromUser(
+    attribute: ObjectAttributeDefinition
+  ): Promise<string> {
+    const today = new Date();
+    const dateItems: IDefaultValueItem[] = [
+      { label: 'Today', offset: 0 },
+      { label: 'Tomorrow', offset: 1 },
+      { label: 'In a week', offset: 7 },
+      { label: 'In 30 days', offset: 30 }
+    ].map(day => {
+      const value = OCAPIHelper.formatDateValue(new Date(today.getFullYear(),
+        today.getMonth(), today.getDate() + day.offset));
+      return { description: value, label: day.label, value };
+    }).concat([{ description: '', label: 'Enter a date...', value: '' }]);
+
+    const dateItem = await window.showQuickPick(dateItems, {
+      ignoreFocusOut: true,
+      placeHolder: 'Select the default date of ' + attribute.id
+    });
+
+    if (!dateItem) {
+      return undefined;
+    }
+
+    const date = dateItem.value || await window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder: 'YYYY-MM-DD',
+      prompt: 'Enter the default date of ' + attribute.id,
+      validateInput: input => OCAPIHelper.validateDefaultValue(input, 'date')
+    });
+
+    if (!date || attribute.valueType !== 'datetime') {
+      return date ? date.trim() : undefined;
+    }
+
+    const time = await window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder: 'HH:mm',
+      prompt: 'Enter the default time of ' + attribute.id + ' in UTC',
+      validateInput: input => OCAPIHelper.validateDefaultValue(input, 'time'),
+      value: '00:00'
+    });
+
+    return time ? date.trim() + 'T' + time.trim() + ':00.000Z' : undefined;
+  }
+
+  /**
+   * Prompts the user for the default value of an attribute definition with
+   * the prompt for the value type of the attribute.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition
+   *    with its value definitions.
+   * @returns {Promise<any>} - Returns a promise that resolves to the default
+   *    value, or to undefined if the user cancelled.
+   */
+  private async getDefaultValueFromUser(
+    attribute: ObjectAttributeDefinition
+  ): Promise<any> {
+    const valueType = attribute.valueType;
+    const placeHolder = 'Select the default value of ' + attribute.id;
+
+    if (valueType === 'boolean') {
+      const pick = await window.showQuickPick(['true', 'false'], {
+        ignoreFocusOut: true,
+        placeHolder
+      });
+
+      return pick ? pick === 'true' : undefined;
+    } else if (valueType.indexOf('enum_of_') === 0) {
+      if (!(attribute.valueDefinitions || []).length) {
+        return Promise.reject('The attribute has no value definitions to ' +
+          'select the default value from.');
+      }
+
+      const valueItem = await window.showQuickPick(
+        attribute.valueDefinitions.map((valueDef): IDefaultValueItem => ({
+          description: valueDef.displayValue ?
+            valueDef.displayValue.default : '',
+          label: String(valueDef.value),
+          value: valueDef.value
+        })), { ignoreFocusOut: true, placeHolder });
+
+      return valueItem ? valueItem.value : undefined;
+    } else if (valueType === 'date' || valueType === 'datetime') {
+      return this.getDateFromUser(attribute);
+    }
+
+    const isSet = valueType.indexOf('set_of_') === 0;
+    const currentValue = attribute.defaultValue &&
+      attribute.defaultValue.hasValue() ? attribute.defaultValue.value : '';
+    const answer = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the default value of ' + attribute.id +
+        (isSet ? ', with the values separated by commas' : ''),
+      validateInput: input =>
+        OCAPIHelper.validateDefaultValue(input, valueType),
+      value: Array.isArray(currentValue) ? currentValue.join(', ') :
+        String(currentValue)
+    });
+
+    return typeof answer === 'undefined' ? undefined :
+      OCAPIHelper.parseDefaultValue(answer, valueType);
+  }
+
+  /**
+   * Prompts the user for a new value of a field of an attribute definition,
+   * and sets the value on the attribute. The current value is shown in the
+   * prompt. For localized fields, only the default value is changed.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition
+   *    being edited.
+   * @param {string} field - The name of the field to change.
+   * @returns {Promise<boolean>} - Returns a promise that resolves to true if a
+   *    value was entered, or to false if the user cancelled.
+   */
+  private async getFieldValueFromUser(
+    attribute: ObjectAttributeDefinition,
+    field: string
+  ): Promise<boolean> {
+    const label = OCAPIHelper.EDITABLE_FIELDS[field].label;
+    const currentValue = OCAPIHelper.getFieldDisplayValue(attribute, field);
+    const value = attribute[field];
+
+    if (typeof value === 'boolean') {
+      const answer = await window.showQuickPick(['Yes', 'No'], {
+        ignoreFocusOut: true,
+        placeHolder: label + ' (currently: ' + currentValue + ')'
+      });
+
+      if (!answer) {
+        return false;
+      }
+
+      attribute[field] = answer === 'Yes';
+    } else {
+      const answer = await window.showInputBox({
+        ignoreFocusOut: true,
+        prompt: 'Enter the ' + label.toLowerCase() + ' of the attribute',
+        validateInput: typeof value !== 'number' ? undefined :
+          input => /^\d+$/.test(input.trim()) ? '' : 'Enter a whole number',
+        value: currentValue
+      });
+
+      if (typeof answer === 'undefined') {
+        return false;
+      }
+
+      if (typeof value === 'number') {
+        attribute[field] = parseInt(answer, 10);
+      } else if (value && typeof value === 'object') {
+        attribute[field] = Object.assign({}, value, { default: answer });
+      } else {
+        attribute[field] = answer;
+      }
+    }
+
+    return true;
+  }
+
   /**
    * Validates that a string is an allowed Id for a SFCC SystemObject attribute.
    *
@@ -238,127 +511,6 @@ export default class OCAPIHelper {
    * Public Instance Members
    * ======================================================================== */
 
-  /**
-   * Uses a 'wizard' like approach to get the needed information for creating a
-   * new system object attribute definition.
-   *  - Input boxes are displayed, one-by-one, to get the attribute definition
-   *    properties.
-   *  - A new node is added to the tree view representing the attribute values
-   *    that have been entered.
-   *  - An indicator is added to show that the attribute is still being
-   *    processed while the request is made to the OCAPI service.
-   *  - A request is made to the OCAPI endpoint to create the system object
-   *    attribute definition, and the indicator is removed from the tree node.
-   *
-   * @param {string} objectType - The ID of the System Object Type that the new
-   *    attribute should be added to.
-   * @returns {Promise<any>} - Returns a Promise that resolves to a results
-   *    object from the API call.
-   */
-  public async addAttributeNode(node: MetadataNode): Promise<any> {
-    // Create a cancelation token instance to cancel the request when needed.
-    const tokenSource: CancellationTokenSource = new CancellationTokenSource();
-    const cancelAddAttributeToken: CancellationToken = tokenSource.token;
-    const objAttributeDefinition: ObjectAttributeDefinition = new ObjectAttributeDefinition(
-      {}
-    );
-
-    let includeDescription = false;
-
-    /**
-     * @todo: Get display strings from a resource bundle.
-     */
-
-    // Get the system object from the current node.
-    const systemObjectId = node.name;
-
-    // Create options objects for the dialogs.
-    const idInputOptions: InputBoxOptions = {
-      prompt: 'Enter Attribute Id:',
-      validateInput: this.validateAttributeId
-    };
-    const displayNameInputOptions: InputBoxOptions = {
-      prompt: 'Enter Attribute Display Name:'
-    };
-    const qpOptions: QuickPickOptions = {
-      placeHolder: 'Select the type for the attribute'
-    };
-    const descriptionInputOptions = {
-      prompt: 'Enter Attribute Description (Optional):'
-    };
-
-    /* Begin Form Wizard
-       ====================================================================== */
-    try {
-      // Show an input box for the user to enter the Id for the new attribute.
-      const attributeId = await window.showInputBox(
-        idInputOptions,
-        cancelAddAttributeToken
-      );
-
-      // If the user cancels then the return is undefined.
-      if (typeof attributeId === 'undefined') {
-        return Promise.reject({ error: false, cancelled: true });
-      }
-
-      // Show a select option box to choose what type the new attribute will be.
-      let attributeType = await window.showQuickPick(
-        OCAPIHelper.ATTRIBUTE_TYPES,
-        qpOptions,
-        cancelAddAttributeToken
-      );
-
-      // If the user cancels, then exit the wizard.
-      if (typeof attributeType === 'undefined') {
-        return Promise.reject({ error: false, cancelled: true });
-      }
-
-      if (OCAPIHelper.ATTRIBUTE_MAP[attributeType.toLowerCase()]) {
-        attributeType = OCAPIHelper.ATTRIBUTE_MAP[
-          attributeType.toLowerCase()];
-      }
-
-      const displayName = await window.showInputBox(
-        displayNameInputOptions,
-        cancelAddAttributeToken
-      );
-
-      // If the user cancels, then exit the wizard.
-      if (typeof displayName === 'undefined') {
-        return Promise.reject({ error: false, cancelled: true });
-      }
-
-      const description = await window.showInputBox(
-        descriptionInputOptions,
-        cancelAddAttributeToken
-      );
-
-      // If the user doesn't cancel the Description input then add.
-      if (typeof description !== 'undefined') {
-        // Assign attribute values to the request document object.
-        objAttributeDefinition.description.default = description;
-        includeDescription = true;
-      }
-
-      objAttributeDefinition.displayName.default = displayName;
-      objAttributeDefinition.valueType = attributeType.toLocaleLowerCase();
-      objAttributeDefinition.id = attributeId;
-
-      // Get the currently selected SystemObjects
-      // const selected = metadataView.currentProvider.;
-
-      // Return the reuslt of the API call.
-      return this.addAttributeDefiniton(systemObjectId, objAttributeDefinition, includeDescription);
-    } catch (e) {
-      console.log(e);
-      return Promise.reject({
-        error: true,
-        cancelled: false,
-        errorObject: e
-      });
-    }
-  }
-
   /**
    * Uses a 'wizard' like approach to get the needed information for creating a
    * new attribute group.
@@ -465,13 +617,13 @@ export default class OCAPIHelper {
         'systemObjectDefinitions',
         'getAttributeGroups',
         {
-          count: 150,
+          count: OCAPIService.MAX_PAGE_SIZE,
           select: '(**)',
           objectType
         }
       );
 
-      _callResult = await this.service.makeCall(_callSetup);
+      _callResult = await this.service.makePaginatedCall(_callSetup);
 
       // If the API call returns data create the first level of a tree.
       if (
@@ -492,26 +644,69 @@ export default class OCAPIHelper {
           }
         );
 
-        return await this.service.makeCall(_callSetup);
+        return OCAPIService.rejectOnError(
+          await this.service.makeCall(_callSetup));
       } else if (
         !_callResult.error &&
         typeof _callResult.count !== 'undefined' &&
         _callResult.count === 0
       ) {
-        const errMsg = 'There are no attribute groups.';
-        window.showErrorMessage(errMsg);
-        Promise.reject(errMsg);
+        return Promise.reject('There are no attribute groups.');
+      } else if (_callResult.error) {
+        return Promise.reject(_callResult.errorMessage);
       }
     } catch (e) {
       const errMsg = 'Unable to assign attribute to group: ';
       console.log(errMsg + e.message);
-      window.showErrorMessage('Unable to assign attribute to group.');
-      return Promise.reject();
+      return Promise.reject(errMsg + e.message);
     }
 
     return Promise.reject('ERROR: Unable to assign attribute to group.');
   }
 
+  /**
+   * Makes a call to the OCAPIService class to add a new system object attribute
+   * definition to the system object who's Id is specified.
+   *
+   * @param {string} objectType - The Id of the system object to that the
+   *    new attribute definition should be added to.
+   * @param {ObjectAttributeDefinition} attributeDefinition - The object
+   *    attribute defintion class instance that can be passed to the OCAPI
+   *    service as the body of the request.
+   * @param {string[]} includeFields - The fields of the attribute definition
+   *    to send.
+   * @returns {Promise<Object>} - Returns a promise that resoves to an Object.
+   *    The object is the JSON result reutrned form the service call.
+   */
+  public async createAttributeDefinition(
+    objectType: string,
+    attributeDefinition: ObjectAttributeDefinition,
+    includeFields: string[]
+  ): Promise<any> {
+    const docObj = attributeDefinition.getDocument(includeFields);
+    let _callSetup: ICallSetup = null;
+    let _callResult: ICallResult;
+    const callData: any = {
+      body: JSON.stringify(docObj),
+      objectType,
+      id: attributeDefinition.id
+    };
+
+    try {
+      _callSetup = await this.service.getCallSetup(
+        'systemObjectDefinitions',
+        'createAttribute',
+        callData
+      );
+
+      _callResult = await this.service.makeCall(_callSetup);
+    } catch (e) {
+      return Promise.reject('ERROR making call to OCAPI: ' + e.message);
+    }
+
+    return OCAPIService.rejectOnError(_callResult);
+  }
+
   /**
    * Deletes the selected attribute definition from the system object.
    *
@@ -535,7 +730,8 @@ export default class OCAPIHelper {
         }
       );
 
-      return await this.service.makeCall(_callSetup);
+      return OCAPIService.rejectOnError(
+        await this.service.makeCall(_callSetup));
     } catch (e) {
       console.log(e);
       // If there was an error, return the error message for display.
@@ -566,7 +762,8 @@ export default class OCAPIHelper {
         }
       );
 
-      return await this.service.makeCall(_callSetup);
+      return OCAPIService.rejectOnError(
+        await this.service.makeCall(_callSetup));
     } catch (e) {
       console.log(e);
       // If there was an error, return the error message for display.
@@ -574,6 +771,76 @@ export default class OCAPIHelper {
     }
   }
 
+  /**
+   * Prompts the user for the fields of a system object attribute definition
+   * to change, and the new values of the fields. Only the changed fields are
+   * sent in the PATCH call, so the values of the objects are kept. The
+   * attribute is read again before it is edited, and the call includes its
+   * resource state as the ETag, so that the changes are not saved if the
+   * attribute was changed on the instance in the meantime.
+   *
+   * @param {MetadataNode} node - The selected attribute definition node.
+   * @returns {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the attribute was changed, or to false if the user cancelled or didn't
+   *    change any values.
+   */
+  public async editAttributeDefinition(node: MetadataNode): Promise<boolean> {
+    const path = node.parentId.split('.');
+    const objectType = path[path.length - 2];
+    const attributeId = node.objectAttributeDefinition.id;
+
+    const getSetup: ICallSetup = await this.service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAttribute',
+      {
+        objectType,
+        id: attributeId
+      }
+    );
+    const currentDoc = await OCAPIService.rejectOnError(
+      await this.service.makeCall(getSetup));
+    const original = new ObjectAttributeDefinition(currentDoc);
+    const edited = new ObjectAttributeDefinition(currentDoc);
+
+    const fieldItems = Object.keys(OCAPIHelper.EDITABLE_FIELDS)
+      .filter(field => {
+        const valueTypes = OCAPIHelper.EDITABLE_FIELDS[field].valueTypes;
+        return !valueTypes || valueTypes.indexOf(original.valueType) > -1;
+      })
+      .map((field): IAttributeFieldItem => ({
+        description: OCAPIHelper.getFieldDisplayValue(original, field),
+        field,
+        label: OCAPIHelper.EDITABLE_FIELDS[field].label
+      }));
+
+    const selected = await window.showQuickPick(fieldItems, {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      placeHolder: 'Select the fields of ' + attributeId + ' to change'
+    });
+
+    if (!selected || !selected.length) {
+      return false;
+    }
+
+    for (const item of selected) {
+      if (!(await this.getFieldValueFromUser(edited, item.field))) {
+        return false;
+      }
+    }
+
+    const changedFields = OCAPIHelper.getChangedFields(original, edited);
+
+    if (!changedFields.length) {
+      return false;
+    }
+
+    await this.updateAttributeDefinition(objectType, attributeId,
+      edited.getDocument(changedFields), currentDoc._resource_state);
+
+    return true;
+  }
+
   /**
    * Gets the full System Object Attribute definition from OCAPI with value
    * definitions included.
@@ -582,10 +849,14 @@ export default class OCAPIHelper {
    */
   public async getExpandedAttribute(node: MetadataNode): Promise<any> {
     const path = node.parentId.split('.');
+    const isCustomType = path[1] === MetadataNode.ROOT_NODES.custObjDefs;
     let objectType = node.objectAttributeDefinition ? path[path.length - 2] :
       'SitePreferences';
-    // Capitalize 1st letter of type for OCAPI.
-    objectType = objectType.replace(/^\w/, c => c.toUpperCase());
+    // Capitalize 1st letter of system types for OCAPI. The IDs of custom
+    // types are used as they are.
+    if (!isCustomType) {
+      objectType = objectType.replace(/^\w/, c => c.toUpperCase());
+    }
     const attributeId = node.objectAttributeDefinition ?
       node.objectAttributeDefinition.id :
       node.preferenceValue.id;
@@ -593,7 +864,8 @@ export default class OCAPIHelper {
 
     try {
       _callSetup = await this.service.getCallSetup(
-        'systemObjectDefinitions',
+        isCustomType ? MetadataNode.ROOT_NODES.custObjDefs :
+          'systemObjectDefinitions',
         'getAttribute',
         {
           objectType,
@@ -621,12 +893,21 @@ export default class OCAPIHelper {
     const parentId = node.parentId + '.valueDefinitions';
     if (attrVals.length) {
       return attrVals.map(val => {
-        return new MetadataNode(String(val.value),
-        TreeItemCollapsibleState.Collapsed,
-        {
-          parentId,
-          objectAttributeValueDefinition: val
-        });
+        const valueNode = new MetadataNode(String(val.value),
+          TreeItemCollapsibleState.Collapsed,
+          {
+            parentId,
+            objectAttributeValueDefinition: val,
+            displayDescription: val.displayValue ?
+              val.displayValue.default : ''
+          });
+
+        // Only the values of system object attributes can be edited.
+        if (node.contextValue === 'attributeValues') {
+          valueNode.contextValue = MetadataNode.VALUE_DEFINITION_CONTEXT_VALUE;
+        }
+
+        return valueNode;
       });
     } else {
       return [new MetadataNode('No values configured.',
@@ -666,7 +947,8 @@ export default class OCAPIHelper {
         }
       );
 
-      return await this.service.makeCall(_callSetup);
+      return OCAPIService.rejectOnError(
+        await this.service.makeCall(_callSetup));
     } catch (e) {
       console.log(e);
       // If there was an error, return the error message for display.
@@ -676,35 +958,117 @@ export default class OCAPIHelper {
   }
 
   /**
-   * Makes an OCAPI call to set the default value of a system object attribute
-   * if this operation is supported on the attribute/object type combination.
+   * Prompts the user for the default value of a system object attribute
+   * definition, and saves it with a PATCH call. The prompt depends on the
+   * value type: a picker for booleans, enum values & dates, and an input box
+   * with validation for the other types. The values of set types are entered
+   * separated by commas. If the attribute already has a default value, then
+   * the user can also clear it.
    *
-   * @param {MetadataNode} node - The node object that was selected when the
-   *    context menu option was selected.
-   * @returns {Promise<any>} - Returns a promise that resolves with the reuslts
-   *    of the call to the OCAPI endpoint.
+   * @param {MetadataNode} node - The selected attribute definition node.
+   * @returns {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the default value was changed, or to false if the user cancelled.
    */
-  public async setDefaultAttributeValue(node: MetadataNode): Promise<any> {
-    const ALLOWED_SYSTEM_OBJECTS = [
-      'SitePreferences',
-      'OrganizationPreferences'
-    ];
-    const ALLOWED_ATTRIBUTE_TYPES = ['string', 'number', 'boolean'];
-    const attributeDefinition: ObjectAttributeDefinition =
-      node.objectAttributeDefinition;
-    const isCallAllowed = ALLOWED_SYSTEM_OBJECTS.some(
-      type => 'root.systemObjectDefinitions.' + type === node.parentId
+  public async setDefaultAttributeValue(node: MetadataNode): Promise<boolean> {
+    const CHANGE_LABEL = 'Change the default value';
+    const CLEAR_LABEL = 'Clear the default value';
+    const path = node.parentId.split('.');
+    const objectType = path[path.length - 2];
+    const getSetup: ICallSetup = await this.service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAttribute',
+      {
+        expand: 'value',
+        id: node.objectAttributeDefinition.id,
+        objectType
+      }
     );
+    const currentDoc = await OCAPIService.rejectOnError(
+      await this.service.makeCall(getSetup));
+    const attribute = new ObjectAttributeDefinition(currentDoc);
 
-    // Check if this is a system object that allows for default attribute values,
-    // and that the data type allows for default values.
-    if (
-      isCallAllowed &&
-      ALLOWED_ATTRIBUTE_TYPES.indexOf(attributeDefinition.valueType) > -1
-    ) {
-      /** @todo make call to the OCAPI api to set the default value */
+    if (OCAPIHelper.NO_DEFAULT_TYPES.indexOf(attribute.valueType) > -1) {
+      return Promise.reject('Attributes of type ' + attribute.valueType +
+        ' can\'t have a default value.');
+    }
+
+    if (attribute.defaultValue && attribute.defaultValue.hasValue()) {
+      const currentValue = attribute.defaultValue.value;
+      const action = await window.showQuickPick([CHANGE_LABEL, CLEAR_LABEL], {
+        ignoreFocusOut: true,
+        placeHolder: 'The default value of ' + attribute.id + ' is ' +
+          (Array.isArray(currentValue) ? currentValue.join(', ') :
+            String(currentValue))
+      });
+
+      if (!action) {
+        return false;
+      } else if (action === CLEAR_LABEL) {
+        await this.updateAttributeDefinition(objectType, attribute.id,
+          { default_value: null }, currentDoc._resource_state);
+
+        return true;
+      }
+    }
+
+    const value = await this.getDefaultValueFromUser(attribute);
+
+    if (typeof value === 'undefined') {
+      return false;
+    }
+
+    await this.updateAttributeDefinition(objectType, attribute.id,
+      { default_value: { value } }, currentDoc._resource_state);
+
+    return true;
+  }
+
+  /**
+   * Makes the PATCH call that changes the fields of a system object attribute
+   * definition. When the resource state of the attribute is given, it is sent
+   * as the ETag so that the changes are not saved if the attribute was
+   * changed on the instance since it was read.
+   *
+   * @param {string} objectType - The ID of the system object type.
+   * @param {string} attributeId - The ID of the attribute definition.
+   * @param {Object} document - The changed fields of the attribute
+   *    definition document.
+   * @param {string} [resourceState] - The `_resource_state` of the attribute
+   *    when it was read.
+   * @returns {Promise<any>} - Returns a promise that resolves to the updated
+   *    attribute definition document.
+   */
+  public async updateAttributeDefinition(
+    objectType: string,
+    attributeId: string,
+    document: object,
+    resourceState?: string
+  ): Promise<any> {
+    const _callSetup: ICallSetup = await this.service.getCallSetup(
+      'systemObjectDefinitions',
+      'updateAttribute',
+      {
+        body: JSON.stringify(document),
+        objectType,
+        id: attributeId
+      }
+    );
+
+    // The headers object is shared with the API config, so copy it before
+    // adding the ETag.
+    if (resourceState) {
+      _callSetup.headers = Object.assign({}, _callSetup.headers, {
+        'If-Match': resourceState
+      });
+    }
+
+    const _callResult = await this.service.makeCall(_callSetup);
+
+    if (_callResult.status === 409 || _callResult.status === 412) {
+      return Promise.reject('The attribute was changed on the instance ' +
+        'while it was being edited. Refresh the explorer and try again.');
     }
 
-    return Promise.reject('METHOD NOT IMPLEMENTED');
+    return OCAPIService.rejectOnError(_callResult);
   }
 }
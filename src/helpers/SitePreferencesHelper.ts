@@ -10,6 +10,7 @@ import { SitePreferencesNode } from '../components/SitePreferencesNode';
 import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
 import PreferenceValue from '../documents/PreferenceValue';
 import { OCAPIService } from '../services/OCAPIService';
+import SnapshotStore from '../services/SnapshotStore';
 import SitesHelper from './SitesHelper';
 
 /**
@@ -19,33 +20,44 @@ import SitesHelper from './SitesHelper';
  */
 export default class SitePreferencesHelper {
   private service: OCAPIService;
+  private snapshots: SnapshotStore;
   private sitesHelper: SitesHelper = new SitesHelper();
 
   /**
    * @param {OCAPIService} service - The OCAPI service instance used to
    *    make calls to the SFCC instance.
+   * @param {SnapshotStore} [snapshots] - The metadata snapshot store of the
+   *    tree view. If specified, then the preference groups are rendered from
+   *    the snapshot when one is available.
    * @constructor
    */
-  constructor(service: OCAPIService) {
+  constructor(service: OCAPIService, snapshots?: SnapshotStore) {
     this.service = service;
+    this.snapshots = snapshots || null;
   }
 
   /**
    * getAllPreferences
    */
   public async getAllPreferences(): Promise<MetadataNode[]> {
-    const _callSetup = await this.service.getCallSetup(
-      'systemObjectDefinitions',
-      'getAttributeGroups',
-      {
-        count: 150,
-        select: '(**)',
-        expand: 'definition',
-        objectType: 'SitePreferences'
-      }
-    );
+    const makeCall = async () => {
+      const _callSetup = await this.service.getCallSetup(
+        'systemObjectDefinitions',
+        'getAttributeGroups',
+        {
+          count: OCAPIService.MAX_PAGE_SIZE,
+          select: '(**)',
+          expand: 'definition',
+          objectType: 'SitePreferences'
+        }
+      );
+
+      return this.service.makePaginatedCall(_callSetup);
+    };
 
-    const _callResult = await this.service.makeCall(_callSetup);
+    const _callResult = this.snapshots ?
+      await this.snapshots.getResult('sitePreferences.getAll', makeCall) :
+      await makeCall();
 
     // If the API call returns data create the first level of a tree.
     if (
@@ -60,9 +72,10 @@ export default class SitePreferencesHelper {
           {
             parentId: 'sitePreferences',
             objectAttributeGroup: new ObjectAttributeGroup(resultObj),
-            displayDescription: resultObj.display_name
-              ? resultObj.display_name.default
-              : ''
+            displayDescription: SnapshotStore.addAgeToDescription(
+              resultObj.display_name ? resultObj.display_name.default : '',
+              _callResult
+            )
           }
         );
       });
@@ -194,7 +207,8 @@ export default class SitePreferencesHelper {
 
         console.log('OCAPI result: ', callResult);
       } else {
-        window.showErrorMessage('Unable to get preference values.');
+        window.showErrorMessage('Unable to get preference values: ' +
+          callResult.errorMessage);
         console.error('ERROR -- OCAPI call result: ', callResult);
       }
     } catch (e) {
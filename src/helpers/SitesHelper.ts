@@ -26,7 +26,7 @@ export default class SitesHelper {
         select: '(**)',
         objectType: 'Sites',
       });
-      const _callResult = await this.service.makeCall(_callSetup);
+      const _callResult = await this.service.makePaginatedCall(_callSetup);
 
       if (!_callResult.error &&
         typeof _callResult.count !== 'undefined' &&
@@ -36,7 +36,7 @@ export default class SitesHelper {
         return Promise.reject('No Sites Found.');
       } else if (_callResult.error || typeof _callResult.count === 'undefined') {
         window.showErrorMessage('Unable to get sites, ' +
-          'there was an error calling the API');
+          'there was an error calling the API: ' + _callResult.errorMessage);
         console.log(JSON.stringify(_callResult));
       } else {
         return new Sites(_callResult);
@@ -0,0 +1,591 @@
+import { env, QuickPickItem, window } from 'vscode';
+import { MetadataNode } from '../components/MetadataNode';
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import ObjectAttributeValueDefinition from '../documents/ObjectAttributeValueDefinition';
+import { OCAPIService } from '../services/OCAPIService';
+
+/**
+ * @interface IValueDefinitionLine - A value definition parsed from a line of
+ *    pasted CSV text.
+ */
+export interface IValueDefinitionLine {
+  display: string;
+  value: string;
+}
+
+/**
+ * @interface IPositionUpdate - The new position of a value definition after
+ *    the value definitions of an attribute were reordered.
+ */
+export interface IPositionUpdate {
+  position: number;
+  value: string;
+}
+
+/**
+ * @interface IValueDefinitionChanges - The value definition calls that change
+ *    the values of an attribute to the values of an edited list.
+ */
+export interface IValueDefinitionChanges {
+  created: IValueDefinitionLine[];
+  deleted: string[];
+  updated: IValueDefinitionLine[];
+}
+
+/**
+ * @class
+ * @classdesc - A helper class for managing the value definitions of the enum
+ *    type attribute definitions of system objects. The value definitions are
+ *    added, changed, reordered & deleted with the OCAPI attribute value
+ *    definition calls, so the other values of the attribute are kept.
+ */
+export default class ValueDefinitionsHelper {
+  /** The label of the locale picker item for entering another locale. */
+  public static readonly OTHER_LOCALE_LABEL: string = 'Other locale...';
+
+  private service = new OCAPIService();
+
+  /**
+   * Parses value definitions from CSV text. Each line has the value, and
+   * optionally a comma & the display value. Values with commas can be put in
+   * double quotes.
+   *
+   * @param {string} text - The CSV text.
+   * @return {IValueDefinitionLine[]} - Returns the parsed value definitions.
+   *    The value is used as the display value if none is given.
+   */
+  public static parseCSV(text: string): IValueDefinitionLine[] {
+    return text.split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => {
+        const cells = ValueDefinitionsHelper.parseCSVLine(line);
+        const value = cells[0].trim();
+        const display = cells.slice(1).join(',').trim();
+
+        return { display: display || value, value };
+      });
+  }
+
+  /**
+   * Gets the new positions of the value definitions when one of the values is
+   * moved. Only the values whose position changes are included.
+   *
+   * @param {ObjectAttributeValueDefinition[]} valueDefs - The value
+   *    definitions of the attribute in their current order.
+   * @param {string} value - The value to move.
+   * @param {number} offset - The number of places to move the value. A
+   *    negative offset moves the value up.
+   * @return {IPositionUpdate[]} - Returns the values & their new positions.
+   */
+  public static getPositionUpdates(
+    valueDefs: ObjectAttributeValueDefinition[],
+    value: string,
+    offset: number
+  ): IPositionUpdate[] {
+    const values = valueDefs.map(valueDef => String(valueDef.value));
+    const fromIndex = values.indexOf(value);
+    const toIndex = Math.min(Math.max(fromIndex + offset, 0),
+      values.length - 1);
+
+    if (fromIndex === -1 || fromIndex === toIndex) {
+      return [];
+    }
+
+    values.splice(toIndex, 0, values.splice(fromIndex, 1)[0]);
+
+    return values
+      .map((val, i) => ({ position: i + 1, value: val }))
+      .filter(update => {
+        const valueDef = valueDefs.filter(def =>
+          String(def.value) === update.value)[0];
+        return valueDef.position !== update.position;
+      });
+  }
+
+  /**
+   * Gets the value definitions to create, update & delete to change the
+   * values of an attribute to an edited list of values. Only the values & the
+   * default display values are compared, so the localized display values &
+   * the positions of the unchanged values are kept.
+   *
+   * @param {ObjectAttributeValueDefinition[]} valueDefs - The current value
+   *    definitions of the attribute.
+   * @param {IValueDefinitionLine[]} lines - The edited values in their new
+   *    order.
+   * @return {IValueDefinitionChanges} - Returns the changes to save.
+   */
+  public static getValueChanges(
+    valueDefs: ObjectAttributeValueDefinition[],
+    lines: IValueDefinitionLine[]
+  ): IValueDefinitionChanges {
+    const values = valueDefs.map(valueDef => String(valueDef.value));
+    const lineValues = lines.map(line => line.value);
+
+    return {
+      created: lines.filter(line => values.indexOf(line.value) === -1),
+      deleted: values.filter(value => lineValues.indexOf(value) === -1),
+      updated: lines.filter(line => {
+        const index = values.indexOf(line.value);
+        const display = index > -1 ?
+          valueDefs[index].displayValue.default || line.value : '';
+        return index > -1 && display !== line.display;
+      })
+    };
+  }
+
+  /**
+   * Checks if a value can be used for a new value definition.
+   *
+   * @param {string} value - The entered value.
+   * @param {string} valueType - The value type of the attribute.
+   * @param {string[]} existingValues - The values of the attribute.
+   * @return {string} - Returns the validation message, or an empty string if
+   *    the value is valid.
+   */
+  public static validateValue(
+    value: string,
+    valueType: string,
+    existingValues: string[]
+  ): string {
+    if (!value.trim()) {
+      return 'Enter a value';
+    } else if (valueType === 'enum_of_int' && !/^-?\d+$/.test(value.trim())) {
+      return 'The values of ' + valueType + ' attributes are whole numbers';
+    } else if (existingValues.indexOf(value.trim()) > -1) {
+      return 'The attribute already has the value ' + value.trim();
+    }
+
+    return '';
+  }
+
+  /**
+   * Splits a line of CSV text into its cells.
+   *
+   * @param {string} line - The line of CSV text.
+   * @return {string[]} - Returns the cells of the line.
+   */
+  private static parseCSVLine(line: string): string[] {
+    const cells = [''];
+    let isQuoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line.charAt(i);
+
+      if (char === '"' && isQuoted && line.charAt(i + 1) === '"') {
+        // Escaped quote in a quoted cell.
+        cells[cells.length - 1] += char;
+        i++;
+      } else if (char === '"') {
+        isQuoted = !isQuoted;
+      } else if (char === ',' && !isQuoted) {
+        cells.push('');
+      } else {
+        cells[cells.length - 1] += char;
+      }
+    }
+
+    return cells;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Prompts the user for a new value & its display value, and then adds the
+   * value definition to the end of the values of the attribute.
+   *
+   * @param {MetadataNode} node - The Value Definitions node of the attribute.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the value was added, or to false if the user cancelled.
+   */
+  public async addValueDefinition(node: MetadataNode): Promise<boolean> {
+    const attribute = await this.getAttribute(node);
+    const existingValues = attribute.valueDefinitions.map(valueDef =>
+      String(valueDef.value));
+    const value = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the new value of ' + attribute.id,
+      validateInput: input => ValueDefinitionsHelper.validateValue(input,
+        attribute.valueType, existingValues)
+    });
+
+    if (!value) {
+      return false;
+    }
+
+    const display = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the display value of ' + value.trim(),
+      value: value.trim()
+    });
+
+    if (typeof display === 'undefined') {
+      return false;
+    }
+
+    await this.createValue(this.getAttributePath(node), attribute, value.trim(),
+      display.trim() || value.trim(), this.getLastPosition(attribute) + 1);
+
+    return true;
+  }
+
+  /**
+   * Adds the value definitions from `value,display` CSV lines on the
+   * clipboard. The user picks which of the lines to save. Values that the
+   * attribute already has get the display value of the line.
+   *
+   * @param {MetadataNode} node - The Value Definitions node of the attribute.
+   * @return {Promise<number>} - Returns a promise that resolves to the number
+   *    of saved value definitions.
+   */
+  public async pasteValueDefinitions(node: MetadataNode): Promise<number> {
+    const lines = ValueDefinitionsHelper.parseCSV(
+      await env.clipboard.readText());
+
+    if (!lines.length) {
+      return Promise.reject(
+        'Copy the value definitions as "value,display" CSV lines first.');
+    }
+
+    const attribute = await this.getAttribute(node);
+    const existingValues = attribute.valueDefinitions.map(valueDef =>
+      String(valueDef.value));
+    const newValues: string[] = [];
+
+    // Check the lines in order, so that values repeated in the pasted text are
+    // reported as well. Values that the attribute already has are updated.
+    lines.forEach(line => {
+      const message = ValueDefinitionsHelper.validateValue(line.value,
+        attribute.valueType, newValues);
+
+      if (message) {
+        throw new Error('Line "' + line.value + ',' + line.display + '": ' +
+          message);
+      }
+
+      newValues.push(line.value);
+    });
+
+    const picks = await window.showQuickPick(lines.map(line => ({
+      description: line.display,
+      detail: existingValues.indexOf(line.value) > -1 ?
+        'Updates the display value' : 'Adds the value',
+      label: line.value,
+      picked: true
+    } as QuickPickItem)), {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      placeHolder: 'Select the value definitions to save to ' + attribute.id
+    });
+
+    if (!picks || !picks.length) {
+      return 0;
+    }
+
+    const attributePath = this.getAttributePath(node);
+    let position = this.getLastPosition(attribute);
+
+    for (const pick of picks) {
+      if (existingValues.indexOf(pick.label) > -1) {
+        await this.callValueDefinition(attributePath, 'updateValueDefinition',
+          pick.label, { display_value: { default: pick.description } });
+      } else {
+        position++;
+        await this.createValue(attributePath, attribute, pick.label,
+          pick.description, position);
+      }
+    }
+
+    return picks.length;
+  }
+
+  /**
+   * Prompts the user for a locale & the display value of the value in that
+   * locale, and then saves the display value.
+   *
+   * @param {MetadataNode} node - The node of the value definition.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the display value was saved, or to false if the user cancelled.
+   */
+  public async editDisplayValue(node: MetadataNode): Promise<boolean> {
+    const valueDef = node.objectAttributeValueDefinition;
+    const displayValue = valueDef.displayValue || { default: '' };
+    const localePick = await window.showQuickPick(
+      Object.keys(displayValue).map(localeId => ({
+        description: displayValue[localeId],
+        label: localeId
+      } as QuickPickItem)).concat([{
+        description: '',
+        label: ValueDefinitionsHelper.OTHER_LOCALE_LABEL
+      }]), {
+        placeHolder: 'Select the locale of the display value'
+      });
+
+    if (!localePick) {
+      return false;
+    }
+
+    let locale = localePick.label;
+
+    if (locale === ValueDefinitionsHelper.OTHER_LOCALE_LABEL) {
+      locale = await window.showInputBox({
+        ignoreFocusOut: true,
+        placeHolder: 'e.g. en_US',
+        prompt: 'Enter the locale ID',
+        validateInput: input => /^[a-z]{2}(_[A-Z]{2})?$/.test(input) ? '' :
+          'Enter a locale ID like "de" or "de_DE"'
+      });
+
+      if (!locale) {
+        return false;
+      }
+    }
+
+    const display = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt: 'Enter the ' + locale + ' display value of ' +
+        String(valueDef.value),
+      value: displayValue[locale] || ''
+    });
+
+    if (typeof display === 'undefined') {
+      return false;
+    }
+
+    await this.callValueDefinition(this.getAttributePath(node),
+      'updateValueDefinition', String(valueDef.value),
+      { display_value: { [locale]: display } });
+
+    return true;
+  }
+
+  /**
+   * Moves a value definition up or down in the values of the attribute. The
+   * values are renumbered, so that they all have a unique position.
+   *
+   * @param {MetadataNode} node - The node of the value definition.
+   * @param {number} offset - The number of places to move the value. A
+   *    negative offset moves the value up.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the value was moved, or to false if it was already first or last.
+   */
+  public async moveValueDefinition(
+    node: MetadataNode,
+    offset: number
+  ): Promise<boolean> {
+    const attribute = await this.getAttribute(node);
+    const updates = ValueDefinitionsHelper.getPositionUpdates(
+      attribute.valueDefinitions,
+      String(node.objectAttributeValueDefinition.value),
+      offset
+    );
+
+    const attributePath = this.getAttributePath(node);
+
+    for (const update of updates) {
+      await this.callValueDefinition(attributePath, 'updateValueDefinition',
+        update.value, { position: update.position });
+    }
+
+    return updates.length > 0;
+  }
+
+  /**
+   * Deletes a value definition from the attribute after the user confirms.
+   *
+   * @param {MetadataNode} node - The node of the value definition.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the value was deleted, or to false if the user cancelled.
+   */
+  public async deleteValueDefinition(node: MetadataNode): Promise<boolean> {
+    const value = String(node.objectAttributeValueDefinition.value);
+    const answer = await window.showWarningMessage(
+      'Delete the value "' + value + '"? The value is also removed from ' +
+        'the objects that have it.',
+      { modal: true },
+      'Delete'
+    );
+
+    if (answer !== 'Delete') {
+      return false;
+    }
+
+    await this.callValueDefinition(this.getAttributePath(node),
+      'deleteValueDefinition', value);
+
+    return true;
+  }
+
+  /**
+   * Saves an edited list of values of an attribute with the value definition
+   * calls. Removed values are deleted, the default display values of changed
+   * values are updated, and new values are added after the last value.
+   *
+   * @param {string} objectType - The ID of the system object type.
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition
+   *    with its current value definitions.
+   * @param {IValueDefinitionLine[]} lines - The edited values.
+   * @return {Promise<void>} - Returns a promise that resolves when the values
+   *    have been saved.
+   */
+  public async saveValueDefinitions(
+    objectType: string,
+    attribute: ObjectAttributeDefinition,
+    lines: IValueDefinitionLine[]
+  ): Promise<void> {
+    const attributePath = { attributeId: attribute.id, objectType };
+    const changes = ValueDefinitionsHelper.getValueChanges(
+      attribute.valueDefinitions || [], lines);
+    let position = this.getLastPosition(attribute);
+
+    for (const value of changes.deleted) {
+      await this.callValueDefinition(attributePath, 'deleteValueDefinition',
+        value);
+    }
+
+    for (const line of changes.updated) {
+      await this.callValueDefinition(attributePath, 'updateValueDefinition',
+        line.value, { display_value: { default: line.display } });
+    }
+
+    for (const line of changes.created) {
+      position++;
+      await this.createValue(attributePath, attribute, line.value,
+        line.display, position);
+    }
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Makes a call for a single value definition of an attribute.
+   *
+   * @param {{attributeId: string, objectType: string}} attributePath - The
+   *    IDs of the attribute & its object type.
+   * @param {string} callName - The name of the call of the
+   *    systemObjectDefinitions resource.
+   * @param {string} value - The value of the value definition.
+   * @param {Object} [body] - The document to send with the call.
+   * @return {Promise<Object>} - Returns a promise that resolves to the result
+   *    of the call, or rejects with the error message of the call.
+   */
+  private async callValueDefinition(
+    attributePath: { attributeId: string, objectType: string },
+    callName: string,
+    value: string,
+    body?: any
+  ): Promise<any> {
+    const callData: any = {
+      id: attributePath.attributeId,
+      objectType: attributePath.objectType,
+      valueId: encodeURIComponent(value)
+    };
+
+    if (body) {
+      callData.body = JSON.stringify(body);
+    }
+
+    const callSetup = await this.service.getCallSetup(
+      'systemObjectDefinitions', callName, callData);
+
+    return OCAPIService.rejectOnError(await this.service.makeCall(callSetup));
+  }
+
+  /**
+   * Creates a value definition.
+   *
+   * @param {{attributeId: string, objectType: string}} attributePath - The
+   *    IDs of the attribute & its object type.
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @param {string} value - The value.
+   * @param {string} display - The default display value.
+   * @param {number} position - The position of the value.
+   * @return {Promise<Object>} - Returns a promise that resolves to the result
+   *    of the call.
+   */
+  private createValue(
+    attributePath: { attributeId: string, objectType: string },
+    attribute: ObjectAttributeDefinition,
+    value: string,
+    display: string,
+    position: number
+  ): Promise<any> {
+    const valueDef = new ObjectAttributeValueDefinition({
+      display_value: { default: display },
+      position,
+      value: attribute.valueType === 'enum_of_int' ? Number(value) : value
+    });
+
+    return this.callValueDefinition(attributePath, 'createValueDefinition',
+      value, valueDef.getDocument(['displayValue', 'position', 'value']));
+  }
+
+  /**
+   * Gets the attribute definition of a node with its value definitions from
+   * OCAPI, so that the values that were changed since the tree was loaded are
+   * included.
+   *
+   * @param {MetadataNode} node - The Value Definitions node of the attribute,
+   *    or the node of one of its value definitions.
+   * @return {Promise<ObjectAttributeDefinition>} - Returns a promise that
+   *    resolves to the attribute definition.
+   */
+  private async getAttribute(
+    node: MetadataNode
+  ): Promise<ObjectAttributeDefinition> {
+    const attributePath = this.getAttributePath(node);
+    const callSetup = await this.service.getCallSetup(
+      'systemObjectDefinitions',
+      'getAttribute',
+      {
+        expand: 'value',
+        id: attributePath.attributeId,
+        objectType: attributePath.objectType
+      }
+    );
+    const result = await OCAPIService.rejectOnError(
+      await this.service.makeCall(callSetup));
+
+    return new ObjectAttributeDefinition(result);
+  }
+
+  /**
+   * Gets the object type & attribute ID from the parent ID of a node.
+   *
+   * @param {MetadataNode} node - The Value Definitions node of the attribute,
+   *    or the node of one of its value definitions.
+   * @return {{attributeId: string, objectType: string}} - Returns the IDs.
+   */
+  private getAttributePath(
+    node: MetadataNode
+  ): { attributeId: string, objectType: string } {
+    const path = node.parentId.split('.');
+
+    // The nodes of the values are children of the Value Definitions node.
+    if (path[path.length - 1] === 'valueDefinitions') {
+      path.pop();
+    }
+
+    return {
+      attributeId: path[path.length - 1],
+      objectType: path[path.length - 2]
+    };
+  }
+
+  /**
+   * Gets the position of the last value definition of an attribute.
+   *
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @return {number} - Returns the last position, or the number of values if
+   *    the values don't have positions.
+   */
+  private getLastPosition(attribute: ObjectAttributeDefinition): number {
+    const valueDefs = attribute.valueDefinitions || [];
+
+    return Math.max.apply(Math, valueDefs.map(valueDef =>
+      valueDef.position).concat([valueDefs.length]));
+  }
+}
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProgressLocation, Uri, window, workspace } from 'vscode';
+import { WebDAVNode } from '../components/WebDAVNode';
+import { IWebDAVProgress } from '../services/WebDAVService';
+import WebDAVService from '../services/WebDAVService';
+
+/**
+ * @class
+ * @classdesc - A helper class for handling the commands of the WebDAV view for
+ *    opening, downloading, uploading, and deleting files on the instance.
+ */
+export default class WebDAVHelper {
+  private service: WebDAVService = new WebDAVService();
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Downloads a file to the temp folder and opens it in the editor.
+   *
+   * @param {WebDAVNode} node - The node of the file.
+   */
+  public async openFile(node: WebDAVNode) {
+    const tempFolder = path.join(os.tmpdir(), 'sfcc-metadata-explorer');
+    if (!fs.existsSync(tempFolder)) {
+      fs.mkdirSync(tempFolder);
+    }
+
+    const filePath = await this.withProgress('Opening ' + node.entry.name,
+      onProgress => this.service.download(node.entry.path,
+        path.join(tempFolder, node.entry.name), onProgress));
+
+    await window.showTextDocument(await workspace.openTextDocument(filePath));
+  }
+
+  /**
+   * Prompts the user for a local file path, and downloads a file to it.
+   *
+   * @param {WebDAVNode} node - The node of the file.
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the downloaded file, or undefined if the user cancelled.
+   */
+  public async downloadFile(node: WebDAVNode): Promise<string> {
+    const folders = workspace.workspaceFolders;
+    const defaultPath = folders && folders.length ?
+      path.join(folders[0].uri.fsPath, node.entry.name) : node.entry.name;
+
+    const uri = await window.showSaveDialog({
+      defaultUri: Uri.file(defaultPath),
+      saveLabel: 'Download'
+    });
+
+    if (!uri) {
+      return undefined;
+    }
+
+    return this.withProgress('Downloading ' + node.entry.name,
+      onProgress => this.service.download(node.entry.path, uri.fsPath,
+        onProgress));
+  }
+
+  /**
+   * Prompts the user for local files, and uploads them to a folder.
+   *
+   * @param {WebDAVNode} node - The node of the folder.
+   * @return {Promise<number>} - Returns a promise that resolves to the number
+   *    of uploaded files.
+   */
+  public async uploadFiles(node: WebDAVNode): Promise<number> {
+    const uris = await window.showOpenDialog({
+      canSelectMany: true,
+      openLabel: 'Upload'
+    });
+
+    if (!uris || !uris.length) {
+      return 0;
+    }
+
+    for (const uri of uris) {
+      const fileName = path.basename(uri.fsPath);
+
+      await this.withProgress('Uploading ' + fileName,
+        onProgress => this.service.upload(node.entry.path + '/' + fileName,
+          uri.fsPath, onProgress));
+    }
+
+    return uris.length;
+  }
+
+  /**
+   * Deletes a file or folder after the user confirms.
+   *
+   * @param {WebDAVNode} node - The node of the file or folder.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the file or folder was deleted.
+   */
+  public async deleteEntry(node: WebDAVNode): Promise<boolean> {
+    const answer = await window.showWarningMessage(
+      'Delete ' + node.entry.path + (node.entry.isDirectory ?
+        ' and all of its contents?' : '?'),
+      { modal: true },
+      'Delete'
+    );
+
+    if (answer !== 'Delete') {
+      return false;
+    }
+
+    await this.service.delete(node.entry.path);
+    return true;
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Runs a file transfer while showing its progress in a notification.
+   *
+   * @param {string} title - The title of the notification.
+   * @param {Function} transfer - Starts the transfer with a progress callback.
+   * @return {Promise<T>} - Returns a promise that resolves to the result of
+   *    the transfer.
+   */
+  private withProgress<T>(
+    title: string,
+    transfer: (onProgress: IWebDAVProgress) => Promise<T>
+  ): Promise<T> {
+    return Promise.resolve(window.withProgress({
+      location: ProgressLocation.Notification,
+      title
+    }, progress => {
+      let reported = 0;
+
+      return transfer((transferred, total) => {
+        if (!total) {
+          return;
+        }
+
+        // Report the increments in whole percentages.
+        const percentage = Math.floor(transferred / total * 100);
+        if (percentage > reported) {
+          progress.report({
+            increment: percentage - reported,
+            message: percentage + '%'
+          });
+          reported = percentage;
+        }
+      });
+    }));
+  }
+}
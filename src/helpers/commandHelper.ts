@@ -291,10 +291,12 @@ export default class CommandHelper {
       );
 
       const callResult = await this.service.makeCall(callSetup);
-      console.log(callResult);
       if (callResult && !callResult.error) {
         window.showInformationMessage('Attribute value set.');
         return Promise.resolve(true);
+      } else if (callResult) {
+        window.showErrorMessage('Unable to set preference value: ' +
+          callResult.errorMessage);
       }
     } catch (e) {
       window.showErrorMessage('Unable to set preference value.');
@@ -0,0 +1,53 @@
+/**
+ * @file CustomObjectsHelper.test.ts
+ * @fileoverview - Provides unit testing of the CustomObjectsHelper.ts class.
+ */
+import * as assert from 'assert';
+
+import CustomObjectsHelper from '../CustomObjectsHelper';
+
+const OBJECT_DOC = {
+  _resource_state: 'abc123',
+  _type: 'custom_object',
+  _v: '20.4',
+  c_email: 'customer@example.com',
+  c_subscribed: true,
+  creation_date: '2020-05-01T10:00:00.000Z',
+  key_property: 'email',
+  key_value_string: 'customer@example.com',
+  last_modified: '2020-05-02T10:00:00.000Z',
+  link: 'https://example.com/s/-/dw/data/v20_4/custom_objects/NewsletterSubscription/customer@example.com',
+  object_type: 'NewsletterSubscription'
+};
+
+// CustomObjectsHelper Test Suite
+suite('CustomObjectsHelper Tests', () => {
+  test('Gets the key of string & int keyed objects', () => {
+    assert.equal(CustomObjectsHelper.getObjectKey(OBJECT_DOC),
+      'customer@example.com');
+    assert.equal(CustomObjectsHelper.getObjectKey({ key_value_int: 42 }),
+      '42');
+  });
+
+  test('Leaves the server fields out of the update document', () => {
+    const editedDoc = Object.assign({}, OBJECT_DOC, {
+      c_subscribed: false,
+      last_modified: '2021-01-01T00:00:00.000Z'
+    });
+
+    assert.deepEqual(
+      CustomObjectsHelper.getUpdateDocument(editedDoc, OBJECT_DOC),
+      { c_email: 'customer@example.com', c_subscribed: false }
+    );
+  });
+
+  test('Removes the values of removed attributes', () => {
+    const editedDoc = Object.assign({}, OBJECT_DOC);
+    delete editedDoc.c_subscribed;
+
+    assert.deepEqual(
+      CustomObjectsHelper.getUpdateDocument(editedDoc, OBJECT_DOC),
+      { c_email: 'customer@example.com', c_subscribed: null }
+    );
+  });
+});
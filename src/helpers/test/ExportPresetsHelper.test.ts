@@ -0,0 +1,107 @@
+/**
+ * @file ExportPresetsHelper.test.ts
+ * @fileoverview - Provides unit testing of the validation of export presets.
+ */
+import * as assert from 'assert';
+
+import ExportDataUnitsConfiguration from '../../documents/ExportDataUnitsConfiguration';
+import ExportGlobalDataConfiguration from '../../documents/ExportGlobalDataConfiguration';
+import ExportSitesConfiguration from '../../documents/ExportSitesConfiguration';
+import ExportPresetsHelper from '../ExportPresetsHelper';
+
+// ExportPresetsHelper Test Suite
+suite('ExportPresetsHelper Tests', () => {
+  test('Accepts the example presets', () => {
+    assert.deepEqual(
+      ExportPresetsHelper.validatePresets(ExportPresetsHelper.EXAMPLE_PRESETS),
+      []
+    );
+  });
+
+  test('Requires a presets array', () => {
+    assert.deepEqual(ExportPresetsHelper.validatePresets({}),
+      ['presets is required']);
+    assert.deepEqual(ExportPresetsHelper.validatePresets(null),
+      ['The presets file must be an object']);
+    assert.deepEqual(ExportPresetsHelper.validatePresets({ presets: {} }),
+      ['presets must be an array']);
+  });
+
+  test('Lists the data units of the export documents in the schema', () => {
+    const definitions = ExportPresetsHelper.SCHEMA.definitions;
+    const dataUnitsConfig = new ExportDataUnitsConfiguration();
+    const siteConfig = new ExportSitesConfiguration();
+
+    assert.deepEqual(
+      Object.keys(definitions.dataUnits.properties).sort(),
+      Object.keys(dataUnitsConfig)
+        .filter(key => key !== 'MEMBER_MAP' && key !== 'includedFields')
+        .map(key => dataUnitsConfig.MEMBER_MAP[key] || key)
+        .sort()
+    );
+    assert.deepEqual(
+      Object.keys(definitions.globalData.properties).sort(),
+      Object.keys(new ExportGlobalDataConfiguration({}).getDocument()).sort()
+    );
+    assert.deepEqual(
+      Object.keys(definitions.siteData.properties).sort(),
+      Object.keys(siteConfig.MEMBER_MAP)
+        .map(key => siteConfig.MEMBER_MAP[key])
+        .sort()
+    );
+  });
+
+  test('Reports misspelled data unit names', () => {
+    const errors = ExportPresetsHelper.validatePresets({
+      presets: [{
+        data_units: {
+          global_data: { custom_type: true },
+          pricebooks: { all: true },
+          sites: { RefArch: { site_preference: true } }
+        },
+        name: 'Typos'
+      }]
+    });
+
+    assert.deepEqual(errors, [
+      'presets[0].data_units.global_data.custom_type is not a supported field',
+      'presets[0].data_units.pricebooks is not a supported field',
+      'presets[0].data_units.sites.RefArch.site_preference is not a ' +
+        'supported field'
+    ]);
+  });
+
+  test('Reports invalid field values', () => {
+    const errors = ExportPresetsHelper.validatePresets({
+      presets: [
+        { data_units: { catalogs: { all: 'yes' } }, name: 'Catalogs' },
+        {
+          data_units: { catalogs: { all: true } },
+          exportFile: 'catalogs',
+          name: 'Catalogs',
+          overwrite_export_file: 'true'
+        }
+      ]
+    });
+
+    assert.deepEqual(errors, [
+      'presets[0].data_units.catalogs.all must be a boolean',
+      'presets[1].exportFile is not a supported field',
+      'presets[1].overwrite_export_file must be a boolean'
+    ]);
+  });
+
+  test('Reports duplicate preset names', () => {
+    const errors = ExportPresetsHelper.validatePresets({
+      presets: [
+        { data_units: { catalogs: { all: true } }, name: 'Catalogs' },
+        { data_units: { libraries: { all: true } }, name: 'Libraries' },
+        { data_units: { catalogs: { all: true } }, name: 'Catalogs' }
+      ]
+    });
+
+    assert.deepEqual(errors, [
+      'presets[2] has the same name as another preset: Catalogs'
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @file ImportHelper.test.ts
+ * @fileoverview - Provides unit testing of the ImportHelper.ts class.
+ */
+import * as AdmZip from 'adm-zip';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { window } from 'vscode';
+
+import JobExecution from '../../documents/JobExecution';
+import SiteArchiveImportConfiguration from '../../documents/SiteArchiveImportConfiguration';
+import WebDAVService from '../../services/WebDAVService';
+import ImportHelper from '../ImportHelper';
+
+/** The window methods that are replaced with the answers of the tests. */
+const STUBBED_METHODS = [
+  'showOpenDialog',
+  'showQuickPick',
+  'showWarningMessage',
+  'withProgress'
+];
+
+// ImportHelper Test Suite
+suite('ImportHelper Tests', () => {
+  const originals = {};
+  const originalUpload = WebDAVService.prototype.upload;
+  const uploads: Array<{ entries: string[], serverPath: string }> = [];
+  const imports: SiteArchiveImportConfiguration[] = [];
+  let answers: { folder: string, mode: string, confirm: string };
+  let exitStatus: any;
+  let importHelper: ImportHelper;
+  let tmpPath: string = '';
+
+  /** Creates a local metadata folder in the temp folder. */
+  const createFolder = (folderPath: string, fileName: string) => {
+    fs.mkdirSync(folderPath);
+    fs.writeFileSync(path.join(folderPath, fileName), '<metadata/>');
+  };
+
+  suiteSetup(() => {
+    tmpPath = fs.mkdtempSync(path.join(os.tmpdir(), 'importHelper-'));
+    createFolder(path.join(tmpPath, 'meta'), 'system-objecttype-extensions.xml');
+    createFolder(path.join(tmpPath, 'site'), 'preferences.xml');
+  });
+
+  suiteTeardown(() => {
+    ['meta', 'site'].forEach(folder => {
+      const folderPath = path.join(tmpPath, folder);
+      fs.readdirSync(folderPath).forEach(file =>
+        fs.unlinkSync(path.join(folderPath, file)));
+      fs.rmdirSync(folderPath);
+    });
+    fs.rmdirSync(tmpPath);
+  });
+
+  setup(() => {
+    uploads.length = 0;
+    imports.length = 0;
+    answers = { confirm: 'Import', folder: 'meta', mode: 'merge' };
+    exitStatus = { code: 'OK' };
+
+    STUBBED_METHODS.forEach(method => originals[method] = window[method]);
+    Object.assign(window, {
+      showOpenDialog: () => Promise.resolve(answers.folder ?
+        [{ fsPath: path.join(tmpPath, answers.folder) }] : undefined),
+      showQuickPick: () => Promise.resolve(answers.mode),
+      showWarningMessage: () => Promise.resolve(answers.confirm),
+      withProgress: (options, task) => task({ report: () => undefined })
+    });
+
+    WebDAVService.prototype.upload = (serverPath: string, source: Buffer) => {
+      const entries = new AdmZip(source).getEntries()
+        .map(entry => entry.entryName);
+      uploads.push({ entries, serverPath });
+      return Promise.resolve();
+    };
+
+    importHelper = new ImportHelper();
+    importHelper.runSystemImport = SAIConfig => {
+      imports.push(SAIConfig);
+      return Promise.resolve(new JobExecution({
+        exit_status: exitStatus,
+        id: 'execution1',
+        job_id: 'sfcc-site-archive-import',
+        status: 'finished'
+      }));
+    };
+  });
+
+  teardown(() => {
+    Object.assign(window, originals);
+    WebDAVService.prototype.upload = originalUpload;
+  });
+
+  test('Uploads a meta folder as the meta folder of the archive', async () => {
+    assert.equal(await importHelper.deployMetadata(), true);
+
+    const archiveName = imports[0].fileName.replace(/\.zip$/, '');
+
+    assert.ok(archiveName.indexOf(ImportHelper.ARCHIVE_PREFIX + '_') === 0);
+    assert.equal(uploads.length, 1);
+    assert.equal(uploads[0].serverPath,
+      ImportHelper.IMPEX_PATH + archiveName + '.zip');
+    assert.deepEqual(uploads[0].entries.filter(entry => !/\/$/.test(entry)),
+      [archiveName + '/meta/system-objecttype-extensions.xml']);
+    assert.equal(imports[0].mode, 'merge');
+  });
+
+  test('Uploads other folders as the root of the archive', async () => {
+    answers.folder = 'site';
+    answers.mode = 'replace';
+
+    assert.equal(await importHelper.deployMetadata(), true);
+
+    const archiveName = imports[0].fileName.replace(/\.zip$/, '');
+
+    assert.deepEqual(uploads[0].entries.filter(entry => !/\/$/.test(entry)),
+      [archiveName + '/preferences.xml']);
+    assert.equal(imports[0].mode, 'replace');
+  });
+
+  test('Does not import when the user cancels', async () => {
+    answers.mode = 'delete';
+    answers.confirm = undefined;
+    assert.equal(await importHelper.deployMetadata(), false);
+
+    answers.folder = '';
+    assert.equal(await importHelper.deployMetadata(), false);
+
+    assert.equal(uploads.length, 0);
+    assert.equal(imports.length, 0);
+  });
+
+  test('Rejects when the import job does not finish with OK', async () => {
+    exitStatus = { code: 'ERROR', message: 'Invalid archive' };
+
+    await importHelper.importMetadataXML('system-objecttype-extensions.xml',
+      '<metadata/>').then(
+        () => assert.fail('The import should have been rejected'),
+        err => assert.equal(err,
+          'The import job finished with status: ERROR - Invalid archive')
+      );
+
+    const archiveName = imports[0].fileName.replace(/\.zip$/, '');
+
+    assert.deepEqual(uploads[0].entries,
+      [archiveName + '/meta/system-objecttype-extensions.xml']);
+    assert.equal(imports[0].mode, 'merge');
+  });
+});
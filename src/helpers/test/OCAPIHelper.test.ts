@@ -0,0 +1,119 @@
+/**
+ * @file OCAPIHelper.test.ts
+ * @fileoverview - Provides unit testing of the OCAPIHelper.ts class.
+ */
+import * as assert from 'assert';
+import { TreeItemCollapsibleState } from 'vscode';
+
+import { MetadataNode } from '../../components/MetadataNode';
+import ObjectAttributeDefinition from '../../documents/ObjectAttributeDefinition';
+import { OCAPIService } from '../../services/OCAPIService';
+import OCAPIHelper from '../OCAPIHelper';
+
+const ATTRIBUTE_DOC = {
+  _resource_state: 'abc123',
+  description: { default: 'The color of the product' },
+  display_name: { default: 'Color', de: 'Farbe' },
+  id: 'color',
+  mandatory: false,
+  min_length: 0,
+  searchable: true,
+  value_type: 'string',
+  visible: true
+};
+
+// OCAPIHelper Test Suite
+suite('OCAPIHelper Tests', () => {
+  test('Gets the changed fields of an edited attribute', () => {
+    const original = new ObjectAttributeDefinition(ATTRIBUTE_DOC);
+    const edited = new ObjectAttributeDefinition(ATTRIBUTE_DOC);
+
+    assert.deepEqual(OCAPIHelper.getChangedFields(original, edited), []);
+
+    edited.displayName = Object.assign({}, edited.displayName,
+      { default: 'Colour' });
+    edited.mandatory = true;
+
+    assert.deepEqual(OCAPIHelper.getChangedFields(original, edited),
+      ['displayName', 'mandatory']);
+    assert.deepEqual(
+      edited.getDocument(OCAPIHelper.getChangedFields(original, edited)),
+      { display_name: { default: 'Colour', de: 'Farbe' }, mandatory: true }
+    );
+  });
+
+  test('Gets the display values of attribute fields', () => {
+    const attribute = new ObjectAttributeDefinition(ATTRIBUTE_DOC);
+
+    assert.equal(OCAPIHelper.getFieldDisplayValue(attribute, 'displayName'),
+      'Color');
+    assert.equal(OCAPIHelper.getFieldDisplayValue(attribute, 'searchable'),
+      'Yes');
+    assert.equal(OCAPIHelper.getFieldDisplayValue(attribute, 'minLength'), '0');
+    assert.equal(OCAPIHelper.getFieldDisplayValue(attribute, 'scale'), '');
+    assert.equal(
+      OCAPIHelper.getFieldDisplayValue(attribute, 'regularExpression'), '');
+  });
+
+  test('Validates & parses default values by value type', () => {
+    assert.equal(OCAPIHelper.validateDefaultValue('42', 'int'), '');
+    assert.equal(OCAPIHelper.validateDefaultValue('4.2', 'int'),
+      'Enter a whole number');
+    assert.equal(OCAPIHelper.validateDefaultValue('2020-05-01', 'date'), '');
+    assert.equal(OCAPIHelper.validateDefaultValue('a@b', 'email'), '');
+    assert.equal(OCAPIHelper.validateDefaultValue('1, x', 'set_of_double'),
+      'Enter a number');
+    assert.equal(OCAPIHelper.validateDefaultValue(' ', 'string'),
+      'Enter a value');
+
+    assert.strictEqual(OCAPIHelper.parseDefaultValue('1.5', 'double'), 1.5);
+    assert.strictEqual(OCAPIHelper.parseDefaultValue(' red ', 'string'),
+      ' red ');
+    assert.deepEqual(OCAPIHelper.parseDefaultValue('1, 2,,3', 'set_of_int'),
+      [1, 2, 3]);
+    assert.deepEqual(OCAPIHelper.parseDefaultValue('red, blue',
+      'set_of_string'), ['red', 'blue']);
+  });
+
+  test('Formats date values', () => {
+    assert.equal(OCAPIHelper.formatDateValue(new Date(2020, 0, 5)),
+      '2020-01-05');
+  });
+
+  test('Keeps falsy default values', () => {
+    const attribute = new ObjectAttributeDefinition(Object.assign({},
+      ATTRIBUTE_DOC,
+      { default_value: { value: false }, value_type: 'boolean' }));
+
+    assert.ok(attribute.defaultValue.hasValue());
+    assert.deepEqual(attribute.defaultValue.getDocument(['value']),
+      { value: false });
+    assert.ok(!new ObjectAttributeDefinition(ATTRIBUTE_DOC).defaultValue
+      .hasValue());
+  });
+
+  test('Rejects default values of enums without values', async () => {
+    const originalGetCallSetup = OCAPIService.prototype.getCallSetup;
+    const originalMakeCall = OCAPIService.prototype.makeCall;
+    const doc = { id: 'rating', value_type: 'enum_of_int' };
+    const node = new MetadataNode('rating', TreeItemCollapsibleState.None, {
+      objectAttributeDefinition: new ObjectAttributeDefinition(doc),
+      parentId: 'root.systemObjectDefinitions.Product'
+    });
+
+    // OCAPI leaves out the value definitions of enums without values.
+    OCAPIService.prototype.getCallSetup = () => Promise.resolve(null);
+    OCAPIService.prototype.makeCall = () => Promise.resolve(doc);
+
+    try {
+      await new OCAPIHelper().setDefaultAttributeValue(node).then(
+        () => assert.fail('Setting the default value should have failed'),
+        err => assert.equal(err, 'The attribute has no value definitions ' +
+          'to select the default value from.')
+      );
+    } finally {
+      OCAPIService.prototype.getCallSetup = originalGetCallSetup;
+      OCAPIService.prototype.makeCall = originalMakeCall;
+    }
+  });
+});
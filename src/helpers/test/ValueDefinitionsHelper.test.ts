@@ -0,0 +1,65 @@
+/**
+ * @file ValueDefinitionsHelper.test.ts
+ * @fileoverview - Provides unit testing of the ValueDefinitionsHelper.ts
+ * class.
+ */
+import * as assert from 'assert';
+
+import ObjectAttributeValueDefinition from '../../documents/ObjectAttributeValueDefinition';
+import ValueDefinitionsHelper from '../ValueDefinitionsHelper';
+
+const VALUE_DEFS = [
+  new ObjectAttributeValueDefinition({ position: 1, value: 'S' }),
+  new ObjectAttributeValueDefinition({ position: 2, value: 'M' }),
+  new ObjectAttributeValueDefinition({ position: 3, value: 'L' })
+];
+
+// ValueDefinitionsHelper Test Suite
+suite('ValueDefinitionsHelper Tests', () => {
+  test('Parses value definitions from CSV lines', () => {
+    assert.deepEqual(ValueDefinitionsHelper.parseCSV(
+      'S,Small\r\n\nXL\n"XXL","Extra ""extra"" large, really"\n'), [
+        { display: 'Small', value: 'S' },
+        { display: 'XL', value: 'XL' },
+        { display: 'Extra "extra" large, really', value: 'XXL' }
+      ]);
+  });
+
+  test('Validates new values', () => {
+    assert.equal(ValueDefinitionsHelper.validateValue('XL', 'enum_of_string',
+      ['S', 'M']), '');
+    assert.equal(ValueDefinitionsHelper.validateValue(' ', 'enum_of_string',
+      []), 'Enter a value');
+    assert.equal(ValueDefinitionsHelper.validateValue('M', 'enum_of_string',
+      ['S', 'M']), 'The attribute already has the value M');
+    assert.ok(ValueDefinitionsHelper.validateValue('1.5', 'enum_of_int', []));
+  });
+
+  test('Gets the changed positions of moved values', () => {
+    assert.deepEqual(ValueDefinitionsHelper.getPositionUpdates(VALUE_DEFS,
+      'L', -1), [{ position: 2, value: 'L' }, { position: 3, value: 'M' }]);
+    assert.deepEqual(
+      ValueDefinitionsHelper.getPositionUpdates(VALUE_DEFS, 'S', -1), []);
+    assert.deepEqual(
+      ValueDefinitionsHelper.getPositionUpdates(VALUE_DEFS, 'S', 5),
+      [
+        { position: 1, value: 'M' },
+        { position: 2, value: 'L' },
+        { position: 3, value: 'S' }
+      ]);
+  });
+
+  test('Gets the value definition changes of edited values', () => {
+    const changes = ValueDefinitionsHelper.getValueChanges(VALUE_DEFS, [
+      { display: 'XL', value: 'XL' },
+      { display: 'Medium', value: 'M' },
+      { display: 'S', value: 'S' }
+    ]);
+
+    assert.deepEqual(changes, {
+      created: [{ display: 'XL', value: 'XL' }],
+      deleted: ['L'],
+      updated: [{ display: 'Medium', value: 'M' }]
+    });
+  });
+});
@@ -0,0 +1,18 @@
+'use strict';
+
+/**
+ * @file ICustomTypeDefinition.ts
+ * @file - Exports an interface for the settings of a custom object type that
+ *    are written to the custom-type element of a metadata import file.
+ */
+
+/** @interface ICustomTypeDefinition */
+export interface ICustomTypeDefinition {
+  typeId: string;
+  displayName: string;
+  description?: string;
+  keyAttributeId: string;
+  keyType: string;
+  storageScope: string;
+  retentionDays?: number;
+}
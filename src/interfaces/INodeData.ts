@@ -27,6 +27,7 @@ export interface INodeData {
   parentContainer?: string;
   baseNodeName?: string;
   nodeValue?: string | number;
+  value?: string | number;
   displayDescription?: string;
   rootTree?: string;
   site?: Site;
@@ -0,0 +1,24 @@
+/**
+ * @file ICallResult.ts
+ * @fileoverview - An interface that describes the result of a call made with
+ * the OCAPIService class.
+ */
+
+import OCAPIFault from '../documents/OCAPIFault';
+
+/**
+ * @interface ICallResult - Describes what is returned from the makeCall()
+ * method of the OCAPIService class. A successful call resolves to the OCAPI
+ * response document. A failed call sets the `error` flag, an error message &
+ * the HTTP status, and includes the fault document when one was returned by
+ * the server. A result read from the metadata snapshot has the time it was
+ * stored set in `snapshotTime`.
+ */
+export interface ICallResult {
+  error?: boolean;
+  errorMessage?: string;
+  fault?: OCAPIFault;
+  snapshotTime?: number;
+  status?: number;
+  [propName: string]: any;
+}
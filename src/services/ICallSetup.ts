@@ -18,6 +18,7 @@ export enum HTTP_VERB {
  * method of the OCAPIService class.
  */
 export interface ICallSetup {
+  authorization?: string;
   body?: any;
   callName?: string;
   endpoint: string;
@@ -6,11 +6,18 @@
 
 /**
  * @interface IDWConfig - Provides a standard interface for the needed
- * configuration fields to connect to an SFCC sandbox instance.
+ * configuration fields to connect to an SFCC sandbox instance. Each named
+ * connection profile is described by this interface.
  */
 export interface IDWConfig {
   username: string;
   password: string;
   hostname: string;
   ok: boolean;
+  active?: boolean;
+  name?: string;
+  clientId?: string;
+  clientPassword?: string;
+  ocapiVersion?: string;
+  configFilename?: string;
 }
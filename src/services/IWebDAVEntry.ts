@@ -0,0 +1,19 @@
+/**
+ * @file IWebDAVEntry.ts
+ * @fileoverview - An interface that describes a file or folder that is listed
+ * with the listFolder() method of the WebDAVService class.
+ */
+
+/**
+ * @interface IWebDAVEntry - A file or folder on the server. The `path` is
+ * relative to the WebDAV root folder of the instance, for example:
+ * `Impex/src/instance/export.zip`.
+ */
+export interface IWebDAVEntry {
+  contentType: string;
+  isDirectory: boolean;
+  lastModified: Date;
+  name: string;
+  path: string;
+  size: number;
+}
@@ -0,0 +1,278 @@
+/**
+ * @file JobRunner.ts
+ * @fileoverview - Exports a class for starting jobs on the instance, and for
+ *    tracking their executions until they have finished.
+ */
+
+import { CancellationToken, ProgressLocation, window } from 'vscode';
+import { getJobRunnerOptions } from '../apiConfig';
+import JobExecution from '../documents/JobExecution';
+import IAPIDocument from '../interfaces/IAPIDocument';
+import { ICallSetup } from './ICallSetup';
+import { IDWConfig } from './IDWConfig';
+import { OCAPIService } from './OCAPIService';
+
+/**
+ * @interface IJobRunnerOptions - The polling settings of a job runner. All
+ *    times are in milliseconds.
+ */
+export interface IJobRunnerOptions {
+  pollInterval: number;
+  maxPollInterval: number;
+  timeout: number;
+}
+
+/**
+ * @type IJobProgress - A function that is called with the job execution each
+ *    time that its status is checked.
+ */
+export type IJobProgress = (jobExe: JobExecution) => void;
+
+/**
+ * @class JobRunner
+ * @classdesc - Starts job executions, and polls them until they have a
+ *    terminal status. The delay between the status checks grows with each
+ *    check up to the configured maximum, and tracking is stopped with an
+ *    error if the job doesn't finish before the configured timeout.
+ */
+export default class JobRunner {
+  /** The default settings used for any option that isn't configured. */
+  public static readonly DEFAULT_OPTIONS: IJobRunnerOptions = {
+    maxPollInterval: 10000,
+    pollInterval: 1000,
+    timeout: 600000
+  };
+
+  /** The factor that the delay between status checks grows by. */
+  public static readonly BACKOFF_FACTOR: number = 1.5;
+
+  public options: IJobRunnerOptions;
+  private ocapiService: OCAPIService;
+
+  /**
+   * Checks if the status of a job execution is a status of a job that has not
+   * finished yet.
+   *
+   * @param {string} status - The status of the job or step execution.
+   * @return {boolean} - Returns true if the job is pending or running.
+   */
+  public static isRunning(status: string): boolean {
+    const upperStatus = String(status).toUpperCase();
+    return upperStatus === 'PENDING' || upperStatus === 'RUNNING';
+  }
+
+  /**
+   * Checks if a finished job execution completed successfully.
+   *
+   * @param {JobExecution} jobExe - The job execution.
+   * @return {boolean} - Returns true if the exit status of the job is OK.
+   */
+  public static isSuccessful(jobExe: JobExecution): boolean {
+    return String(jobExe.exitStatus ? jobExe.exitStatus.code : jobExe.status)
+      .toUpperCase() === 'OK';
+  }
+
+  /**
+   * @constructor
+   * @param {Object} [options] - The polling settings. Defaults to the settings
+   *    of the VSCode configuration. Any missing setting uses the value from
+   *    DEFAULT_OPTIONS.
+   * @param {IDWConfig} [profile] - The connection profile to run the jobs on.
+   *    Defaults to the active connection profile.
+   */
+  constructor(options?: Partial<IJobRunnerOptions>, profile?: IDWConfig) {
+    this.options = Object.assign({}, JobRunner.DEFAULT_OPTIONS,
+      options || getJobRunnerOptions());
+    this.ocapiService = new OCAPIService(profile);
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Starts a job, and tracks its execution in a cancellable notification
+   * until it has finished.
+   *
+   * @param {string} jobId - The id of the job.
+   * @param {IAPIDocument} request - The OCAPI document to use as the body of
+   *    the request, for example a JobExecutionRequest.
+   * @param {string} [title] - The title of the notification.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or rejects if the job couldn't be started or
+   *    didn't finish before the timeout.
+   */
+  public async run(
+    jobId: string,
+    request: IAPIDocument,
+    title?: string
+  ): Promise<JobExecution> {
+    const jobExe = await this.start(jobId, request);
+    return this.trackWithProgress(jobExe, title || 'Running job ' + jobId);
+  }
+
+  /**
+   * Starts an execution of a job.
+   *
+   * @param {string} jobId - The id of the job.
+   * @param {IAPIDocument} request - The OCAPI document to use as the body of
+   *    the request.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    started job execution, or rejects with the error message of the call.
+   */
+  public async start(
+    jobId: string,
+    request: IAPIDocument
+  ): Promise<JobExecution> {
+    const callSetup: ICallSetup = await this.ocapiService.getCallSetup(
+      'jobs',
+      'executeJob',
+      {
+        body: JSON.stringify(request.getDocument()),
+        job_id: jobId
+      }
+    );
+
+    return new JobExecution(await OCAPIService.rejectOnError(
+      await this.ocapiService.makeCall(callSetup)));
+  }
+
+  /**
+   * Gets a job execution, including its step executions.
+   *
+   * @param {string} jobId - The id of the job.
+   * @param {string} executionId - The id of the job execution.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    job execution, or rejects with the error message of the call.
+   */
+  public async getExecution(
+    jobId: string,
+    executionId: string
+  ): Promise<JobExecution> {
+    const callSetup: ICallSetup = await this.ocapiService.getCallSetup(
+      'jobs',
+      'getExecution',
+      {
+        execution_id: executionId,
+        job_id: jobId
+      }
+    );
+
+    return new JobExecution(await OCAPIService.rejectOnError(
+      await this.ocapiService.makeCall(callSetup)));
+  }
+
+  /**
+   * Stops a running job execution.
+   *
+   * @param {string} jobId - The id of the job.
+   * @param {string} executionId - The id of the job execution.
+   * @return {Promise<void>} - Returns a promise that resolves when the server
+   *    has accepted the request, or rejects with the error message of the call.
+   */
+  public async cancel(jobId: string, executionId: string): Promise<void> {
+    const callSetup: ICallSetup = await this.ocapiService.getCallSetup(
+      'jobs',
+      'cancelExecution',
+      {
+        execution_id: executionId,
+        job_id: jobId
+      }
+    );
+
+    await OCAPIService.rejectOnError(
+      await this.ocapiService.makeCall(callSetup));
+  }
+
+  /**
+   * Polls a job execution until it has finished.
+   *
+   * @param {JobExecution} jobExe - The started job execution.
+   * @param {IJobProgress} [onProgress] - Called with the job execution each
+   *    time that its status is checked.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or rejects if the job doesn't finish before
+   *    the timeout.
+   */
+  public async track(
+    jobExe: JobExecution,
+    onProgress?: IJobProgress
+  ): Promise<JobExecution> {
+    /** @function sleep - Promisify the setTimeout method. */
+    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+    const startTime = Date.now();
+    let attempt = 0;
+
+    while (JobRunner.isRunning(jobExe.status)) {
+      if (onProgress) {
+        onProgress(jobExe);
+      }
+
+      // A timeout of 0 tracks the job until it has finished.
+      if (this.options.timeout &&
+        Date.now() - startTime >= this.options.timeout
+      ) {
+        return Promise.reject(new Error('The job ' + jobExe.jobId +
+          ' did not finish within ' + this.options.timeout / 1000 +
+          ' seconds'));
+      }
+
+      await sleep(this.getDelay(attempt++));
+      jobExe = await this.getExecution(jobExe.jobId, jobExe.id);
+    }
+
+    return jobExe;
+  }
+
+  /**
+   * Polls a job execution until it has finished, while showing its progress
+   * in a notification. Cancelling the notification stops the job execution.
+   *
+   * @param {JobExecution} jobExe - The started job execution.
+   * @param {string} title - The title of the notification.
+   * @return {Promise<JobExecution>} - Returns a promise that resolves to the
+   *    finished job execution, or rejects if the job doesn't finish before
+   *    the timeout.
+   */
+  public trackWithProgress(
+    jobExe: JobExecution,
+    title: string
+  ): Promise<JobExecution> {
+    return Promise.resolve(window.withProgress({
+      cancellable: true,
+      location: ProgressLocation.Notification,
+      title
+    }, (progress, token: CancellationToken) => {
+      token.onCancellationRequested(() => {
+        this.cancel(jobExe.jobId, jobExe.id).catch(err => {
+          window.showErrorMessage('Unable to stop the job execution: ' +
+            (err.message || err));
+        });
+      });
+
+      return this.track(jobExe, currentExe => {
+        const runningSteps = currentExe.stepExecutions.filter(
+          stepExe => JobRunner.isRunning(stepExe.status));
+
+        progress.report({
+          message: runningSteps.length ?
+            'Step: ' + runningSteps[0].stepId : currentExe.status
+        });
+      });
+    }));
+  }
+
+  /**
+   * Gets the delay before a status check. The delay grows by the backoff
+   * factor with each check, up to the maximum poll interval.
+   *
+   * @param {number} attempt - The zero based number of the status check.
+   * @return {number} - Returns the delay in milliseconds.
+   */
+  public getDelay(attempt: number): number {
+    return Math.min(
+      this.options.pollInterval * Math.pow(JobRunner.BACKOFF_FACTOR, attempt),
+      this.options.maxPollInterval
+    );
+  }
+}
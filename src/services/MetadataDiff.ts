@@ -0,0 +1,382 @@
+/**
+ * @file MetadataDiff.ts
+ * @fileoverview - Exports a class for comparing the custom attribute
+ *    definitions & attribute groups of object types from two metadata sources,
+ *    such as a sandbox instance & a local metadata XML file.
+ */
+
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
+import XMLHandler from '../xmlHandler/XMLHandler';
+
+/**
+ * @enum DIFF_STATUS - The status of an entry in the right side source compared
+ *    to the left side source.
+ */
+export enum DIFF_STATUS {
+  added = 'added',
+  changed = 'changed',
+  removed = 'removed'
+}
+
+/**
+ * @interface IObjectTypeMetadata - The metadata of an object type from one of
+ *    the compared sources.
+ */
+export interface IObjectTypeMetadata {
+  attributeDefinitions: ObjectAttributeDefinition[];
+  attributeGroups: ObjectAttributeGroup[];
+  objectType: string;
+}
+
+/**
+ * @interface IFieldDiff - A field that has a different value in each source.
+ *    An empty value means that the field is not set in that source.
+ */
+export interface IFieldDiff {
+  field: string;
+  left: string;
+  right: string;
+}
+
+/**
+ * @interface IDiffEntry - An attribute definition or attribute group that is
+ *    only in one of the sources, or that is different in each source.
+ */
+export interface IDiffEntry {
+  fields: IFieldDiff[];
+  id: string;
+  kind: 'attribute' | 'group';
+  status: DIFF_STATUS;
+}
+
+/**
+ * @interface IObjectTypeDiff - The differences of an object type.
+ */
+export interface IObjectTypeDiff {
+  entries: IDiffEntry[];
+  objectType: string;
+  status?: DIFF_STATUS;
+}
+
+/**
+ * @class MetadataDiff
+ * @classdesc - Compares the metadata of two sources. Entries that only exist
+ *    in the right side source are 'added', and entries that only exist in the
+ *    left side source are 'removed'. Only custom attribute definitions are
+ *    compared, since the system attributes are not part of the metadata files.
+ */
+export default class MetadataDiff {
+  /** The compared attribute definition fields & their display labels. */
+  public static readonly ATTRIBUTE_FIELDS = {
+    defaultValue: 'default value',
+    description: 'description',
+    displayName: 'display name',
+    externallyManaged: 'externally managed',
+    localizable: 'localizable',
+    mandatory: 'mandatory',
+    maxValue: 'max value',
+    minLength: 'min length',
+    minValue: 'min value',
+    orderRequired: 'order required',
+    regularExpression: 'regular expression',
+    siteSpecific: 'site specific',
+    valueType: 'value type',
+    visible: 'visible'
+  };
+
+  /** The compared attribute group fields & their display labels. */
+  public static readonly GROUP_FIELDS = {
+    description: 'description',
+    displayName: 'display name'
+  };
+
+  /** The attribute fields with values that are formatted by value type. */
+  public static readonly TYPED_FIELDS: string[] = [
+    'defaultValue',
+    'maxValue',
+    'minValue'
+  ];
+
+  /** The attribute fields that are only compared for some object types. */
+  public static readonly TYPE_SPECIFIC_FIELDS = {
+    orderRequired: 'order-required-flag',
+    siteSpecific: 'site-specific-flag',
+    visible: 'visible-flag'
+  };
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Compares the object types of two sources. Object types that only exist in
+   * one of the sources are included with the status set.
+   *
+   * @param {IObjectTypeMetadata[]} left - The object types of the left side.
+   * @param {IObjectTypeMetadata[]} right - The object types of the right side.
+   * @return {IObjectTypeDiff[]} - Returns the differences of each object type
+   *    that isn't the same in both sources.
+   */
+  public compare(
+    left: IObjectTypeMetadata[],
+    right: IObjectTypeMetadata[]
+  ): IObjectTypeDiff[] {
+    const typeIds = this.getIds(left.concat(right).map(type => type.objectType));
+
+    return typeIds.map(typeId => {
+      const leftType = left.filter(type => type.objectType === typeId)[0];
+      const rightType = right.filter(type => type.objectType === typeId)[0];
+
+      if (!leftType || !rightType) {
+        return {
+          entries: [],
+          objectType: typeId,
+          status: leftType ? DIFF_STATUS.removed : DIFF_STATUS.added
+        };
+      }
+
+      return this.compareObjectType(leftType, rightType);
+    }).filter(typeDiff => typeDiff.status || typeDiff.entries.length);
+  }
+
+  /**
+   * Compares the custom attribute definitions & the attribute groups of an
+   * object type.
+   *
+   * @param {IObjectTypeMetadata} left - The object type of the left side.
+   * @param {IObjectTypeMetadata} right - The object type of the right side.
+   * @return {IObjectTypeDiff} - Returns the differences of the object type.
+   */
+  public compareObjectType(
+    left: IObjectTypeMetadata,
+    right: IObjectTypeMetadata
+  ): IObjectTypeDiff {
+    const leftAttrs = left.attributeDefinitions.filter(attr => !attr.system);
+    const rightAttrs = right.attributeDefinitions.filter(attr => !attr.system);
+
+    const attrEntries = this.compareEntries(leftAttrs, rightAttrs, 'attribute',
+      (leftAttr, rightAttr) =>
+        this.compareAttributes(left.objectType, leftAttr, rightAttr));
+
+    const groupEntries = this.compareEntries(left.attributeGroups,
+      right.attributeGroups, 'group',
+      (leftGroup, rightGroup) => this.compareGroups(leftGroup, rightGroup));
+
+    return {
+      entries: attrEntries.concat(groupEntries),
+      objectType: left.objectType
+    };
+  }
+
+  /**
+   * Compares the fields & value definitions of an attribute definition.
+   *
+   * @param {string} objectType - The ID of the object type of the attribute.
+   * @param {ObjectAttributeDefinition} left - The left side definition.
+   * @param {ObjectAttributeDefinition} right - The right side definition.
+   * @return {IFieldDiff[]} - Returns the fields that are different.
+   */
+  public compareAttributes(
+    objectType: string,
+    left: ObjectAttributeDefinition,
+    right: ObjectAttributeDefinition
+  ): IFieldDiff[] {
+    const fieldDiffs: IFieldDiff[] = [];
+
+    Object.keys(MetadataDiff.ATTRIBUTE_FIELDS).filter(field =>
+      this.isFieldCompared(objectType, field)
+    ).forEach(field => {
+      const isTyped = MetadataDiff.TYPED_FIELDS.indexOf(field) > -1;
+
+      this.addFieldDiff(fieldDiffs, MetadataDiff.ATTRIBUTE_FIELDS[field],
+        this.getValue(left[field], isTyped ? left.valueType : ''),
+        this.getValue(right[field], isTyped ? right.valueType : ''));
+    });
+
+    // Compare the display value of each value definition by its value.
+    const leftValues = this.getValueMap(left);
+    const rightValues = this.getValueMap(right);
+
+    this.getIds(Object.keys(leftValues).concat(Object.keys(rightValues)))
+      .forEach(value => {
+        this.addFieldDiff(fieldDiffs, 'value definition: ' + value,
+          leftValues.hasOwnProperty(value) ? leftValues[value] : '',
+          rightValues.hasOwnProperty(value) ? rightValues[value] : '');
+      });
+
+    return fieldDiffs;
+  }
+
+  /**
+   * Compares the fields & the assigned attributes of an attribute group.
+   *
+   * @param {ObjectAttributeGroup} left - The left side group.
+   * @param {ObjectAttributeGroup} right - The right side group.
+   * @return {IFieldDiff[]} - Returns the fields that are different.
+   */
+  public compareGroups(
+    left: ObjectAttributeGroup,
+    right: ObjectAttributeGroup
+  ): IFieldDiff[] {
+    const fieldDiffs: IFieldDiff[] = [];
+
+    Object.keys(MetadataDiff.GROUP_FIELDS).forEach(field => {
+      this.addFieldDiff(fieldDiffs, MetadataDiff.GROUP_FIELDS[field],
+        this.getValue(left[field]), this.getValue(right[field]));
+    });
+
+    const leftIds = left.attributeDefinitions.map(attr => attr.id);
+    const rightIds = right.attributeDefinitions.map(attr => attr.id);
+
+    this.getIds(leftIds.concat(rightIds)).forEach(attrId => {
+      this.addFieldDiff(fieldDiffs, 'attribute: ' + attrId,
+        leftIds.indexOf(attrId) > -1 ? 'assigned' : '',
+        rightIds.indexOf(attrId) > -1 ? 'assigned' : '');
+    });
+
+    return fieldDiffs;
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Adds a field to the list of differences if the values are not the same.
+   *
+   * @param {IFieldDiff[]} fieldDiffs - The list of differences.
+   * @param {string} field - The display label of the field.
+   * @param {string} left - The left side value.
+   * @param {string} right - The right side value.
+   */
+  private addFieldDiff(
+    fieldDiffs: IFieldDiff[],
+    field: string,
+    left: string,
+    right: string
+  ) {
+    if (left !== right) {
+      fieldDiffs.push({ field, left, right });
+    }
+  }
+
+  /**
+   * Compares two lists of attribute definitions or attribute groups by ID.
+   *
+   * @param {Object[]} left - The left side entries.
+   * @param {Object[]} right - The right side entries.
+   * @param {string} kind - The kind of entries: 'attribute' or 'group'.
+   * @param {Function} compareFields - Compares the fields of an entry that is
+   *    in both lists.
+   * @return {IDiffEntry[]} - Returns the entries that are different.
+   */
+  private compareEntries<T extends { id: string }>(
+    left: T[],
+    right: T[],
+    kind: 'attribute' | 'group',
+    compareFields: (left: T, right: T) => IFieldDiff[]
+  ): IDiffEntry[] {
+    const entries: IDiffEntry[] = [];
+    const ids = this.getIds(left.concat(right).map(entry => entry.id));
+
+    ids.forEach(id => {
+      const leftEntry = left.filter(entry => entry.id === id)[0];
+      const rightEntry = right.filter(entry => entry.id === id)[0];
+
+      if (!leftEntry || !rightEntry) {
+        entries.push({
+          fields: [],
+          id,
+          kind,
+          status: leftEntry ? DIFF_STATUS.removed : DIFF_STATUS.added
+        });
+      } else {
+        const fields = compareFields(leftEntry, rightEntry);
+
+        if (fields.length) {
+          entries.push({ fields, id, kind, status: DIFF_STATUS.changed });
+        }
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * Gets the sorted, unique IDs of a list.
+   *
+   * @param {string[]} ids - The list of IDs.
+   * @return {string[]} - Returns the unique IDs.
+   */
+  private getIds(ids: string[]): string[] {
+    return ids.filter((id, i) => ids.indexOf(id) === i).sort();
+  }
+
+  /**
+   * Gets a comparable string for the value of a field. Localized strings are
+   * compared by their default value, and value definitions by their value.
+   * When the value type of the attribute is specified, numbers are compared by
+   * their numeric value and sets by their items, so that the typed values of
+   * the API match the text values of the metadata files.
+   *
+   * @param {any} value - The value of the field.
+   * @param {string} [valueType] - The value type of the attribute.
+   * @return {string} - Returns the string value, or an empty string if the
+   *    value is not set.
+   */
+  private getValue(value: any, valueType: string = ''): string {
+    if (value === null || typeof value === 'undefined') {
+      return '';
+    } else if (Array.isArray(value)) {
+      return value.map(item =>
+        this.getValue(item, valueType.replace('set_of_', ''))).join(', ');
+    } else if (typeof value === 'object') {
+      return typeof value.default === 'string' ?
+        value.default : this.getValue(value.value, valueType);
+    } else if (typeof value === 'string' && value.trim()) {
+      if (valueType.indexOf('set_of_') === 0) {
+        return this.getValue(value.split(',').map(item => item.trim())
+          .filter(item => item), valueType);
+      } else if (/int|double/.test(valueType) && !isNaN(Number(value))) {
+        return String(Number(value));
+      }
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Gets the default display values of the value definitions of an attribute
+   * keyed by the value.
+   *
+   * @param {ObjectAttributeDefinition} attr - The attribute definition.
+   * @return {Object} - Returns the display value of each value.
+   */
+  private getValueMap(attr: ObjectAttributeDefinition): any {
+    const valueMap = {};
+
+    (attr.valueDefinitions || []).forEach(valueDef => {
+      valueMap[this.getValue(valueDef.value, attr.valueType)] =
+        this.getValue(valueDef.displayValue);
+    });
+
+    return valueMap;
+  }
+
+  /**
+   * Checks if a field is compared for attributes of an object type. Some flags
+   * are only written to the metadata files for the object types that support
+   * them, so they are only compared for those object types.
+   *
+   * @param {string} objectType - The ID of the object type.
+   * @param {string} field - The attribute definition field.
+   * @return {boolean} - Returns true if the field is compared.
+   */
+  private isFieldCompared(objectType: string, field: string): boolean {
+    const xmlField = MetadataDiff.TYPE_SPECIFIC_FIELDS[field];
+
+    return !xmlField ||
+      XMLHandler.FIELD_ATTRIBUTE_MAP[xmlField].indexOf(objectType) > -1;
+  }
+}
@@ -5,12 +5,22 @@
  */
 
 import fetch from 'node-fetch';
-import { URLSearchParams } from 'url';
-import { window } from 'vscode';
-import { apiConfig, getAPIVersionForPath, getClientId, getClientPass } from '../apiConfig';
+import { URL, URLSearchParams } from 'url';
+import {
+  apiConfig,
+  getAPIVersionForPath,
+  getAuthServerURL,
+  getClientId,
+  getRetryOptions
+} from '../apiConfig';
+import CredentialProvider from '../authorization/CredentialProvider';
 import { OAuth2Token } from '../authorization/OAuth2Token';
+import TokenCache from '../authorization/TokenCache';
+import OCAPIFault from '../documents/OCAPIFault';
+import { ICallResult } from './ICallResult';
 import { HTTP_VERB, ICallSetup } from './ICallSetup';
 import { IDWConfig } from './IDWConfig';
+import RetryPolicy from './RetryPolicy';
 import ConfigHelper from '../helpers/ConfigHelper';
 
 /**
@@ -18,15 +28,65 @@ import ConfigHelper from '../helpers/ConfigHelper';
  * Proivdes REST request methods for making calls to the SFCC Open Commerce API.
  */
 export class OCAPIService {
+  /**
+   * The maximum number of instances that OCAPI will return for a single page
+   * of a list type resource. Larger values for the `count` parameter are not
+   * honored by the server.
+   */
+  public static readonly MAX_PAGE_SIZE: number = 200;
+
+  /** The maximum number of pages to request for a single paginated call. */
+  public static readonly MAX_PAGES: number = 100;
+
+  /** The tokens shared by all of the service instances. */
+  private static tokenCache: TokenCache = new TokenCache();
+
   public authToken: OAuth2Token = null;
   private ConfigHelper = new ConfigHelper();
-  private isGettingToken: boolean = false;
+  private credentialProvider = new CredentialProvider();
   private dwConfig: IDWConfig = {
     hostname: '',
     ok: false,
     password: '',
     username: ''
   };
+  private profile: IDWConfig = null;
+
+  /**
+   * Removes all of the cached OAuth 2.0 tokens so that new tokens are
+   * requested for subsequent calls. This is used when credentials change.
+   */
+  public static clearTokenCache() {
+    OCAPIService.tokenCache.clear();
+  }
+
+  /**
+   * Checks the result of a call, and rejects with the error message of the
+   * result if the call failed. When the server returned a fault, the message
+   * includes the fault type & the reason given by the server.
+   *
+   * @param {ICallResult} callResult - The result of a call to makeCall().
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the
+   *    result of a successful call.
+   */
+  public static rejectOnError(callResult: ICallResult): Promise<ICallResult> {
+    if (!callResult || callResult.error) {
+      return Promise.reject(callResult && callResult.errorMessage ?
+        callResult.errorMessage : 'Unknown error in OCAPI call');
+    }
+
+    return Promise.resolve(callResult);
+  }
+
+  /**
+   * @constructor
+   * @param {IDWConfig} [profile] - The connection profile to make the calls
+   *    to. When no profile is specified, the calls are made to the active
+   *    connection profile.
+   */
+  constructor(profile?: IDWConfig) {
+    this.profile = profile || null;
+  }
 
   /**
    * Returns an object literal that conforms to the ICallSetup interface so that
@@ -63,6 +123,10 @@ export class OCAPIService {
     let resConfig;
     let callConfig;
 
+    // Get the sandbox configuration first, so that the OCAPI version of the
+    // active connection profile is used for the call path.
+    this.dwConfig = await this.getDWConfig();
+
     // Check that calls to the specified resource have been configured in the
     // apiConig.ts configuration file.
     if (apiConfig.resources.hasOwnProperty(resourceName)) {
@@ -83,7 +147,7 @@ export class OCAPIService {
     }
 
     // Add the configured version to the path.
-    setupResult.endpoint += getAPIVersionForPath() + '/';
+    setupResult.endpoint += getAPIVersionForPath(this.dwConfig) + '/';
 
     // Check if the call name is configured for the specified resource.
     if (
@@ -121,19 +185,21 @@ export class OCAPIService {
       setupResult.method = callConfig.method;
     }
 
-    // Check that any required parameters are included in the callData.
-    if (callConfig && callConfig.params && callConfig.params.length) {
-      const usedParams = [];
+    const usedParams = [];
 
-      // If an explicit body was included, then append it to the seutp object.
-      if ('body' in callData) {
-        if (typeof callData.body === 'string') {
-          setupResult.body = encodeURIComponent(setupResult.body);
-        }
-        setupResult.body = callData.body;
-        usedParams.push('body');
+    // If an explicit body was included, then append it to the seutp object.
+    // Calls without configured parameters, like the search calls, can also
+    // include a body.
+    if (callData && 'body' in callData) {
+      if (typeof callData.body === 'string') {
+        setupResult.body = encodeURIComponent(setupResult.body);
       }
+      setupResult.body = callData.body;
+      usedParams.push('body');
+    }
 
+    // Check that any required parameters are included in the callData.
+    if (callConfig && callConfig.params && callConfig.params.length) {
       callConfig.params.forEach(param => {
         const replaceMe = '{' + param.id + '}';
         if (
@@ -203,10 +269,8 @@ export class OCAPIService {
       }
     }
 
-    // If the call setup was complete, then get the sandbox configuration.
+    // If the call setup was complete, then check the sandbox configuration.
     if (!setupResult.setupError) {
-      // Get the sandbox configuration.
-      this.dwConfig = await this.ConfigHelper.getDWConfig();
       if (!this.dwConfig.ok) {
         setupResult.setupError = true;
       } else {
@@ -218,6 +282,7 @@ export class OCAPIService {
         // Check if there needs to be an OAuth2 token included with the request.
         if (callConfig && typeof callConfig.authorization === 'string') {
           const token = await this.getOAuth2Token(callConfig.authorization);
+          setupResult.authorization = callConfig.authorization;
           setupResult.headers.Authorization =
             token.tokenType + ' ' + token.accessToken;
         }
@@ -235,6 +300,9 @@ export class OCAPIService {
    * from either the Digital Application Server for a BM user grant type, or
    * from the Digital Authorization Server for a client credentials grant type.
    *
+   * Tokens are cached by host, client Id, and grant type, and are reused until
+   * they are about to expire.
+   *
    * @param {string} tokenType - The type of token that is needed for the API
    *    call to be made. This should either be 'BM_USER' for a Business Manager
    *    User type of token, or 'CLIENT_CREDENTIALS' for a Client Credentials
@@ -243,32 +311,53 @@ export class OCAPIService {
    */
   public async getOAuth2Token(tokenType: string): Promise<OAuth2Token> {
     // Get the sandbox configuration.
-    this.dwConfig = await this.ConfigHelper.getDWConfig();
+    this.dwConfig = await this.getDWConfig();
     if (!this.dwConfig.ok) {
       console.error('DW config is no bueno...');
       return Promise.reject(
         'There was an error parsing the dw.json config file'
       );
-    } else if (
+    }
+
+    this.authToken = await OCAPIService.tokenCache.getToken(
+      this.getTokenCacheKey(tokenType),
+      () => this.requestOAuth2Token(tokenType)
+    );
+
+    return this.authToken;
+  }
+
+  /**
+   * Requests a new OAuth 2.0 token from the server that grants the specified
+   * type of token.
+   *
+   * @param {string} tokenType - The type of token: 'BM_USER' or
+   *    'CLIENT_CREDENTIALS'.
+   * @return {Promise<OAuth2Token>} - Returns a promise that resolves to the
+   *    new token.
+   */
+  private async requestOAuth2Token(tokenType: string): Promise<OAuth2Token> {
+    const credentials = await this.credentialProvider.getCredentials(
+      this.dwConfig);
+
+    if (
       tokenType === 'BM_USER' &&
       apiConfig.hasOwnProperty('clientId')
     ) {
-      this.isGettingToken = true;
-
       // Concatenate the pieces of the URL.
       const url =
         'https://' +
         this.dwConfig.hostname +
         '/dw/oauth2/access_token?client_id=' +
-        getClientId();
+        credentials.clientId;
 
       // Encode credentials to base64
       const encodedString = Buffer.from(
-        this.dwConfig.username +
+        credentials.username +
           ':' +
-          this.dwConfig.password +
+          credentials.password +
           ':' +
-          getClientPass()
+          credentials.clientPassword
       ).toString('base64');
       const authString = 'Basic ' + encodedString;
       const bodyParams = new URLSearchParams();
@@ -296,8 +385,7 @@ export class OCAPIService {
             }
           })
           .then(resp => {
-            this.authToken = new OAuth2Token(resp);
-            resolve(this.authToken);
+            resolve(new OAuth2Token(resp));
           })
           .catch(e => {
             reject(e);
@@ -306,19 +394,103 @@ export class OCAPIService {
 
       return result;
     } else if (tokenType === 'CLIENT_CREDENTIALS') {
-      /** @todo: implement getOAuth2Token for auth server authentication */
+      return this.requestClientCredentialsToken(
+        getAuthServerURL(),
+        credentials.clientId,
+        credentials.clientPassword
+      );
+    }
+
+    return Promise.reject('Unsupported OAuth2 token type: ' + tokenType);
+  }
+
+  /**
+   * Requests a client credentials grant type token from the authorization
+   * server. This type of token is issued to the API client itself, and does
+   * not require the credentials of a Business Manager user.
+   *
+   * @param {string} authServerURL - The URL of the access token endpoint of
+   *    the authorization server (i.e. Account Manager).
+   * @param {string} clientId - The Id of the API client.
+   * @param {string} clientPassword - The password of the API client.
+   * @return {Promise<OAuth2Token>} - Returns a promise that resolves to the
+   *    token returned from the authorization server.
+   */
+  public async requestClientCredentialsToken(
+    authServerURL: string,
+    clientId: string,
+    clientPassword: string
+  ): Promise<OAuth2Token> {
+    const encodedString = Buffer.from(
+      clientId + ':' + clientPassword
+    ).toString('base64');
+    const bodyParams = new URLSearchParams();
+    bodyParams.append('grant_type', 'client_credentials');
+
+    const resp = await fetch(authServerURL, {
+      body: bodyParams,
+      headers: {
+        Authorization: 'Basic ' + encodedString,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      method: 'POST'
+    });
+
+    if (!resp.ok) {
+      return Promise.reject('Could not retrieve Auth Token from ' +
+        'Authorization Server :: Code ' + resp.status);
     }
+
+    return new OAuth2Token(await resp.json());
+  }
+
+  /**
+   * Gets the connection profile that the calls of the service are made to.
+   *
+   * @return {Promise<IDWConfig>} - Returns a promise that resolves to the
+   *    profile of the service, or to the active connection profile.
+   */
+  private getDWConfig(): Promise<IDWConfig> {
+    return this.profile ?
+      Promise.resolve(this.profile) : this.ConfigHelper.getDWConfig();
   }
 
   /**
-   * Makes a call to the SFCC Open Commerce API using node-fetch.
+   * Gets the key used to cache the token of the specified type for the
+   * currently configured instance.
+   *
+   * @param {string} tokenType - The type of token: 'BM_USER' or
+   *    'CLIENT_CREDENTIALS'.
+   * @return {string} - Returns the token cache key.
+   */
+  private getTokenCacheKey(tokenType: string): string {
+    return TokenCache.getKey(this.dwConfig.hostname,
+      getClientId(this.dwConfig), tokenType, this.dwConfig.username);
+  }
+
+  /**
+   * Makes a call to the SFCC Open Commerce API using node-fetch. If the server
+   * rejects the OAuth 2.0 token of the call, then a new token is requested and
+   * the call is retried once. Transient errors of idempotent calls are retried
+   * with the configured retry policy, and calls that don't complete before
+   * the configured timeout are aborted.
+   *
+   * Failed calls are not shown to the user by the service. The result of a
+   * failed call has the `error` flag set, and includes an OCAPIFault instance
+   * when the server returned a fault document.
+   *
    * @param {ICallSetup} callSetup - The OCAPI call setup object that implements
    *    the interface ICallSetup.
-   * @return {Promise<any>} - Returns a promise that resolves to the returned &
-   *    formatted data from the API call or an error message if there was an
-   *    exception durring the execution of the API call.
+   * @param {boolean} [isRetry = false] - A flag to indicate that the call is
+   *    being retried with a new token.
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the
+   *    returned & formatted data from the API call or an error result if there
+   *    was an exception durring the execution of the API call.
    */
-  public async makeCall(callSetup: ICallSetup): Promise<any> {
+  public async makeCall(
+    callSetup: ICallSetup,
+    isRetry: boolean = false
+  ): Promise<ICallResult> {
     let params;
     if (callSetup.body && Object.keys(callSetup.body).length > 0) {
       params = {
@@ -333,23 +505,155 @@ export class OCAPIService {
       };
     }
 
-    return await fetch(callSetup.endpoint, params)
+    const retryPolicy = new RetryPolicy(getRetryOptions());
+
+    return await retryPolicy.execute(callSetup.method, signal =>
+      fetch(callSetup.endpoint, Object.assign({ signal }, params)))
       .then(resp => {
-        if (resp.ok && resp.statusText.toLowerCase() === 'no content') {
+        if (resp.status === 401 && callSetup.authorization && !isRetry) {
+          return this.retryWithNewToken(callSetup);
+        } else if (resp.ok && resp.statusText.toLowerCase() === 'no content') {
           return {};
         } else if (resp.ok) {
           return resp.json();
         } else {
-          const errMsg = resp.statusText + ' :: Code ' + resp.status;
-          window.showErrorMessage('ERROR in OCAPI call: ' + errMsg);
-          return { error: true, errorMessage: errMsg };
+          return this.getErrorResult(resp);
         }
       })
       .catch(err => {
         const errMsg = 'There was an error making the Open Commerce' +
         ' API call: ' + err.name + '\n' + 'Message: ' + err.message;
-        window.showErrorMessage('ERROR in OCAPI call: ' + errMsg);
         return { error: true, errorMessage: errMsg };
       });
   }
+
+  /**
+   * Gets the error result for a failed call. The fault document is parsed from
+   * the response body if the server included one.
+   *
+   * @param {Response} resp - The node-fetch response of the failed call.
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the
+   *    error result.
+   */
+  private async getErrorResult(resp): Promise<ICallResult> {
+    const result: ICallResult = {
+      error: true,
+      errorMessage: resp.statusText + ' :: Code ' + resp.status,
+      status: resp.status
+    };
+
+    try {
+      const body = JSON.parse(await resp.text());
+
+      if (OCAPIFault.isFault(body)) {
+        result.fault = new OCAPIFault(body, resp.status);
+        result.errorMessage = result.fault.toString();
+      }
+    } catch (e) {
+      // The body was not a JSON document, use the HTTP status.
+    }
+
+    return result;
+  }
+
+  /**
+   * Removes the token used for a call from the cache, and then retries the call
+   * with a newly requested token.
+   *
+   * @param {ICallSetup} callSetup - The setup of the call that was rejected.
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the result of
+   *    the retried call.
+   */
+  private async retryWithNewToken(
+    callSetup: ICallSetup
+  ): Promise<ICallResult> {
+    OCAPIService.tokenCache.invalidate(
+      this.getTokenCacheKey(callSetup.authorization));
+
+    const token = await this.getOAuth2Token(callSetup.authorization);
+    const retrySetup: ICallSetup = Object.assign({}, callSetup, {
+      headers: Object.assign({}, callSetup.headers, {
+        Authorization: token.tokenType + ' ' + token.accessToken
+      })
+    });
+
+    return this.makeCall(retrySetup, true);
+  }
+
+  /**
+   * Makes a call to a list type OCAPI resource and requests each of the
+   * remaining pages of the result until all of the instances have been
+   * retrieved. The `next` link of each page is followed when it is included in
+   * the response, otherwise the `start` & `count` query parameters are used to
+   * request the next page until the `total` has been reached.
+   *
+   * @param {ICallSetup} callSetup - The OCAPI call setup object for the first
+   *    page of the results.
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the
+   *    result of the first page with the `data` arrays of all of the pages
+   *    merged into its `data` member, or the error result of the first failed
+   *    call.
+   */
+  public async makePaginatedCall(callSetup: ICallSetup): Promise<ICallResult> {
+    const result = await this.makeCall(callSetup);
+
+    // Only list type results can be paginated.
+    if (!result || result.error || !Array.isArray(result.data)) {
+      return result;
+    }
+
+    let data: any[] = result.data;
+    let page = result;
+    let pageCount = 1;
+
+    while (pageCount < OCAPIService.MAX_PAGES) {
+      const hasTotal = typeof page.total === 'number';
+      const isComplete = hasTotal ? data.length >= page.total : !page.next;
+      if (isComplete) {
+        break;
+      }
+
+      const pageSetup: ICallSetup = Object.assign({}, callSetup, {
+        endpoint: page.next ||
+          this.getPageEndpoint(callSetup.endpoint, data.length, page.count)
+      });
+
+      page = await this.makeCall(pageSetup);
+
+      if (!page || page.error) {
+        return page;
+      } else if (!Array.isArray(page.data) || !page.data.length) {
+        break;
+      }
+
+      data = data.concat(page.data);
+      pageCount++;
+    }
+
+    result.data = data;
+    result.count = data.length;
+    delete result.next;
+
+    return result;
+  }
+
+  /**
+   * Gets the endpoint for requesting a page of a list type resource by setting
+   * the `start` & `count` query parameters of the original endpoint.
+   *
+   * @param {string} endpoint - The endpoint used to request the first page.
+   * @param {number} start - The index of the first instance of the page.
+   * @param {number} [count] - The number of instances to request.
+   * @return {string} - Returns the endpoint for the requested page.
+   */
+  private getPageEndpoint(endpoint: string, start: number, count?: number): string {
+    const url = new URL(endpoint);
+    url.searchParams.set('start', String(start));
+
+    if (count) {
+      url.searchParams.set('count', String(count));
+    }
+
+    return url.toString();
+  }
 }
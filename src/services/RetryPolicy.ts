@@ -0,0 +1,201 @@
+/**
+ * @file RetryPolicy.ts
+ * @fileoverview - Exports a class for retrying requests that fail with a
+ *    transient error, and for aborting requests that take too long.
+ */
+
+import AbortController from 'abort-controller';
+import { Response } from 'node-fetch';
+import { HTTP_VERB } from './ICallSetup';
+
+/**
+ * @interface IRetryOptions - The settings of a retry policy. All times are in
+ *    milliseconds.
+ */
+export interface IRetryOptions {
+  maxRetries: number;
+  retryDelay: number;
+  maxDelay: number;
+  timeout: number;
+}
+
+/**
+ * @class RetryPolicy
+ * @classdesc - Retries requests with an exponential backoff & random jitter
+ *    when the server responds with a rate limit or server error status, or
+ *    when the connection fails. Only idempotent HTTP verbs are retried so that
+ *    a request is never applied twice on the server. Each attempt is aborted
+ *    if it doesn't complete before the configured timeout, including the time
+ *    that it takes to read the response body.
+ */
+export default class RetryPolicy {
+  /** The default settings used for any option that isn't configured. */
+  public static readonly DEFAULT_OPTIONS: IRetryOptions = {
+    maxDelay: 30000,
+    maxRetries: 3,
+    retryDelay: 500,
+    timeout: 30000
+  };
+
+  /** The HTTP verbs that can be safely sent more than once. */
+  public static readonly IDEMPOTENT_VERBS: string[] = [
+    HTTP_VERB.delete,
+    HTTP_VERB.get,
+    HTTP_VERB.put
+  ];
+
+  /** The response status codes that indicate a transient error. */
+  public static readonly RETRY_STATUS_CODES: number[] = [
+    429, 500, 502, 503, 504
+  ];
+
+  public options: IRetryOptions;
+
+  /**
+   * @constructor
+   * @param {Object} [options] - The settings of the policy. Any missing
+   *    setting uses the value from DEFAULT_OPTIONS.
+   */
+  constructor(options?: Partial<IRetryOptions>) {
+    this.options = Object.assign({}, RetryPolicy.DEFAULT_OPTIONS, options);
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Makes a request, and retries it if it fails with a transient error. The
+   * request function is called with an AbortSignal for each attempt, which
+   * is signaled when the attempt times out.
+   *
+   * @param {string} method - The HTTP verb of the request.
+   * @param {Function} request - A function that makes the request with the
+   *    signal it is called with, and returns a promise that resolves to the
+   *    node-fetch response.
+   * @return {Promise<any>} - Returns a promise that resolves to the response of
+   *    the last attempt, or rejects with the error of the last attempt.
+   */
+  public async execute(
+    method: string,
+    request: (signal: any) => Promise<any>
+  ): Promise<any> {
+    const maxRetries = this.isRetryable(method) ? this.options.maxRetries : 0;
+    let attempt = 0;
+
+    while (true) {
+      let resp;
+
+      try {
+        resp = await this.makeAttempt(request);
+      } catch (e) {
+        if (attempt >= maxRetries) {
+          return Promise.reject(e);
+        }
+      }
+
+      if (resp && (attempt >= maxRetries ||
+        RetryPolicy.RETRY_STATUS_CODES.indexOf(resp.status) === -1)
+      ) {
+        return resp;
+      }
+
+      await this.wait(this.getDelay(attempt,
+        resp ? resp.headers.get('Retry-After') : null));
+      attempt++;
+    }
+  }
+
+  /**
+   * Checks if requests with the specified HTTP verb can be retried.
+   *
+   * @param {string} method - The HTTP verb of the request.
+   * @return {boolean} - Returns true if the verb is idempotent.
+   */
+  public isRetryable(method: string): boolean {
+    return RetryPolicy.IDEMPOTENT_VERBS.indexOf(
+      String(method).toUpperCase()) > -1;
+  }
+
+  /**
+   * Gets the number of milliseconds to wait before the next attempt. The
+   * value of a `Retry-After` header is used when the server sends one, up to
+   * the configured maximum delay. Otherwise the delay doubles with each
+   * attempt, and a random jitter is used so that concurrent requests don't
+   * all retry at the same moment.
+   *
+   * @param {number} attempt - The zero based number of the failed attempt.
+   * @param {string} [retryAfter] - The `Retry-After` header of the response,
+   *    either as a number of seconds or as an HTTP date.
+   * @return {number} - Returns the delay in milliseconds.
+   */
+  public getDelay(attempt: number, retryAfter?: string): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const retryTime = isNaN(seconds) ?
+        Date.parse(retryAfter) - Date.now() : seconds * 1000;
+
+      if (!isNaN(retryTime)) {
+        return Math.min(this.options.maxDelay, Math.max(0, retryTime));
+      }
+    }
+
+    const backoff = Math.min(this.options.maxDelay,
+      this.options.retryDelay * Math.pow(2, attempt));
+
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Makes a single attempt of a request that is aborted after the timeout.
+   * The body of the response is read before the timer is cleared, so that a
+   * server which stalls after sending the headers is also timed out.
+   *
+   * @param {Function} request - The function that makes the request.
+   * @return {Promise<any>} - Returns a promise that resolves to the response,
+   *    with the body buffered in memory.
+   */
+  private async makeAttempt(
+    request: (signal: any) => Promise<any>
+  ): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const resp = await request(controller.signal);
+
+      return resp && typeof resp.buffer === 'function' ?
+        new Response(await resp.buffer(), {
+          headers: resp.headers,
+          status: resp.status,
+          statusText: resp.statusText,
+          url: resp.url
+        }) : resp;
+    } catch (e) {
+      if (e && e.name === 'AbortError') {
+        const timeoutError = new Error('The request timed out after ' +
+          this.options.timeout + 'ms');
+        timeoutError.name = 'TimeoutError';
+        throw timeoutError;
+      }
+
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Waits for the specified number of milliseconds.
+   *
+   * @param {number} ms - The number of milliseconds to wait.
+   * @return {Promise<void>} - Returns a promise that resolves after the wait.
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
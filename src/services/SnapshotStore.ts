@@ -0,0 +1,289 @@
+/**
+ * @file SnapshotStore.ts
+ * @fileoverview - Exports a class for keeping a persistent snapshot of the
+ *    metadata returned from OCAPI so that the tree view can be rendered
+ *    instantly, and while the sandbox instance is not available.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtensionContext } from 'vscode';
+import ConfigHelper from '../helpers/ConfigHelper';
+import { ICallResult } from './ICallResult';
+
+/**
+ * @interface ISnapshotEntry - A stored call result & the time it was stored.
+ */
+interface ISnapshotEntry {
+  result: ICallResult;
+  timestamp: number;
+}
+
+/**
+ * @interface ISnapshot - All of the stored call results for one profile.
+ */
+interface ISnapshot {
+  [key: string]: ISnapshotEntry;
+}
+
+/**
+ * @class SnapshotStore
+ * @classdesc - Stores the results of list type OCAPI calls in a JSON file per
+ *    connection profile in the extension's global storage folder. A stored
+ *    result is returned immediately, and is then refreshed from the server in
+ *    the background. When the refreshed data differs from the snapshot, the
+ *    onRefresh callback is called so that the view can be re-rendered.
+ */
+export default class SnapshotStore {
+  private static storagePath: string = '';
+  private static snapshots: Map<string, ISnapshot> = new Map();
+
+  private onRefresh: () => void;
+  private refreshedKeys: Set<string> = new Set();
+
+  /**
+   * Sets the folder that the snapshot files are written to.
+   *
+   * @param {ExtensionContext} context - The extension context instance.
+   */
+  public static initialize(context: ExtensionContext) {
+    SnapshotStore.storagePath = context.globalStoragePath;
+  }
+
+  /**
+   * Adds the age of a snapshot to the description of a tree node.
+   *
+   * @param {string} description - The description of the node.
+   * @param {ICallResult} callResult - The result that the node was created
+   *    from.
+   * @return {string} - Returns the description with the age of the snapshot,
+   *    or the unchanged description if the result is not from a snapshot.
+   */
+  public static addAgeToDescription(
+    description: string,
+    callResult: ICallResult
+  ): string {
+    if (!callResult || !callResult.snapshotTime) {
+      return description;
+    }
+
+    const age = '(' + SnapshotStore.getAgeLabel(callResult.snapshotTime) + ')';
+    return description && description.trim() ? description + ' ' + age : age;
+  }
+
+  /**
+   * Gets a short label for the age of a snapshot.
+   *
+   * @param {number} timestamp - The time that the snapshot was stored.
+   * @return {string} - Returns the age label, for example: '5 min ago'.
+   */
+  public static getAgeLabel(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+
+    if (minutes < 1) {
+      return 'just now';
+    } else if (minutes < 60) {
+      return minutes + ' min ago';
+    } else if (minutes < 60 * 24) {
+      return Math.floor(minutes / 60) + ' h ago';
+    }
+
+    return Math.floor(minutes / (60 * 24)) + ' d ago';
+  }
+
+  /**
+   * @constructor
+   * @param {Function} onRefresh - Called when a background refresh has
+   *    stored data that is different from the snapshot that was returned.
+   */
+  constructor(onRefresh: () => void) {
+    this.onRefresh = onRefresh;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the result of a call from the snapshot of the active profile, or
+   * makes the call if there is no snapshot. Each key is refreshed from the
+   * server once in the background until reset() is called, so that the
+   * re-render triggered by a refresh doesn't cause another refresh.
+   *
+   * @param {string} key - The key of the call result in the snapshot.
+   * @param {Function} makeCall - A function that sets up & makes the call,
+   *    and returns a promise that resolves to the call result.
+   * @return {Promise<ICallResult>} - Returns a promise that resolves to the
+   *    stored result with the `snapshotTime` set, or to the result of the call.
+   */
+  public async getResult(
+    key: string,
+    makeCall: () => Promise<ICallResult>
+  ): Promise<ICallResult> {
+    const profileName = ConfigHelper.getActiveProfileName();
+    const snapshot = profileName ? await this.getSnapshot(profileName) : null;
+    const entry = snapshot ? snapshot[key] : null;
+
+    if (!entry) {
+      this.refreshedKeys.add(key);
+      const callResult = await makeCall();
+      await this.storeResult(profileName, key, callResult);
+      return callResult;
+    }
+
+    if (!this.refreshedKeys.has(key)) {
+      this.refreshedKeys.add(key);
+      this.refreshInBackground(profileName, key, entry, makeCall);
+    }
+
+    return Object.assign({}, entry.result, { snapshotTime: entry.timestamp });
+  }
+
+  /**
+   * Allows each of the stored results to be refreshed from the server again
+   * the next time that they are requested.
+   */
+  public reset() {
+    this.refreshedKeys.clear();
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the file path of the snapshot of a profile.
+   *
+   * @param {string} profileName - The name of the connection profile.
+   * @return {string} - Returns the path of the JSON file.
+   */
+  private getFilePath(profileName: string): string {
+    return path.join(SnapshotStore.storagePath,
+      'snapshot-' + encodeURIComponent(profileName) + '.json');
+  }
+
+  /**
+   * Gets the snapshot of a profile, reading it from the file if it hasn't
+   * been loaded yet.
+   *
+   * @param {string} profileName - The name of the connection profile.
+   * @return {Promise<ISnapshot>} - Returns a promise that resolves to the
+   *    snapshot, or an empty snapshot if no file has been written.
+   */
+  private getSnapshot(profileName: string): Promise<ISnapshot> {
+    if (SnapshotStore.snapshots.has(profileName)) {
+      return Promise.resolve(SnapshotStore.snapshots.get(profileName));
+    }
+
+    if (!SnapshotStore.storagePath) {
+      SnapshotStore.snapshots.set(profileName, {});
+      return Promise.resolve(SnapshotStore.snapshots.get(profileName));
+    }
+
+    return new Promise(resolve => {
+      fs.readFile(this.getFilePath(profileName), 'utf8', (err, json) => {
+        let snapshot: ISnapshot = {};
+
+        if (!err) {
+          try {
+            snapshot = JSON.parse(json);
+          } catch (e) {
+            console.error('Unable to parse metadata snapshot: ', e);
+          }
+        }
+
+        // Keep the first loaded snapshot if another caller loaded it first.
+        if (!SnapshotStore.snapshots.has(profileName)) {
+          SnapshotStore.snapshots.set(profileName, snapshot);
+        }
+
+        resolve(SnapshotStore.snapshots.get(profileName));
+      });
+    });
+  }
+
+  /**
+   * Makes the call for a stored result, and stores the new result. The view
+   * is only refreshed if the data has changed.
+   *
+   * @param {string} profileName - The name of the connection profile that the
+   *    result was read for.
+   * @param {string} key - The key of the call result in the snapshot.
+   * @param {ISnapshotEntry} entry - The stored entry that was returned.
+   * @param {Function} makeCall - The function that makes the call.
+   */
+  private async refreshInBackground(
+    profileName: string,
+    key: string,
+    entry: ISnapshotEntry,
+    makeCall: () => Promise<ICallResult>
+  ) {
+    try {
+      const callResult = await makeCall();
+      const isStored = await this.storeResult(profileName, key, callResult);
+
+      if (isStored &&
+        JSON.stringify(callResult.data) !== JSON.stringify(entry.result.data)
+      ) {
+        this.onRefresh();
+      }
+    } catch (e) {
+      // Keep showing the snapshot while the instance is not available.
+    }
+  }
+
+  /**
+   * Stores a successful call result in the snapshot of a profile, and writes
+   * the snapshot to its file. The profile is passed in, since the active
+   * profile may have been switched while the call was made.
+   *
+   * @param {string} profileName - The name of the connection profile.
+   * @param {string} key - The key of the call result in the snapshot.
+   * @param {ICallResult} callResult - The result to store.
+   * @return {Promise<boolean>} - Returns a promise that resolves to true if
+   *    the result was stored.
+   */
+  private async storeResult(
+    profileName: string,
+    key: string,
+    callResult: ICallResult
+  ): Promise<boolean> {
+    if (!profileName || !callResult || callResult.error) {
+      return false;
+    }
+
+    const snapshot = await this.getSnapshot(profileName);
+    snapshot[key] = { result: callResult, timestamp: Date.now() };
+
+    if (SnapshotStore.storagePath) {
+      await this.writeSnapshot(profileName, snapshot);
+    }
+
+    return true;
+  }
+
+  /**
+   * Writes the snapshot of a profile to its file in the global storage folder.
+   *
+   * @param {string} profileName - The name of the connection profile.
+   * @param {ISnapshot} snapshot - The snapshot to write.
+   * @return {Promise<void>} - Returns a promise that resolves when the file
+   *    has been written. Write errors are logged, but not rejected.
+   */
+  private writeSnapshot(profileName: string, snapshot: ISnapshot): Promise<void> {
+    return new Promise(resolve => {
+      fs.mkdir(SnapshotStore.storagePath, () => {
+        fs.writeFile(
+          this.getFilePath(profileName),
+          JSON.stringify(snapshot),
+          err => {
+            if (err) {
+              console.error('Unable to write metadata snapshot: ', err);
+            }
+            resolve();
+          }
+        );
+      });
+    });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @file WebDAVError.ts
+ * @fileoverview - Exports the error class that the WebDAVService rejects with
+ *    when a request fails.
+ */
+
+/**
+ * @class WebDAVError
+ * @classdesc - An error of a WebDAV request. The `status` is the HTTP status
+ *    code of the response, or 0 if no response was received because the
+ *    request could not be sent.
+ */
+export default class WebDAVError extends Error {
+  public method: string;
+  public serverPath: string;
+  public status: number;
+
+  /**
+   * @constructor
+   * @param {string} method - The HTTP method of the request.
+   * @param {string} serverPath - The path of the file or folder on the server.
+   * @param {number} status - The HTTP status code, or 0.
+   * @param {string} reason - The status text of the response, or the message
+   *    of the error that prevented the request.
+   */
+  constructor(
+    method: string,
+    serverPath: string,
+    status: number,
+    reason: string
+  ) {
+    super(method + ' ' + serverPath + ' failed: ' + reason +
+      (status ? ' :: Code ' + status : ''));
+
+    this.name = 'WebDAVError';
+    this.method = method;
+    this.serverPath = serverPath;
+    this.status = status;
+  }
+
+  /** @member {boolean} isNotFound - True if the file or folder doesn't exist. */
+  get isNotFound(): boolean { return this.status === 404; }
+
+  /** @member {boolean} isUnauthorized - True if the credentials were refused. */
+  get isUnauthorized(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
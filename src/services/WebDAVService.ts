@@ -1,7 +1,11 @@
+import * as fs from 'fs';
 import fetch from 'node-fetch';
-import { IDWConfig } from './IDWConfig';
+import * as xml2js from 'xml2js';
+import CredentialProvider from '../authorization/CredentialProvider';
 import ConfigHelper from '../helpers/ConfigHelper';
-import { workspace, WorkspaceFolder } from 'vscode';
+import { IDWConfig } from './IDWConfig';
+import { IWebDAVEntry } from './IWebDAVEntry';
+import WebDAVError from './WebDAVError';
 
 /**
  * WebDAVService.ts
@@ -9,57 +13,373 @@ import { workspace, WorkspaceFolder } from 'vscode';
  * protocol to upload/download files to/from the IMPEX & other server dirs.
  */
 
+/**
+ * @type IWebDAVProgress - A function that is called as the data of a file
+ *    transfer is sent or received. The total is 0 when the size is unknown.
+ */
+export type IWebDAVProgress = (transferred: number, total: number) => void;
+
 /**
  * @class
- * @classdesc - Service for making WebDAV requests.
+ * @classdesc - Service for making WebDAV requests. The server paths passed to
+ *    the methods are relative to the WebDAV root folder of the instance, for
+ *    example: `Impex/src/instance/export.zip`. Failed requests are rejected
+ *    with a WebDAVError.
  */
 export default class WebDAVService {
+  /** The path of the WebDAV root folder on the instance. */
+  public static readonly ROOT_PATH: string =
+    '/on/demandware.servlet/webdav/Sites/';
+
+  /** The body of the PROPFIND requests used for listing folders. */
+  public static readonly PROPFIND_BODY: string =
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<propfind xmlns="DAV:"><prop>' +
+    '<getcontentlength/><getcontenttype/><getlastmodified/><resourcetype/>' +
+    '</prop></propfind>';
+
   private ConfigHelper = new ConfigHelper();
+  private credentialProvider = new CredentialProvider();
   private dwConfig: IDWConfig = {
     hostname: '',
     ok: false,
     password: '',
     username: ''
   };
+  private profile: IDWConfig = null;
+
+  /**
+   * @constructor
+   * @param {IDWConfig} [profile] - The connection profile to make the requests
+   *    to. When no profile is specified, the requests are made to the active
+   *    connection profile.
+   */
+  constructor(profile?: IDWConfig) {
+    this.profile = profile || null;
+  }
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Lists the files & folders in a folder on the server.
+   *
+   * @param {string} folderPath - The path of the folder.
+   * @return {Promise<IWebDAVEntry[]>} - Returns a promise that resolves to the
+   *    entries of the folder, with the folders listed first.
+   */
+  public async listFolder(folderPath: string): Promise<IWebDAVEntry[]> {
+    const resp = await this.request('PROPFIND', folderPath, {
+      body: WebDAVService.PROPFIND_BODY,
+      headers: {
+        'Content-Type': 'application/xml',
+        'Depth': '1'
+      }
+    });
+
+    const entries = await this.parseMultistatus(await resp.text());
+    const normalizedPath = this.normalizePath(folderPath);
+
+    return entries.filter(entry => entry.path !== normalizedPath).sort(
+      (a, b) => a.isDirectory === b.isDirectory ?
+        a.name.localeCompare(b.name) : (a.isDirectory ? -1 : 1));
+  }
 
-  public async getFileFromServer(serverPath: string) {
-    const fs = require('fs');
-    const path = require('path');
-    const util = require('util');
-    const zlib = require('zlib')
-    const chunks: Buffer[] = [];
-    // Get the config from the dw.json file for auth.
-    this.dwConfig = await this.ConfigHelper.getDWConfig();
-    if (!this.dwConfig.ok || !workspace.workspaceFolders) {
-      return Promise.reject('Config is invalid');
+  /**
+   * Downloads a file from the server, and streams it to a local file.
+   *
+   * @param {string} serverPath - The path of the file on the server.
+   * @param {string} targetPath - The path of the local file to write. The
+   *    folder of the file must exist, and an existing file is replaced.
+   * @param {IWebDAVProgress} [onProgress] - Called as the data is received.
+   * @return {Promise<string>} - Returns a promise that resolves to the path of
+   *    the local file when the download is complete.
+   */
+  public async download(
+    serverPath: string,
+    targetPath: string,
+    onProgress?: IWebDAVProgress
+  ): Promise<string> {
+    const resp = await this.request('GET', serverPath, {});
+    const total = parseInt(resp.headers.get('Content-Length'), 10) || 0;
+    let transferred = 0;
+
+    if (onProgress) {
+      resp.body.on('data', (chunk: Buffer) => {
+        transferred += chunk.length;
+        onProgress(transferred, total);
+      });
     }
 
-    // Set the hostname from dw.json to URL.
-    const url = serverPath.replace('{0}', this.dwConfig.hostname);
+    return new Promise<string>((resolve, reject) => {
+      const fileStream = fs.createWriteStream(targetPath);
+      const onError = e => reject(
+        new WebDAVError('GET', serverPath, 0, e.message));
+
+      resp.body.on('error', onError);
+      fileStream.on('error', onError);
+      fileStream.on('finish', () => resolve(targetPath));
+      resp.body.pipe(fileStream);
+    });
+  }
+
+  /**
+   * Reads the contents of a file on the server from a byte offset. This is
+   * used for following files that are appended to, like the log files of
+   * running jobs.
+   *
+   * @param {string} serverPath - The path of the file on the server.
+   * @param {number} [offset = 0] - The byte offset to read the file from.
+   * @return {Promise<Buffer>} - Returns a promise that resolves to the bytes
+   *    of the file after the offset, which are empty if the file has no new
+   *    data.
+   */
+  public async readFile(
+    serverPath: string,
+    offset: number = 0
+  ): Promise<Buffer> {
+    let resp;
+
+    try {
+      resp = await this.request('GET', serverPath, offset ? {
+        headers: { Range: 'bytes=' + offset + '-' }
+      } : {});
+    } catch (e) {
+      // The server responds with 416 Range Not Satisfiable if the file has no
+      // data after the offset.
+      if (e instanceof WebDAVError && e.status === 416) {
+        return Buffer.alloc(0);
+      }
 
-    // Get Basic Auth credentials & encode to base64.
-    let authCreds = this.dwConfig.username + ':' + this.dwConfig.password;
-    authCreds = Buffer.from(authCreds).toString('base64');
+      throw e;
+    }
+
+    // Servers that ignore the Range header respond with the whole file.
+    const contents: Buffer = await resp.buffer();
+    return resp.status === 206 ? contents : contents.slice(offset);
+  }
+
+  /**
+   * Uploads a local file, or the contents of a buffer, to the server. An
+   * existing file with the same path is replaced.
+   *
+   * @param {string} serverPath - The path of the file on the server.
+   * @param {string|Buffer} source - The path of the local file, or the
+   *    contents of the file.
+   * @param {IWebDAVProgress} [onProgress] - Called as the data is sent.
+   * @return {Promise<void>} - Returns a promise that resolves when the file
+   *    has been uploaded.
+   */
+  public async upload(
+    serverPath: string,
+    source: string | Buffer,
+    onProgress?: IWebDAVProgress
+  ): Promise<void> {
+    let body: any = source;
+    let total = Buffer.isBuffer(source) ? source.length : 0;
+
+    if (typeof source === 'string') {
+      total = fs.statSync(source).size;
+      body = fs.createReadStream(source);
+      let transferred = 0;
+
+      if (onProgress) {
+        body.on('data', (chunk: Buffer) => {
+          transferred += chunk.length;
+          onProgress(transferred, total);
+        });
+      }
+    }
 
-    // Setup the call.
-    const options = {
+    await this.request('PUT', serverPath, {
+      body,
       headers: {
-        'Authorization': 'Basic ' + authCreds
+        'Content-Length': String(total),
+        'Content-Type': 'application/octet-stream'
       }
-    };
+    });
 
-    const streamPipe = util.promisify(require('stream').pipeline);
-    const currentPath = !workspace.workspaceFolders ? workspace.rootPath :
-      workspace.workspaceFolders[0].uri.fsPath;
+    // The progress of a buffer is only reported once it has been sent.
+    if (onProgress && Buffer.isBuffer(source)) {
+      onProgress(total, total);
+    }
+  }
+
+  /**
+   * Deletes a file, or a folder & all of its contents, from the server.
+   *
+   * @param {string} serverPath - The path of the file or folder.
+   * @return {Promise<void>} - Returns a promise that resolves when the file or
+   *    folder has been deleted.
+   */
+  public async delete(serverPath: string): Promise<void> {
+    await this.request('DELETE', serverPath, {});
+  }
 
-    const filePath = currentPath + path.sep + 'sfccExport.zip';
+  /**
+   * Creates a folder on the server. The parent folder must exist. If the
+   * folder already exists, then the promise is resolved.
+   *
+   * @param {string} folderPath - The path of the folder.
+   * @return {Promise<void>} - Returns a promise that resolves when the folder
+   *    exists.
+   */
+  public async mkdir(folderPath: string): Promise<void> {
+    try {
+      await this.request('MKCOL', folderPath, {});
+    } catch (e) {
+      // The server responds with 405 Method Not Allowed for existing folders.
+      if (!(e instanceof WebDAVError) || e.status !== 405) {
+        throw e;
+      }
+    }
+  }
 
-    return fetch(url, options)
-      .then(res => {
-        return streamPipe(res.body, fs.createWriteStream(filePath));
-      })
-      .catch(err =>{
-        console.error(err);
+  /**
+   * Moves or renames a file or folder on the server.
+   *
+   * @param {string} serverPath - The path of the file or folder.
+   * @param {string} destinationPath - The new path of the file or folder.
+   * @param {boolean} [overwrite = false] - If true, then an existing file or
+   *    folder at the destination is replaced.
+   * @return {Promise<void>} - Returns a promise that resolves when the file or
+   *    folder has been moved.
+   */
+  public async move(
+    serverPath: string,
+    destinationPath: string,
+    overwrite: boolean = false
+  ): Promise<void> {
+    await this.request('MOVE', serverPath, {
+      headers: {
+        'Destination': await this.getURL(destinationPath),
+        'Overwrite': overwrite ? 'T' : 'F'
+      }
+    });
+  }
+
+  /**
+   * Parses the multistatus response document of a PROPFIND request.
+   *
+   * @param {string} xml - The XML response body.
+   * @return {Promise<IWebDAVEntry[]>} - Returns a promise that resolves to an
+   *    entry for each response element of the document.
+   */
+  public parseMultistatus(xml: string): Promise<IWebDAVEntry[]> {
+    return new Promise((resolve, reject) => {
+      xml2js.parseString(xml, {
+        tagNameProcessors: [xml2js.processors.stripPrefix]
+      }, (err, doc) => {
+        if (err || !doc || !doc.multistatus) {
+          reject(new WebDAVError('PROPFIND', '', 0,
+            'Unable to parse the response' + (err ? ': ' + err.message : '')));
+          return;
+        }
+
+        resolve((doc.multistatus.response || []).map(response => {
+          const href = decodeURIComponent(String(response.href[0]));
+          const rootIndex = href.indexOf(WebDAVService.ROOT_PATH);
+          const entryPath = this.normalizePath(rootIndex > -1 ?
+            href.substring(rootIndex + WebDAVService.ROOT_PATH.length) : href);
+          const prop = response.propstat && response.propstat[0].prop ?
+            response.propstat[0].prop[0] : {};
+          const getValue = name => prop[name] && typeof prop[name][0] === 'string' ?
+            prop[name][0] : '';
+          const resourceType = prop.resourcetype ? prop.resourcetype[0] : '';
+
+          return {
+            contentType: getValue('getcontenttype'),
+            isDirectory: !!resourceType && typeof resourceType === 'object' &&
+              !!resourceType.collection,
+            lastModified: getValue('getlastmodified') ?
+              new Date(getValue('getlastmodified')) : null,
+            name: entryPath.split('/').pop(),
+            path: entryPath,
+            size: parseInt(getValue('getcontentlength'), 10) || 0
+          };
+        }));
       });
+    });
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Gets the Basic authentication header value for the WebDAV user.
+   *
+   * @return {Promise<string>} - Returns a promise that resolves to the value
+   *    of the Authorization header.
+   */
+  private async getAuthorization(): Promise<string> {
+    const credentials = await this.credentialProvider.getCredentials(
+      this.dwConfig);
+
+    return 'Basic ' + Buffer.from(
+      credentials.username + ':' + credentials.password).toString('base64');
+  }
+
+  /**
+   * Gets the URL of a file or folder on the server of the connection profile.
+   *
+   * @param {string} serverPath - The path of the file or folder.
+   * @return {Promise<string>} - Returns a promise that resolves to the URL.
+   */
+  private async getURL(serverPath: string): Promise<string> {
+    this.dwConfig = this.profile || await this.ConfigHelper.getDWConfig();
+    if (!this.dwConfig.ok) {
+      return Promise.reject(new WebDAVError('', serverPath, 0,
+        'The connection profile is invalid'));
+    }
+
+    return 'https://' + this.dwConfig.hostname + WebDAVService.ROOT_PATH +
+      this.normalizePath(serverPath).split('/').map(encodeURIComponent)
+        .join('/');
+  }
+
+  /**
+   * Removes the leading & trailing slashes of a server path.
+   *
+   * @param {string} serverPath - The path of the file or folder.
+   * @return {string} - Returns the normalized path.
+   */
+  private normalizePath(serverPath: string): string {
+    return serverPath.replace(/^\/+|\/+$/g, '');
+  }
+
+  /**
+   * Makes a WebDAV request, and rejects with a WebDAVError if the request
+   * can't be sent, or if the server responds with an error status.
+   *
+   * @param {string} method - The HTTP method of the request.
+   * @param {string} serverPath - The path of the file or folder.
+   * @param {Object} options - The node-fetch options of the request.
+   * @return {Promise<any>} - Returns a promise that resolves to the node-fetch
+   *    response.
+   */
+  private async request(
+    method: string,
+    serverPath: string,
+    options: any
+  ): Promise<any> {
+    const url = await this.getURL(serverPath);
+    const headers = Object.assign({
+      Authorization: await this.getAuthorization()
+    }, options.headers);
+    let resp;
+
+    try {
+      resp = await fetch(url, Object.assign({}, options, { headers, method }));
+    } catch (e) {
+      throw new WebDAVError(method, serverPath, 0, e.message);
+    }
+
+    if (!resp.ok) {
+      throw new WebDAVError(method, serverPath, resp.status, resp.statusText);
+    }
+
+    return resp;
   }
 }
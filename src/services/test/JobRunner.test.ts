@@ -0,0 +1,80 @@
+/**
+ * @file JobRunner.test.ts
+ * @fileoverview - Provides unit testing of the JobRunner.ts class.
+ */
+import * as assert from 'assert';
+
+import JobExecution from '../../documents/JobExecution';
+import JobRunner from '../JobRunner';
+
+// JobRunner Test Suite
+suite('JobRunner Tests', () => {
+  /**
+   * Gets a job runner that returns the queued statuses as the job execution,
+   * instead of getting the execution from the server.
+   */
+  const getRunner = (statuses: string[], timeout: number = 1000) => {
+    const jobRunner = new JobRunner({
+      maxPollInterval: 4,
+      pollInterval: 1,
+      timeout
+    });
+
+    jobRunner.getExecution = (jobId: string, executionId: string) => {
+      const status = statuses.shift() || 'RUNNING';
+
+      return Promise.resolve(new JobExecution({
+        exit_status: status === 'RUNNING' ? undefined : { code: status },
+        id: executionId,
+        job_id: jobId,
+        status: status === 'RUNNING' ? status : 'finished'
+      }));
+    };
+
+    return jobRunner;
+  };
+
+  const startedExe = new JobExecution({
+    id: 'execution1',
+    job_id: 'job1',
+    status: 'PENDING'
+  });
+
+  test('Grows the delay between status checks up to the maximum', () => {
+    const jobRunner = getRunner([]);
+
+    assert.deepEqual([0, 1, 2, 3, 4, 5].map(i => jobRunner.getDelay(i)),
+      [1, 1.5, 2.25, 3.375, 4, 4]);
+  });
+
+  test('Tracks the execution until it has a terminal status', async () => {
+    const checkedStatuses: string[] = [];
+    const jobRunner = getRunner(['RUNNING', 'RUNNING', 'OK']);
+    const jobExe = await jobRunner.track(startedExe,
+      currentExe => checkedStatuses.push(currentExe.status));
+
+    assert.deepEqual(checkedStatuses, ['PENDING', 'RUNNING', 'RUNNING']);
+    assert.equal(jobExe.exitStatus.code, 'OK');
+    assert.ok(JobRunner.isSuccessful(jobExe));
+  });
+
+  test('Uses the exit status to check if the job was successful', async () => {
+    const jobExe = await getRunner(['ERROR']).track(startedExe);
+
+    assert.equal(jobExe.status, 'finished');
+    assert.ok(!JobRunner.isSuccessful(jobExe));
+  });
+
+  test('Rejects when the job does not finish before the timeout', async () => {
+    let error;
+
+    try {
+      await getRunner([], 20).track(startedExe);
+    } catch (e) {
+      error = e;
+    }
+
+    assert.ok(error instanceof Error);
+    assert.ok(/did not finish/.test(error.message));
+  });
+});
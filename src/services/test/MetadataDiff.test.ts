@@ -0,0 +1,164 @@
+/**
+ * @file MetadataDiff.test.ts
+ * @fileoverview - Provides unit testing of the MetadataDiff.ts class.
+ */
+import * as assert from 'assert';
+
+import ObjectAttributeDefinition from '../../documents/ObjectAttributeDefinition';
+import ObjectAttributeGroup from '../../documents/ObjectAttributeGroup';
+import MetadataDiff, { DIFF_STATUS, IObjectTypeMetadata } from '../MetadataDiff';
+
+/** Creates the metadata of an object type for a test. */
+const getMetadata = (
+  objectType: string,
+  attributes: any[],
+  groups: any[] = []
+): IObjectTypeMetadata => {
+  return {
+    attributeDefinitions: attributes.map(attr =>
+      new ObjectAttributeDefinition(attr)),
+    attributeGroups: groups.map(group => new ObjectAttributeGroup(group)),
+    objectType
+  };
+};
+
+// MetadataDiff Test Suite
+suite('MetadataDiff Tests', () => {
+  const metadataDiff = new MetadataDiff();
+
+  test('Finds added, removed & changed attributes', () => {
+    const left = getMetadata('Order', [
+      { id: 'removedAttr', value_type: 'string' },
+      { id: 'changedAttr', mandatory: false, value_type: 'string' },
+      { id: 'sameAttr', value_type: 'int' },
+      { id: 'name', system: true, value_type: 'string' }
+    ]);
+    const right = getMetadata('Order', [
+      { id: 'addedAttr', value_type: 'string' },
+      { id: 'changedAttr', mandatory: true, value_type: 'text' },
+      { id: 'sameAttr', value_type: 'int' }
+    ]);
+
+    const entries = metadataDiff.compare([left], [right])[0].entries;
+
+    assert.deepEqual(entries.map(entry => entry.id + ':' + entry.status), [
+      'addedAttr:' + DIFF_STATUS.added,
+      'changedAttr:' + DIFF_STATUS.changed,
+      'removedAttr:' + DIFF_STATUS.removed
+    ]);
+    assert.deepEqual(entries[1].fields, [
+      { field: 'mandatory', left: 'false', right: 'true' },
+      { field: 'value type', left: 'string', right: 'text' }
+    ]);
+  });
+
+  test('Compares value definitions & default values', () => {
+    const fields = metadataDiff.compareAttributes('Order',
+      new ObjectAttributeDefinition({
+        default_value: { value: 'red' },
+        id: 'color',
+        value_definitions: [
+          { display_value: { default: 'Red' }, value: 'red' },
+          { display_value: { default: 'Blue' }, value: 'blue' }
+        ]
+      }),
+      new ObjectAttributeDefinition({
+        id: 'color',
+        value_definitions: [
+          { display_value: { default: 'Rot' }, value: 'red' }
+        ]
+      })
+    );
+
+    assert.deepEqual(fields, [
+      { field: 'default value', left: 'red', right: '' },
+      { field: 'value definition: blue', left: 'Blue', right: '' },
+      { field: 'value definition: red', left: 'Red', right: 'Rot' }
+    ]);
+  });
+
+  test('Compares typed values of the API with metadata file text', () => {
+    const sandboxAttrs = [
+      { default_value: { value: true }, id: 'flag', value_type: 'boolean' },
+      { default_value: { value: 1.5 }, id: 'ratio', value_type: 'double' },
+      {
+        default_value: { value: [1, 2] },
+        id: 'sizes',
+        value_type: 'set_of_int'
+      },
+      {
+        id: 'rank',
+        value_definitions: [{ display_value: { default: 'One' }, value: 1 }],
+        value_type: 'enum_of_int'
+      }
+    ];
+    const fileAttrs = [
+      { default_value: { value: 'true' }, id: 'flag', value_type: 'boolean' },
+      { default_value: { value: '1.50' }, id: 'ratio', value_type: 'double' },
+      {
+        default_value: { value: '1, 02' },
+        id: 'sizes',
+        value_type: 'set_of_int'
+      },
+      {
+        id: 'rank',
+        value_definitions: [{ display_value: { default: 'One' }, value: '1' }],
+        value_type: 'enum_of_int'
+      }
+    ];
+
+    assert.deepEqual(metadataDiff.compare(
+      [getMetadata('Order', sandboxAttrs)],
+      [getMetadata('Order', fileAttrs)]
+    ), []);
+
+    const fields = metadataDiff.compareAttributes('Order',
+      new ObjectAttributeDefinition(sandboxAttrs[1]),
+      new ObjectAttributeDefinition({
+        default_value: { value: '2.5' },
+        id: 'ratio',
+        value_type: 'double'
+      })
+    );
+
+    assert.deepEqual(fields, [
+      { field: 'default value', left: '1.5', right: '2.5' }
+    ]);
+  });
+
+  test('Only compares type specific flags for supported types', () => {
+    const left = new ObjectAttributeDefinition({ id: 'test', visible: true });
+    const right = new ObjectAttributeDefinition({ id: 'test' });
+
+    assert.equal(metadataDiff.compareAttributes('Order', left, right).length, 0);
+    assert.equal(metadataDiff.compareAttributes('Product', left, right).length, 1);
+  });
+
+  test('Compares group membership', () => {
+    const left = getMetadata('Order', [], [
+      { attribute_definitions: [{ id: 'a' }, { id: 'b' }], id: 'group' }
+    ]);
+    const right = getMetadata('Order', [], [
+      { attribute_definitions: [{ id: 'a' }, { id: 'c' }], id: 'group' }
+    ]);
+
+    const entry = metadataDiff.compare([left], [right])[0].entries[0];
+
+    assert.equal(entry.kind, 'group');
+    assert.deepEqual(entry.fields, [
+      { field: 'attribute: b', left: 'assigned', right: '' },
+      { field: 'attribute: c', left: '', right: 'assigned' }
+    ]);
+  });
+
+  test('Reports object types that are only in one source', () => {
+    const typeDiffs = metadataDiff.compare(
+      [getMetadata('Order', [])],
+      [getMetadata('Order', []), getMetadata('Basket', [])]
+    );
+
+    assert.equal(typeDiffs.length, 1);
+    assert.equal(typeDiffs[0].objectType, 'Basket');
+    assert.equal(typeDiffs[0].status, DIFF_STATUS.added);
+  });
+});
@@ -3,7 +3,10 @@
  * @fileoverview - Provides unit testing of the OCAPIService.ts class.
  */
 import * as assert from 'assert';
+import * as http from 'http';
+import { URL } from 'url';
 
+import { OAuth2Token } from '../../authorization/OAuth2Token';
 import { HTTP_VERB, ICallSetup } from '../ICallSetup';
 import { OCAPIService } from '../OCAPIService';
 
@@ -35,4 +38,338 @@ suite('OCAPIService Tests', () => {
 
     assert.deepEqual(callSetup, expectedSetup);
   });
+
+  test('Includes the body of calls without configured parameters', async () => {
+    const profileService = new OCAPIService({
+      hostname: 'example.com',
+      ok: false,
+      password: '',
+      username: ''
+    });
+    const body = JSON.stringify({ query: { match_all_query: {} } });
+    const callSetup = await profileService.getCallSetup(
+      'jobs',
+      'searchExecutions',
+      { body }
+    );
+
+    assert.equal(callSetup.body, body);
+    assert.equal(callSetup.method, HTTP_VERB.post);
+    assert.ok(/\/job_execution_search$/.test(callSetup.endpoint));
+  });
+});
+
+// OCAPIService Pagination Test Suite
+suite('OCAPIService Pagination Tests', () => {
+  const ocapiService: OCAPIService = new OCAPIService();
+  const TOTAL = 450;
+  const requestedStarts: number[] = [];
+  let server: http.Server;
+  let baseURL: string = '';
+
+  /**
+   * Gets a list type OCAPI response for the requested page. The `next` link is
+   * only included for requests that don't set the `omitNext` parameter.
+   */
+  const getPage = (reqURL: URL) => {
+    const start = parseInt(reqURL.searchParams.get('start') || '0', 10);
+    const count = parseInt(reqURL.searchParams.get('count') || '25', 10);
+    const data = [];
+    const page: any = { count: 0, data, start, total: TOTAL };
+
+    for (let i = start; i < Math.min(start + count, TOTAL); i++) {
+      data.push({ id: 'attribute' + i });
+    }
+
+    page.count = data.length;
+    if (start + count < TOTAL && !reqURL.searchParams.get('omitNext')) {
+      const nextURL = new URL(reqURL.toString());
+      nextURL.searchParams.set('start', String(start + count));
+      page.next = nextURL.toString();
+    }
+
+    return page;
+  };
+
+  suiteSetup(done => {
+    server = http.createServer((req, res) => {
+      const reqURL = new URL(req.url, baseURL);
+      requestedStarts.push(parseInt(reqURL.searchParams.get('start') || '0', 10));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(getPage(reqURL)));
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      baseURL = 'http://127.0.0.1:' + server.address().port;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    requestedStarts.length = 0;
+  });
+
+  test('Follows the next links until all pages are retrieved', async () => {
+    const result = await ocapiService.makePaginatedCall({
+      endpoint: baseURL + '/attribute_definitions?count=200',
+      headers: { 'Content-Type': 'application/json' },
+      method: HTTP_VERB.get
+    });
+
+    assert.equal(result.data.length, TOTAL);
+    assert.equal(result.count, TOTAL);
+    assert.equal(result.data[TOTAL - 1].id, 'attribute' + (TOTAL - 1));
+    assert.equal(typeof result.next, 'undefined');
+    assert.deepEqual(requestedStarts, [0, 200, 400]);
+  });
+
+  test('Uses start & count when no next link is returned', async () => {
+    const result = await ocapiService.makePaginatedCall({
+      endpoint: baseURL + '/attribute_definitions?count=200&omitNext=true',
+      headers: { 'Content-Type': 'application/json' },
+      method: HTTP_VERB.get
+    });
+
+    assert.equal(result.data.length, TOTAL);
+    assert.deepEqual(requestedStarts, [0, 200, 400]);
+  });
+});
+
+// OCAPIService Client Credentials Grant Test Suite
+suite('OCAPIService Client Credentials Tests', () => {
+  const ocapiService: OCAPIService = new OCAPIService();
+  const CLIENT_ID = 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+  const CLIENT_PASS = 'cccccccccccccccccccccccccccccc';
+  const requests: any[] = [];
+  let server: http.Server;
+  let tokenURL: string = '';
+
+  suiteSetup(done => {
+    // Stub of the authorization server's access token endpoint.
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk as Buffer));
+      req.on('end', () => {
+        const request = {
+          authorization: req.headers.authorization,
+          body: Buffer.concat(chunks).toString(),
+          contentType: req.headers['content-type'],
+          method: req.method
+        };
+        const expectedAuth = 'Basic ' +
+          Buffer.from(CLIENT_ID + ':' + CLIENT_PASS).toString('base64');
+        requests.push(request);
+
+        if (request.authorization !== expectedAuth) {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'invalid_client' }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            access_token: 'stubAccessToken',
+            expires_in: 1799,
+            token_type: 'Bearer'
+          }));
+        }
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      tokenURL = 'http://127.0.0.1:' + server.address().port +
+        '/dwsso/oauth2/access_token';
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    requests.length = 0;
+  });
+
+  test('Requests a client credentials grant from the auth server', async () => {
+    const token = await ocapiService.requestClientCredentialsToken(
+      tokenURL, CLIENT_ID, CLIENT_PASS);
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, 'POST');
+    assert.equal(requests[0].body, 'grant_type=client_credentials');
+    assert.ok(requests[0].contentType
+      .indexOf('application/x-www-form-urlencoded') > -1);
+    assert.equal(token.accessToken, 'stubAccessToken');
+    assert.equal(token.tokenType, 'Bearer');
+    assert.equal(token.expiresIn, 1799);
+    assert.ok(token.isValid());
+  });
+
+  test('Rejects when the auth server refuses the client', async () => {
+    let rejected = false;
+
+    try {
+      await ocapiService.requestClientCredentialsToken(
+        tokenURL, CLIENT_ID, 'wrongPassword');
+    } catch (e) {
+      rejected = true;
+    }
+
+    assert.ok(rejected);
+    assert.equal(requests.length, 1);
+  });
+});
+
+// OCAPIService Fault Parsing Test Suite
+suite('OCAPIService Fault Tests', () => {
+  const ocapiService: OCAPIService = new OCAPIService();
+  let server: http.Server;
+  let baseURL: string = '';
+
+  suiteSetup(done => {
+    // Returns a fault document for /fault, and a non-JSON body otherwise.
+    server = http.createServer((req, res) => {
+      if (req.url === '/fault') {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          _v: '20.4',
+          fault: {
+            arguments: { attributeId: 'c_testAttribute' },
+            message: 'An attribute definition with ID \'c_testAttribute\' ' +
+              'already exists.',
+            type: 'AttributeDefinitionAlreadyExistsException'
+          }
+        }));
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/html' });
+        res.end('<html>Not Found</html>');
+      }
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      baseURL = 'http://127.0.0.1:' + server.address().port;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  test('Parses the fault document of a failed call', async () => {
+    const result = await ocapiService.makeCall({
+      endpoint: baseURL + '/fault',
+      headers: { 'Content-Type': 'application/json' },
+      method: HTTP_VERB.put
+    });
+
+    assert.equal(result.error, true);
+    assert.equal(result.fault.type,
+      'AttributeDefinitionAlreadyExistsException');
+    assert.equal(result.fault.statusCode, 400);
+    assert.equal(result.fault.arguments.attributeId, 'c_testAttribute');
+    assert.ok(result.errorMessage.indexOf(
+      'AttributeDefinitionAlreadyExistsException') === 0);
+  });
+
+  test('Uses the HTTP status when there is no fault document', async () => {
+    const result = await ocapiService.makeCall({
+      endpoint: baseURL + '/other',
+      headers: { 'Content-Type': 'application/json' },
+      method: HTTP_VERB.get
+    });
+
+    assert.equal(result.error, true);
+    assert.equal(typeof result.fault, 'undefined');
+    assert.equal(result.errorMessage, 'Not Found :: Code 404');
+  });
+});
+
+// OCAPIService Token Retry Test Suite
+suite('OCAPIService Token Retry Tests', () => {
+  const ocapiService: OCAPIService = new OCAPIService();
+  const authHeaders: string[] = [];
+  const tokenRequests: string[] = [];
+  let acceptedToken = '';
+  let server: http.Server;
+  let baseURL: string = '';
+
+  suiteSetup(done => {
+    // Only accepts calls that are made with the currently accepted token.
+    server = http.createServer((req, res) => {
+      authHeaders.push(String(req.headers.authorization));
+
+      if (req.headers.authorization !== 'Bearer ' + acceptedToken) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id: 'Product' }));
+      }
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      baseURL = 'http://127.0.0.1:' + server.address().port;
+      done();
+    });
+
+    // Stub the token request so that each call returns a new token.
+    ocapiService.getOAuth2Token = (tokenType: string) => {
+      tokenRequests.push(tokenType);
+      return Promise.resolve(new OAuth2Token({
+        access_token: 'token' + tokenRequests.length,
+        expires_in: 1799,
+        token_type: 'Bearer'
+      }));
+    };
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    authHeaders.length = 0;
+    tokenRequests.length = 0;
+  });
+
+  test('Retries a call once with a new token after a 401', async () => {
+    acceptedToken = 'token1';
+
+    const result = await ocapiService.makeCall({
+      authorization: 'BM_USER',
+      endpoint: baseURL + '/system_object_definitions/Product',
+      headers: {
+        Authorization: 'Bearer expiredToken',
+        'Content-Type': 'application/json'
+      },
+      method: HTTP_VERB.get
+    });
+
+    assert.equal(result.id, 'Product');
+    assert.deepEqual(tokenRequests, ['BM_USER']);
+    assert.deepEqual(authHeaders, ['Bearer expiredToken', 'Bearer token1']);
+  });
+
+  test('Returns the error when the new token is also rejected', async () => {
+    acceptedToken = 'otherToken';
+
+    const result = await ocapiService.makeCall({
+      authorization: 'BM_USER',
+      endpoint: baseURL + '/system_object_definitions/Product',
+      headers: {
+        Authorization: 'Bearer expiredToken',
+        'Content-Type': 'application/json'
+      },
+      method: HTTP_VERB.get
+    });
+
+    assert.equal(result.error, true);
+    assert.equal(result.status, 401);
+    assert.equal(tokenRequests.length, 1);
+    assert.equal(authHeaders.length, 2);
+  });
 });
@@ -0,0 +1,138 @@
+/**
+ * @file RetryPolicy.test.ts
+ * @fileoverview - Provides unit testing of the RetryPolicy.ts class.
+ */
+import * as assert from 'assert';
+import * as http from 'http';
+import fetch from 'node-fetch';
+
+import { HTTP_VERB } from '../ICallSetup';
+import RetryPolicy from '../RetryPolicy';
+
+// RetryPolicy Test Suite
+suite('RetryPolicy Tests', () => {
+  const retryPolicy = new RetryPolicy({
+    maxDelay: 20,
+    maxRetries: 2,
+    retryDelay: 5,
+    timeout: 100
+  });
+  const responses: number[][] = [];
+  let requestCount = 0;
+  let server: http.Server;
+  let baseURL: string = '';
+
+  suiteSetup(done => {
+    // Responds with the next queued status, or hangs for a '/hang' request.
+    server = http.createServer((req, res) => {
+      requestCount++;
+
+      if (req.url === '/hang') {
+        setTimeout(() => res.end('{}'), 500);
+        return;
+      } else if (req.url === '/stall') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.write('{');
+        setTimeout(() => res.end('}'), 500);
+        return;
+      }
+
+      const [status, retryAfter] = responses.shift() || [200, undefined];
+      const headers = { 'Content-Type': 'application/json' };
+      if (typeof retryAfter === 'number') {
+        headers['Retry-After'] = String(retryAfter);
+      }
+
+      res.writeHead(status, headers);
+      res.end('{}');
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      baseURL = 'http://127.0.0.1:' + server.address().port;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    responses.length = 0;
+    requestCount = 0;
+  });
+
+  test('Retries a GET call after server errors & rate limits', async () => {
+    responses.push([503], [429, 0], [200]);
+
+    const resp = await retryPolicy.execute(HTTP_VERB.get, signal =>
+      fetch(baseURL + '/ok', { signal }));
+
+    assert.equal(resp.status, 200);
+    assert.equal(requestCount, 3);
+  });
+
+  test('Returns the last response when the retries are used up', async () => {
+    responses.push([500], [502], [504]);
+
+    const resp = await retryPolicy.execute(HTTP_VERB.delete, signal =>
+      fetch(baseURL + '/fail', { method: 'DELETE', signal }));
+
+    assert.equal(resp.status, 504);
+    assert.equal(requestCount, 3);
+  });
+
+  test('Does not retry calls that are not idempotent', async () => {
+    responses.push([503]);
+
+    const resp = await retryPolicy.execute(HTTP_VERB.post, signal =>
+      fetch(baseURL + '/post', { method: 'POST', signal }));
+
+    assert.equal(resp.status, 503);
+    assert.equal(requestCount, 1);
+  });
+
+  test('Aborts attempts that exceed the timeout', async () => {
+    let error;
+
+    try {
+      await retryPolicy.execute(HTTP_VERB.post, signal =>
+        fetch(baseURL + '/hang', { method: 'POST', signal }));
+    } catch (e) {
+      error = e;
+    }
+
+    assert.equal(error.name, 'TimeoutError');
+    assert.equal(requestCount, 1);
+  });
+
+  test('Aborts attempts that stall while reading the body', async () => {
+    let error;
+
+    try {
+      const resp = await retryPolicy.execute(HTTP_VERB.post, signal =>
+        fetch(baseURL + '/stall', { method: 'POST', signal }));
+      await resp.json();
+    } catch (e) {
+      error = e;
+    }
+
+    assert.equal(error.name, 'TimeoutError');
+    assert.equal(requestCount, 1);
+  });
+
+  test('Uses the Retry-After header for the delay', () => {
+    const headerPolicy = new RetryPolicy({ maxDelay: 5000 });
+
+    assert.equal(headerPolicy.getDelay(0, '2'), 2000);
+    assert.equal(headerPolicy.getDelay(0, '-5'), 0);
+    assert.ok(retryPolicy.getDelay(3) <= 20);
+  });
+
+  test('Limits the Retry-After delay to the maximum delay', () => {
+    const retryDate = new Date(Date.now() + 3600000).toUTCString();
+
+    assert.equal(retryPolicy.getDelay(0, '3600'), 20);
+    assert.equal(retryPolicy.getDelay(0, retryDate), 20);
+  });
+});
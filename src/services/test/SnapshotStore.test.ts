@@ -0,0 +1,119 @@
+/**
+ * @file SnapshotStore.test.ts
+ * @fileoverview - Provides unit testing of the SnapshotStore.ts class.
+ */
+import * as assert from 'assert';
+
+import ConfigHelper from '../../helpers/ConfigHelper';
+import { ICallResult } from '../ICallResult';
+import SnapshotStore from '../SnapshotStore';
+
+// SnapshotStore Test Suite
+suite('SnapshotStore Tests', () => {
+  let refreshCount = 0;
+  let snapshots: SnapshotStore;
+
+  /** Waits for the background refresh started by a call to finish. */
+  const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  suiteSetup(() => {
+    ConfigHelper.activeProfile = {
+      hostname: 'dev01.example.com',
+      name: 'snapshotTestProfile',
+      ok: true,
+      password: '',
+      username: ''
+    };
+  });
+
+  suiteTeardown(() => {
+    ConfigHelper.activeProfile = null;
+  });
+
+  setup(() => {
+    refreshCount = 0;
+    snapshots = new SnapshotStore(() => refreshCount++);
+  });
+
+  test('Calls the server when there is no snapshot', async () => {
+    const result = await snapshots.getResult('test.first', () =>
+      Promise.resolve({ count: 1, data: [{ id: 'Product' }] }));
+
+    assert.equal(result.data[0].id, 'Product');
+    assert.equal(typeof result.snapshotTime, 'undefined');
+  });
+
+  test('Returns the snapshot & refreshes it in the background', async () => {
+    let callCount = 0;
+    const makeCall = (): Promise<ICallResult> => {
+      callCount++;
+      return Promise.resolve({ count: 1, data: [{ id: 'v' + callCount }] });
+    };
+
+    await snapshots.getResult('test.refresh', makeCall);
+
+    // A new provider instance reads the stored snapshot.
+    snapshots = new SnapshotStore(() => refreshCount++);
+    const result = await snapshots.getResult('test.refresh', makeCall);
+    await flush();
+
+    assert.equal(result.data[0].id, 'v1');
+    assert.ok(result.snapshotTime > 0);
+    assert.equal(callCount, 2);
+    assert.equal(refreshCount, 1);
+
+    // The re-render after the refresh doesn't refresh again.
+    const rerendered = await snapshots.getResult('test.refresh', makeCall);
+    await flush();
+
+    assert.equal(rerendered.data[0].id, 'v2');
+    assert.equal(callCount, 2);
+  });
+
+  test('Keeps the snapshot when the instance is offline', async () => {
+    await snapshots.getResult('test.offline', () =>
+      Promise.resolve({ count: 1, data: [{ id: 'Order' }] }));
+
+    snapshots = new SnapshotStore(() => refreshCount++);
+    const result = await snapshots.getResult('test.offline', () =>
+      Promise.reject(new Error('ECONNREFUSED')));
+    await flush();
+
+    assert.equal(result.data[0].id, 'Order');
+    assert.equal(refreshCount, 0);
+  });
+
+  test('Stores results in the snapshot of the profile they were read for',
+    async () => {
+      const profile = ConfigHelper.activeProfile;
+      const otherProfile = Object.assign({}, profile,
+        { name: 'snapshotOtherProfile' });
+
+      try {
+        // The profile is switched while the call is made.
+        await snapshots.getResult('test.switch', () => {
+          ConfigHelper.activeProfile = otherProfile;
+          return Promise.resolve({ count: 1, data: [{ id: 'FromFirst' }] });
+        });
+
+        snapshots = new SnapshotStore(() => refreshCount++);
+        const result = await snapshots.getResult('test.switch', () =>
+          Promise.resolve({ count: 1, data: [{ id: 'FromOther' }] }));
+
+        assert.equal(result.data[0].id, 'FromOther');
+        assert.equal(typeof result.snapshotTime, 'undefined');
+      } finally {
+        ConfigHelper.activeProfile = profile;
+      }
+    });
+
+  test('Adds the snapshot age to node descriptions', () => {
+    const snapshotTime = Date.now() - 5 * 60000;
+
+    assert.equal(SnapshotStore.addAgeToDescription('Product', {}), 'Product');
+    assert.equal(SnapshotStore.addAgeToDescription('Product', { snapshotTime }),
+      'Product (5 min ago)');
+    assert.equal(SnapshotStore.addAgeToDescription(' ', { snapshotTime }),
+      '(5 min ago)');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file WebDAVService.test.ts
+ * @fileoverview - Provides unit testing of the WebDAVService.ts class.
+ */
+import * as assert from 'assert';
+
+import WebDAVError from '../WebDAVError';
+import WebDAVService from '../WebDAVService';
+
+const MULTISTATUS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">
+  <D:response>
+    <D:href>/on/demandware.servlet/webdav/Sites/Impex/src/instance/</D:href>
+    <D:propstat>
+      <D:prop>
+        <D:resourcetype><D:collection/></D:resourcetype>
+      </D:prop>
+      <D:status>HTTP/1.1 200 OK</D:status>
+    </D:propstat>
+  </D:response>
+  <D:response>
+    <D:href>/on/demandware.servlet/webdav/Sites/Impex/src/instance/my%20export.zip</D:href>
+    <D:propstat>
+      <D:prop>
+        <D:getcontentlength>2048</D:getcontentlength>
+        <D:getcontenttype>application/zip</D:getcontenttype>
+        <D:getlastmodified>Mon, 05 Oct 2020 10:00:00 GMT</D:getlastmodified>
+        <D:resourcetype/>
+      </D:prop>
+      <D:status>HTTP/1.1 200 OK</D:status>
+    </D:propstat>
+  </D:response>
+</D:multistatus>`;
+
+// WebDAVService Test Suite
+suite('WebDAVService Tests', () => {
+  const webDAVService = new WebDAVService();
+
+  test('Parses the entries of a PROPFIND response', async () => {
+    const entries = await webDAVService.parseMultistatus(MULTISTATUS_XML);
+
+    assert.equal(entries.length, 2);
+    assert.equal(entries[0].path, 'Impex/src/instance');
+    assert.equal(entries[0].isDirectory, true);
+    assert.equal(entries[1].name, 'my export.zip');
+    assert.equal(entries[1].path, 'Impex/src/instance/my export.zip');
+    assert.equal(entries[1].isDirectory, false);
+    assert.equal(entries[1].size, 2048);
+    assert.equal(entries[1].contentType, 'application/zip');
+    assert.equal(entries[1].lastModified.toISOString(),
+      '2020-10-05T10:00:00.000Z');
+  });
+
+  test('Rejects with a WebDAVError for invalid responses', async () => {
+    let error;
+
+    try {
+      await webDAVService.parseMultistatus('<html></html>');
+    } catch (e) {
+      error = e;
+    }
+
+    assert.ok(error instanceof WebDAVError);
+  });
+
+  test('Describes the failed request in the error', () => {
+    const error = new WebDAVError('DELETE', 'Impex/src/missing.zip', 404,
+      'Not Found');
+
+    assert.equal(error.message,
+      'DELETE Impex/src/missing.zip failed: Not Found :: Code 404');
+    assert.equal(error.isNotFound, true);
+    assert.equal(error.isUnauthorized, false);
+  });
+});
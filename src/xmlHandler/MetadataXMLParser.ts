@@ -0,0 +1,368 @@
+/**
+ * @file MetadataXMLParser.ts
+ * @fileoverview - Exports a class for reading the system object type
+ *    extensions from a metadata XML file, or from a site import zip archive,
+ *    into the same document classes that are used for the OCAPI responses.
+ */
+
+import * as AdmZip from 'adm-zip';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
+import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
+import ObjectTypeDefinition from '../documents/ObjectTypeDefinition';
+import XMLHandler from './XMLHandler';
+
+/**
+ * @interface ILocalObjectType - An extended system object type that was read
+ *    from a local file.
+ */
+export interface ILocalObjectType {
+  attributeDefinitions: ObjectAttributeDefinition[];
+  attributeGroups: ObjectAttributeGroup[];
+  objectTypeDefinition: ObjectTypeDefinition;
+}
+
+/**
+ * @interface ILocalMetadata - The metadata that was read from a local file.
+ */
+export interface ILocalMetadata {
+  filePath: string;
+  objectTypes: ILocalObjectType[];
+}
+
+/**
+ * @class MetadataXMLParser
+ * @classdesc - Parses the `type-extension` elements of a metadata XML file.
+ *    The elements are mapped to the shape of the OCAPI documents so that the
+ *    parsed metadata can be displayed & handled like data from the sandbox.
+ */
+export default class MetadataXMLParser {
+  /** The name of the metadata file in a site import archive. */
+  public static readonly FILE_NAME: string = 'system-objecttype-extensions.xml';
+
+  /** The flag elements of an attribute definition & their OCAPI names. */
+  public static readonly FLAG_MAP = {
+    'externally-defined-flag': 'externally_defined',
+    'externally-managed-flag': 'externally_managed',
+    'localizable-flag': 'localizable',
+    'mandatory-flag': 'mandatory',
+    'order-required-flag': 'order_required',
+    'site-specific-flag': 'site_specific',
+    'visible-flag': 'visible'
+  };
+
+  /* ========================================================================
+   * Public Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Reads the metadata from an XML file, or from each of the metadata files in
+   * a zip archive.
+   *
+   * @param {string} filePath - The path of the .xml or .zip file.
+   * @return {Promise<ILocalMetadata>} - Returns a promise that resolves to the
+   *    metadata of the file, or rejects with an error message.
+   */
+  public async parseFile(filePath: string): Promise<ILocalMetadata> {
+    let xmlFiles: string[] = [];
+
+    if (path.extname(filePath).toLowerCase() === '.zip') {
+      xmlFiles = this.getXMLFromZip(filePath);
+
+      if (!xmlFiles.length) {
+        return Promise.reject('The archive does not contain a ' +
+          MetadataXMLParser.FILE_NAME + ' file');
+      }
+    } else {
+      xmlFiles = [await this.readFile(filePath)];
+    }
+
+    // Merge the object types that are extended in more than one file.
+    const typeMap: Map<string, ILocalObjectType> = new Map();
+
+    for (const xml of xmlFiles) {
+      const objectTypes = await this.parseXML(xml);
+
+      objectTypes.forEach(objectType => {
+        const typeId = objectType.objectTypeDefinition.objectType;
+        const existing = typeMap.get(typeId);
+
+        if (existing) {
+          existing.attributeDefinitions = existing.attributeDefinitions
+            .concat(objectType.attributeDefinitions);
+          existing.attributeGroups = existing.attributeGroups
+            .concat(objectType.attributeGroups);
+          existing.objectTypeDefinition = this.getObjectTypeDefinition(
+            typeId, existing.attributeDefinitions, existing.attributeGroups);
+        } else {
+          typeMap.set(typeId, objectType);
+        }
+      });
+    }
+
+    const types: ILocalObjectType[] = [];
+    typeMap.forEach(objectType => types.push(objectType));
+
+    return {
+      filePath,
+      objectTypes: types.sort((a, b) =>
+        a.objectTypeDefinition.objectType.localeCompare(
+          b.objectTypeDefinition.objectType))
+    };
+  }
+
+  /**
+   * Parses the object type extensions of a metadata XML document.
+   *
+   * @param {string} xml - The XML document text.
+   * @return {Promise<ILocalObjectType[]>} - Returns a promise that resolves to
+   *    the extended object types, or rejects with an error message if the
+   *    document is not a metadata XML document.
+   */
+  public async parseXML(xml: string): Promise<ILocalObjectType[]> {
+    const doc = await new Promise<any>((resolve, reject) => {
+      xml2js.parseString(xml, (err, result) => {
+        if (err) {
+          reject('Unable to parse XML: ' + err.message);
+        } else {
+          resolve(result);
+        }
+      });
+    });
+
+    if (!doc || !doc.metadata || !doc.metadata.$ ||
+      doc.metadata.$.xmlns !== XMLHandler.NAMESPACE_STRING
+    ) {
+      return Promise.reject('The file is not a metadata XML file');
+    }
+
+    return (doc.metadata['type-extension'] || []).map(typeNode => {
+      const typeId = typeNode.$['type-id'];
+      const attrDefs: ObjectAttributeDefinition[] = [];
+      const attrGroups: ObjectAttributeGroup[] = [];
+
+      this.getChildren(typeNode, 'custom-attribute-definitions')
+        .forEach(container => {
+          this.getChildren(container, 'attribute-definition').forEach(attrNode =>
+            attrDefs.push(this.getAttributeDefinition(attrNode)));
+        });
+
+      this.getChildren(typeNode, 'group-definitions').forEach(container => {
+        this.getChildren(container, 'attribute-group').forEach(groupNode =>
+          attrGroups.push(this.getAttributeGroup(groupNode, attrDefs)));
+      });
+
+      return {
+        attributeDefinitions: attrDefs,
+        attributeGroups: attrGroups,
+        objectTypeDefinition: this.getObjectTypeDefinition(
+          typeId, attrDefs, attrGroups)
+      };
+    });
+  }
+
+  /* ========================================================================
+   * Private Instance Methods
+   * ======================================================================== */
+
+  /**
+   * Creates an attribute definition from an `attribute-definition` element.
+   *
+   * @param {Object} attrNode - The parsed element.
+   * @return {ObjectAttributeDefinition} - Returns the attribute definition.
+   */
+  private getAttributeDefinition(attrNode: any): ObjectAttributeDefinition {
+    const args: any = {
+      description: this.getLocalizedString(attrNode, 'description'),
+      display_name: this.getLocalizedString(attrNode, 'display-name'),
+      id: attrNode.$['attribute-id'],
+      min_length: this.getNumber(attrNode, 'min-length'),
+      regular_expression: this.getText(attrNode, 'regex'),
+      scale: this.getNumber(attrNode, 'scale'),
+      unit: this.getLocalizedString(attrNode, 'unit'),
+      value_type: this.getText(attrNode, 'type').replace(/[-]/g, '_')
+    };
+
+    Object.keys(MetadataXMLParser.FLAG_MAP).forEach(flagName => {
+      args[MetadataXMLParser.FLAG_MAP[flagName]] =
+        this.getText(attrNode, flagName) === 'true';
+    });
+
+    if (this.getChildren(attrNode, 'min-value').length) {
+      args.min_value = this.getNumber(attrNode, 'min-value');
+    }
+
+    if (this.getChildren(attrNode, 'max-value').length) {
+      args.max_value = this.getNumber(attrNode, 'max-value');
+    }
+
+    if (this.getChildren(attrNode, 'default-value').length) {
+      args.default_value = { value: this.getText(attrNode, 'default-value') };
+    }
+
+    args.value_definitions = [];
+    this.getChildren(attrNode, 'value-definitions').forEach(container => {
+      this.getChildren(container, 'value-definition').forEach(valueNode => {
+        args.value_definitions.push({
+          display_value: this.getLocalizedString(valueNode, 'display'),
+          value: this.getText(valueNode, 'value')
+        });
+      });
+    });
+
+    return new ObjectAttributeDefinition(args);
+  }
+
+  /**
+   * Creates an attribute group from an `attribute-group` element. Attributes
+   * that are defined in the file are added with their full definition, and
+   * other attributes (system attributes) are added with only the ID.
+   *
+   * @param {Object} groupNode - The parsed element.
+   * @param {ObjectAttributeDefinition[]} attrDefs - The attributes that are
+   *    defined for the object type in the file.
+   * @return {ObjectAttributeGroup} - Returns the attribute group.
+   */
+  private getAttributeGroup(
+    groupNode: any,
+    attrDefs: ObjectAttributeDefinition[]
+  ): ObjectAttributeGroup {
+    const attrIds: string[] = (groupNode.attribute || [])
+      .map(attrNode => attrNode.$['attribute-id']);
+
+    const group = new ObjectAttributeGroup({
+      attribute_definitions_count: attrIds.length,
+      description: this.getLocalizedString(groupNode, 'description'),
+      display_name: this.getLocalizedString(groupNode, 'display-name'),
+      id: groupNode.$['group-id']
+    });
+
+    group.attributeDefinitions = attrIds.map(attrId =>
+      attrDefs.filter(attrDef => attrDef.id === attrId)[0] ||
+        new ObjectAttributeDefinition({ id: attrId }));
+
+    return group;
+  }
+
+  /**
+   * Gets the parsed child elements with the specified name.
+   *
+   * @param {Object} node - The parsed parent element.
+   * @param {string} name - The name of the child elements.
+   * @return {Object[]} - Returns the child elements, or an empty array.
+   */
+  private getChildren(node: any, name: string): any[] {
+    return node && Array.isArray(node[name]) ? node[name] : [];
+  }
+
+  /**
+   * Gets the localized values of the child elements with the specified name.
+   * The `x-default` language is mapped to the `default` key that is used in
+   * the OCAPI documents.
+   *
+   * @param {Object} node - The parsed parent element.
+   * @param {string} name - The name of the localized child elements.
+   * @return {Object} - Returns an OCAPI localized string object.
+   */
+  private getLocalizedString(node: any, name: string): any {
+    const localizedString = { default: '' };
+
+    this.getChildren(node, name).forEach(child => {
+      const lang = child.$ && child.$['xml:lang'] && child.$['xml:lang'] !==
+        'x-default' ? child.$['xml:lang'] : 'default';
+
+      localizedString[lang] = this.getNodeText(child);
+    });
+
+    return localizedString;
+  }
+
+  /**
+   * Gets the text content of a parsed element.
+   *
+   * @param {Object|string} child - The parsed element.
+   * @return {string} - Returns the text content.
+   */
+  private getNodeText(child: any): string {
+    return typeof child === 'string' ? child : (child && child._) || '';
+  }
+
+  /**
+   * Gets the numeric value of the first child element with the specified name.
+   *
+   * @param {Object} node - The parsed parent element.
+   * @param {string} name - The name of the child element.
+   * @return {number} - Returns the number, or 0 if there is no valid value.
+   */
+  private getNumber(node: any, name: string): number {
+    return Number(this.getText(node, name)) || 0;
+  }
+
+  /**
+   * Gets the trimmed text of the first child element with the specified name.
+   *
+   * @param {Object} node - The parsed parent element.
+   * @param {string} name - The name of the child element.
+   * @return {string} - Returns the text, or an empty string.
+   */
+  private getText(node: any, name: string): string {
+    return this.getNodeText(this.getChildren(node, name)[0]).trim();
+  }
+
+  /**
+   * Creates the object type definition with the counts of the parsed
+   * attributes & groups.
+   *
+   * @param {string} typeId - The ID of the object type.
+   * @param {ObjectAttributeDefinition[]} attrDefs - The attribute definitions.
+   * @param {ObjectAttributeGroup[]} attrGroups - The attribute groups.
+   * @return {ObjectTypeDefinition} - Returns the object type definition.
+   */
+  private getObjectTypeDefinition(
+    typeId: string,
+    attrDefs: ObjectAttributeDefinition[],
+    attrGroups: ObjectAttributeGroup[]
+  ): ObjectTypeDefinition {
+    return new ObjectTypeDefinition({
+      attribute_definition_count: attrDefs.length,
+      attribute_group_count: attrGroups.length,
+      display_name: typeId,
+      object_type: typeId
+    });
+  }
+
+  /**
+   * Gets the contents of the metadata files in a zip archive.
+   *
+   * @param {string} filePath - The path of the archive.
+   * @return {string[]} - Returns the text of each metadata file.
+   */
+  private getXMLFromZip(filePath: string): string[] {
+    const zip = new AdmZip(filePath);
+
+    return zip.getEntries()
+      .filter(entry => entry.name === MetadataXMLParser.FILE_NAME)
+      .map(entry => entry.getData().toString('utf8'));
+  }
+
+  /**
+   * Reads a text file.
+   *
+   * @param {string} filePath - The path of the file.
+   * @return {Promise<string>} - Returns a promise that resolves to the text of
+   *    the file.
+   */
+  private readFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(filePath, 'utf8', (err, xml) => {
+        if (err) {
+          reject('Unable to read file: ' + err.message);
+        } else {
+          resolve(xml);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @file XMLFormatter.ts
+ * @fileoverview - Exports a class for pretty-printing XML documents, such as
+ *    the files of a site export archive, without changing their content.
+ */
+
+/**
+ * @class XMLFormatter
+ * @classdesc - Re-indents an XML document with each element on its own line.
+ *    Elements that only contain text are kept on one line with their text
+ *    unchanged, and the order of all nodes is kept, so that a formatted
+ *    document imports the same way as the original. Formatting a document
+ *    that is already formatted returns the same document.
+ */
+export default class XMLFormatter {
+  /** The indentation used by the site export job. */
+  public static readonly DEFAULT_INDENT: string = '    ';
+
+  /**
+   * Matches the markup of the document: tags, comments, CDATA & the like. The
+   * quoted attribute values of tags are skipped, since they can contain `>`.
+   */
+  public static readonly MARKUP_REGEX: RegExp = new RegExp(
+    '(<!--[\\s\\S]*?-->|<!\\[CDATA\\[[\\s\\S]*?\\]\\]>|<\\?[\\s\\S]*?\\?>|' +
+    '<!DOCTYPE[^>]*>|<(?:[^>"\']|"[^"]*"|\'[^\']*\')+>)'
+  );
+
+  /**
+   * Formats an XML document.
+   *
+   * @param {string} xml - The XML document.
+   * @param {string} [indent] - The string used to indent each level.
+   * @return {string} - Returns the formatted document.
+   */
+  public static format(
+    xml: string,
+    indent: string = XMLFormatter.DEFAULT_INDENT
+  ): string {
+    // As the markup is captured, the text is at the even & the markup at the
+    // odd indexes of the tokens.
+    const tokens = xml.split(XMLFormatter.MARKUP_REGEX);
+    const lines: string[] = [];
+    let depth = 0;
+
+    /** @function addLine - Adds a line at the current depth. */
+    const addLine = (line: string) => {
+      lines.push(new Array(depth + 1).join(indent) + line);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (i % 2 === 0) {
+        // Text between elements is only kept if it isn't whitespace.
+        if (token.trim()) {
+          addLine(token.trim());
+        }
+      } else if (XMLFormatter.isClosingTag(token)) {
+        depth = Math.max(depth - 1, 0);
+        addLine(token);
+      } else if (XMLFormatter.isOpeningTag(token)) {
+        const closeIndex = XMLFormatter.getTextEnd(tokens, i);
+
+        if (closeIndex > -1) {
+          // Keep an element that only contains text on one line.
+          addLine(tokens.slice(i, closeIndex + 1).join(''));
+          i = closeIndex;
+        } else {
+          addLine(token);
+          depth++;
+        }
+      } else {
+        addLine(token);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Checks if a markup token is a closing tag.
+   *
+   * @param {string} token - The markup token.
+   * @return {boolean} - Returns true for a closing tag.
+   */
+  private static isClosingTag(token: string): boolean {
+    return token.indexOf('</') === 0;
+  }
+
+  /**
+   * Checks if a markup token is the opening tag of an element with content.
+   *
+   * @param {string} token - The markup token.
+   * @return {boolean} - Returns true for an opening tag, and false for self
+   *    closing tags, comments, CDATA sections & declarations.
+   */
+  private static isOpeningTag(token: string): boolean {
+    return /^<[^!?\/]/.test(token) && !/\/>$/.test(token);
+  }
+
+  /**
+   * Gets the index of the closing tag of an element that only contains text &
+   * CDATA sections.
+   *
+   * @param {string[]} tokens - The tokens of the document.
+   * @param {number} openIndex - The index of the opening tag of the element.
+   * @return {number} - Returns the index of the closing tag, or -1 if the
+   *    element contains other elements or comments.
+   */
+  private static getTextEnd(tokens: string[], openIndex: number): number {
+    for (let i = openIndex + 2; i < tokens.length; i += 2) {
+      if (XMLFormatter.isClosingTag(tokens[i])) {
+        return i;
+      } else if (tokens[i].indexOf('<![CDATA[') !== 0) {
+        return -1;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -1,11 +1,13 @@
-import { window, workspace } from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Uri, window, workspace } from 'vscode';
 import { MetadataNode } from '../components/MetadataNode';
 import ObjectAttributeDefinition from '../documents/ObjectAttributeDefinition';
 import ObjectAttributeGroup from '../documents/ObjectAttributeGroup';
 import SiteArchiveExportConfiguration from '../documents/SiteArchiveExportConfiguration';
 import ExportHelper from '../helpers/ExportHelper';
 import OCAPIHelper from '../helpers/OCAPIHelper';
-import WebDAVService from '../services/WebDAVService';
+import { ICustomTypeDefinition } from '../interfaces/ICustomTypeDefinition';
 
 /**
  * @class XMLHandler
@@ -15,7 +17,6 @@ import WebDAVService from '../services/WebDAVService';
 export default class XMLHandler {
   /* Class imports */
   private xmlLib = require('xmlbuilder');
-  private webDAVService = new WebDAVService();
   private ocapiHelper = new OCAPIHelper();
   private ExportHelper = new ExportHelper();
 
@@ -23,6 +24,13 @@ export default class XMLHandler {
   public static NAMESPACE_STRING: string =
     'http://www.demandware.com/xml/impex/metadata/2006-10-31';
 
+  /** The file of the custom object type definitions in an import archive. */
+  public static CUSTOM_TYPES_FILE: string = 'custom-objecttype-definitions.xml';
+
+  /** The file of the system object definitions in an export archive. */
+  public static SYSTEM_OBJECTS_FILE: string =
+    'meta/system-objecttype-extensions.xml';
+
   /** A list of System Objects that support the site-specific flag on attributes. */
   public static FIELD_ATTRIBUTE_MAP: object = {
     'order-required-flag': ['Product'],
@@ -32,9 +40,6 @@ export default class XMLHandler {
     'visible-flag': ['Product']
   };
 
-  public static readonly MAX_JOB_POLLS: number = 50;
-  public static readonly JOB_POLL_INTERVAL: number = 500;
-
   /**
    * @constructor
    */
@@ -47,60 +52,15 @@ export default class XMLHandler {
    * ======================================================================== */
 
   /**
-   * Gets the results of a job execution by making calls on a regular interval
-   * to check and see if the job execution is complete yet.
+   * Creates the root node of a metadata XML document.
    *
-   * @param {string} jobId - The id of the job that was executed.
-   * @param {string} executionId The Id of the execution action.
-   * @return {Promise<boolean>} - A boolean flag indicating if the operation
-   *    completed successfully.
+   * @private
+   * @return {Object} - Returns the xmlbuilder root node.
    */
-  private async getJobExecutionResult(jobId: string, executionId: string): Promise<any> {
-    let jobRunning = true;
-    let jobSuccess = true;
-    let jobExe = null;
-
-    // --- TRY 1 ---
-    jobExe = await this.ExportHelper.getJobExecution(jobId, executionId);
-
-    // Check if job is finished & if it completed successfully.
-    if (jobExe && jobExe.id && jobExe.job_id && jobExe.status) {
-      jobRunning = jobExe.status.toUpperCase() === 'PENDING' ||
-        jobExe.status.toUpperCase() === 'RUNNING';
-    } else {
-      window.showWarningMessage('Error getting job execution result from OCAPI - try 1');
-    }
-
-    /** @function sleep - Promisify the setTimeout method. */
-    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
-
-    // Retry API call until job complete, max calls, or an error.
-    let i = 2;
-    while (jobRunning && i < XMLHandler.MAX_JOB_POLLS) {
-      console.log('Job execution not complete - trying again (' + i + ' try)');
-      await sleep(XMLHandler.JOB_POLL_INTERVAL);
-
-      // Retry call to check if job is completed.
-      jobExe = await this.ExportHelper.getJobExecution(jobId, executionId);
-
-      if (jobExe && jobExe.id && jobExe.job_id && jobExe.status) {
-        jobRunning = jobExe.status.toUpperCase() === 'PENDING' ||
-          jobExe.status.toUpperCase() === 'RUNNING';
-        jobSuccess = jobExe.status.toUpperCase === 'OK';
-      } else {
-        jobSuccess = false;
-        jobRunning = false;
-      }
-
-      i++;
-    }
-
-    // If there was an error show a message and return.
-    if (!jobSuccess) {
-      window.showErrorMessage('Error getting job execution result from OCAPI');
-    }
-
-    return Promise.resolve(jobSuccess);
+  private createMetadataRoot(): any {
+    return new this.xmlLib.create('metadata', {
+      encoding: 'utf-8'
+    }).att('xmlns', XMLHandler.NAMESPACE_STRING);
   }
 
   private getObjectGroupXML(rootNode: any,
@@ -164,6 +124,24 @@ export default class XMLHandler {
       .ele('type-extension', { 'type-id': systemObjectType })
       .ele('custom-attribute-definitions');
 
+    this.addAttributeDefinitionNode(attrDefsNode, systemObjectType, attribute);
+  }
+
+  /**
+   * Adds the XML node of an attribute definition to the attribute definitions
+   * node of a system type extension or a custom type.
+   *
+   * @private
+   * @param {Object} attrDefsNode - The attribute definitions node.
+   * @param {string} objectType - The ID of the object type of the attribute.
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   */
+  private addAttributeDefinitionNode(attrDefsNode: any,
+    objectType: string,
+    attribute: ObjectAttributeDefinition
+  ) {
+    const valType = attribute.valueType.toLocaleLowerCase();
+
     // Create the attribute definition node.
     const attrDefNode = attrDefsNode.ele('attribute-definition', {
       'attribute-id': attribute.id
@@ -187,7 +165,7 @@ export default class XMLHandler {
     attrDefNode.ele('localizable-flag', attribute.localizable);
 
     if (XMLHandler.FIELD_ATTRIBUTE_MAP['site-specific-flag']
-      .indexOf(systemObjectType) > -1
+      .indexOf(objectType) > -1
     ) {
       attrDefNode.ele('site-specific-flag',
         attribute.siteSpecific && !attribute.localizable);
@@ -198,7 +176,7 @@ export default class XMLHandler {
     attrDefNode.ele('mandatory-flag', attribute.mandatory);
 
     if (XMLHandler.FIELD_ATTRIBUTE_MAP['visible-flag']
-      .indexOf(systemObjectType) > -1
+      .indexOf(objectType) > -1
     ) {
       attrDefNode.ele('visible-flag', attribute.visible);
     }
@@ -206,7 +184,7 @@ export default class XMLHandler {
     attrDefNode.ele('externally-managed-flag', attribute.externallyManaged);
 
     if (XMLHandler.FIELD_ATTRIBUTE_MAP['order-required-flag']
-      .indexOf(systemObjectType) > -1
+      .indexOf(objectType) > -1
     ) {
       attrDefNode.ele('order-required-flag', attribute.orderRequired);
     }
@@ -217,7 +195,18 @@ export default class XMLHandler {
     if (valType.toLowerCase() === 'string') {
       // Set min-length for String attributes.
       attrDefNode.ele({ 'min-length': attribute.minLength });
-    } else if (valType.indexOf('enum') > -1 &&
+    }
+
+    // The field size of the attribute in Business Manager.
+    if (attribute.fieldWidth) {
+      attrDefNode.ele('field-length', attribute.fieldWidth);
+    }
+
+    if (attribute.fieldHeight) {
+      attrDefNode.ele('field-height', attribute.fieldHeight);
+    }
+
+    if (valType.indexOf('enum') > -1 &&
       attribute.valueDefinitions &&
       attribute.valueDefinitions.length
     ) {
@@ -236,10 +225,9 @@ export default class XMLHandler {
       });
     }
 
-    if (typeof attribute.defaultValue !== undefined &&
-      attribute.defaultValue.value
-    ) {
-        attrDefNode.ele('default-value', attribute.defaultValue.value);
+    if (attribute.defaultValue && attribute.defaultValue.hasValue()) {
+        attrDefNode.ele('default-value',
+          String(attribute.defaultValue.value));
     }
   }
 
@@ -260,9 +248,7 @@ export default class XMLHandler {
     const systemObjectType = metaNode.parentId.split('.').pop();
 
     // Create the XML document in memory for modification.
-    const rootNode = new this.xmlLib.create('metadata', {
-      encoding: 'utf-8'
-    }).att('xmlns', XMLHandler.NAMESPACE_STRING);
+    const rootNode = this.createMetadataRoot();
 
     if (metaNode.nodeType === 'objectAttributeDefinition') {
       await this.getObjectAttributeXML(rootNode, systemObjectType, metaNode);
@@ -283,14 +269,111 @@ export default class XMLHandler {
   }
 
   /**
-   * Creates a new file in the editor and populates it with the full xml export
-   * of the system object definitions from the configured SFCC isntance.
+   * Gets the metadata XML for creating a custom object type with its key
+   * attribute.
+   *
+   * @param {ICustomTypeDefinition} customType - The settings of the type.
+   * @returns {string} - Returns the XML document.
+   */
+  public getCustomTypeXML(customType: ICustomTypeDefinition): string {
+    const rootNode = this.createMetadataRoot();
+    const typeNode = rootNode.ele('custom-type', {
+      'type-id': customType.typeId
+    });
+
+    typeNode.ele('display-name', { 'xml:lang': 'x-default' },
+      customType.displayName);
+
+    if (customType.description) {
+      typeNode.ele('description', { 'xml:lang': 'x-default' },
+        customType.description);
+    }
+
+    typeNode.ele('staging-mode', 'source-to-target');
+    typeNode.ele('storage-scope', customType.storageScope);
+
+    if (customType.retentionDays) {
+      typeNode.ele('retention-days', customType.retentionDays);
+    }
+
+    const keyNode = typeNode.ele('key-definition', {
+      'attribute-id': customType.keyAttributeId
+    });
+
+    keyNode.ele('type', customType.keyType);
+
+    if (customType.keyType === 'string') {
+      keyNode.ele('min-length', 0);
+    }
+
+    return rootNode.end({ allowEmpty: false, pretty: true });
+  }
+
+  /**
+   * Gets the metadata XML for adding or changing an attribute definition of a
+   * custom object type.
+   *
+   * @param {string} typeId - The ID of the custom object type.
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @returns {string} - Returns the XML document.
+   */
+  public getCustomAttributeXML(
+    typeId: string,
+    attribute: ObjectAttributeDefinition
+  ): string {
+    const rootNode = this.createMetadataRoot();
+    const attrDefsNode = rootNode
+      .ele('custom-type', { 'type-id': typeId })
+      .ele('attribute-definitions');
+
+    this.addAttributeDefinitionNode(attrDefsNode, typeId, attribute);
+
+    return rootNode.end({ allowEmpty: false, pretty: true });
+  }
+
+  /**
+   * Gets the metadata XML for adding or changing a custom attribute definition
+   * of a system object type.
+   *
+   * @param {string} objectType - The ID of the system object type.
+   * @param {ObjectAttributeDefinition} attribute - The attribute definition.
+   * @returns {string} - Returns the XML document.
+   */
+  public getSystemAttributeXML(
+    objectType: string,
+    attribute: ObjectAttributeDefinition
+  ): string {
+    const rootNode = this.createMetadataRoot();
+    const attrDefsNode = rootNode
+      .ele('type-extension', { 'type-id': objectType })
+      .ele('custom-attribute-definitions');
+
+    this.addAttributeDefinitionNode(attrDefsNode, objectType, attribute);
+
+    return rootNode.end({ allowEmpty: false, pretty: true });
+  }
+
+  /**
+   * Gets the metadata XML for deleting a custom object type.
+   *
+   * @param {string} typeId - The ID of the custom object type.
+   * @returns {string} - Returns the XML document.
+   */
+  public getDeleteCustomTypeXML(typeId: string): string {
+    const rootNode = this.createMetadataRoot();
+    rootNode.ele('custom-type', { 'type-id': typeId, 'mode': 'delete' });
+
+    return rootNode.end({ allowEmpty: false, pretty: true });
+  }
+
+  /**
+   * Exports the system object definitions from the configured SFCC instance,
+   * extracts the archive into the export folder, and opens the XML file of
+   * the definitions in the editor.
    *
    * @param {MetadataNode} metaNode - The tree node instance.
    */
   public async getFullXML(metaNode: MetadataNode) {
-    const path = require('path');
-    const AdmZip = require('adm-zip');
     const saeConfig = new SiteArchiveExportConfiguration();
 
     // Setup the call POST data.
@@ -303,45 +386,31 @@ export default class XMLHandler {
       saeConfig.dataUnits.libraries = { all: false };
       saeConfig.dataUnits.libraryStaticResources = { all: false };
       saeConfig.dataUnits.priceBooks = { all: false };
-      saeConfig.dataUnits.sites = { all: false };
+      saeConfig.dataUnits.sites = {};
     }
 
-    const executionResult = await this.ExportHelper.runSystemExport(saeConfig);
-
-    if (executionResult.id && executionResult._type === 'job_execution' && executionResult.job_id) {
-      const exportSuccess = await this.getJobExecutionResult(executionResult.job_id, executionResult.id);
-
-      if (!exportSuccess) {
-        window.showErrorMessage('There was an error running the system export job');
-      } else {
-        window.showInformationMessage('Export completed successfully, retrieving file from webdav...');
-        const exportPath = 'https://{0}/on/demandware.servlet/webdav/Sites/Impex/src/instance/sfccMetaExplorerExport.zip';
-        const rawFile = await this.webDAVService.getFileFromServer(exportPath);
-        window.showInformationMessage('sfccExport.zip succussfully downloaded to project root folder');
-
-        // Un-zip the archive.
-        const filePath = workspace.workspaceFolders[0].uri.toString().substring(8) + path.sep + 'sfccExport.zip';
-        const zip = new AdmZip(filePath);
-        const zipEntries = zip.getEntries();
-        if (zipEntries && zipEntries.length) {
-          zipEntries.forEach(function(zipEntry) {
-            if (zipEntry.name === 'system-objecttype-extensions.xml') {
-              // Create the text document and show in the editor.
-              workspace.openTextDocument({
-                  language: 'xml',
-                  content: zipEntry.getData().toString('utf8')
-              })
-              .then(doc => {
-                window.showTextDocument(doc);
-              });
-            }
-          });
-        } else {
-          window.showErrorMessage('There was an error unzipping the archive');
-        }
-      }
+    let folderPath: string;
+
+    try {
+      folderPath = await this.ExportHelper.runExport(saeConfig);
+    } catch (e) {
+      window.showErrorMessage('There was an error running the system export job: ' +
+        (e.message || e));
+      return;
+    }
+
+    if (!folderPath) {
+      return;
+    }
+
+    const filePath = path.join(folderPath, XMLHandler.SYSTEM_OBJECTS_FILE);
+
+    if (fs.existsSync(filePath)) {
+      const doc = await workspace.openTextDocument(Uri.file(filePath));
+      window.showTextDocument(doc);
     } else {
-      window.showErrorMessage('There was an error triggering the system export job');
+      window.showErrorMessage('The export archive has no ' +
+        XMLHandler.SYSTEM_OBJECTS_FILE + ' file');
     }
   }
 }
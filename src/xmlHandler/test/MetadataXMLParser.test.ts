@@ -0,0 +1,91 @@
+/**
+ * @file MetadataXMLParser.test.ts
+ * @fileoverview - Provides unit testing of the MetadataXMLParser.ts class.
+ */
+import * as assert from 'assert';
+
+import MetadataXMLParser from '../MetadataXMLParser';
+import XMLHandler from '../XMLHandler';
+
+const TEST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<metadata xmlns="${XMLHandler.NAMESPACE_STRING}">
+  <type-extension type-id="Product">
+    <custom-attribute-definitions>
+      <attribute-definition attribute-id="color">
+        <display-name xml:lang="x-default">Color</display-name>
+        <display-name xml:lang="de">Farbe</display-name>
+        <type>enum-of-string</type>
+        <localizable-flag>false</localizable-flag>
+        <mandatory-flag>true</mandatory-flag>
+        <value-definitions>
+          <value-definition>
+            <display xml:lang="x-default">Red</display>
+            <value>red</value>
+          </value-definition>
+        </value-definitions>
+      </attribute-definition>
+      <attribute-definition attribute-id="maxQuantity">
+        <type>int</type>
+        <default-value>5</default-value>
+      </attribute-definition>
+    </custom-attribute-definitions>
+    <group-definitions>
+      <attribute-group group-id="productAttributes">
+        <display-name xml:lang="x-default">Product Attributes</display-name>
+        <attribute attribute-id="color"/>
+        <attribute attribute-id="name"/>
+      </attribute-group>
+    </group-definitions>
+  </type-extension>
+</metadata>`;
+
+// MetadataXMLParser Test Suite
+suite('MetadataXMLParser Tests', () => {
+  const parser = new MetadataXMLParser();
+
+  test('Parses the extended object types', async () => {
+    const objectTypes = await parser.parseXML(TEST_XML);
+    const typeDef = objectTypes[0].objectTypeDefinition;
+
+    assert.equal(objectTypes.length, 1);
+    assert.equal(typeDef.objectType, 'Product');
+    assert.equal(typeDef.attributeDefinitionCount, 2);
+    assert.equal(typeDef.attributeGroupCount, 1);
+  });
+
+  test('Parses the attribute definitions', async () => {
+    const attrDefs = (await parser.parseXML(TEST_XML))[0].attributeDefinitions;
+
+    assert.equal(attrDefs[0].id, 'color');
+    assert.equal(attrDefs[0].valueType, 'enum_of_string');
+    assert.equal(attrDefs[0].displayName.default, 'Color');
+    assert.equal(attrDefs[0].displayName.de, 'Farbe');
+    assert.equal(attrDefs[0].mandatory, true);
+    assert.equal(attrDefs[0].localizable, false);
+    assert.equal(attrDefs[0].valueDefinitions[0].value, 'red');
+    assert.equal(attrDefs[0].valueDefinitions[0].displayValue.default, 'Red');
+    assert.equal(attrDefs[1].defaultValue.value, '5');
+  });
+
+  test('Parses the attribute groups', async () => {
+    const group = (await parser.parseXML(TEST_XML))[0].attributeGroups[0];
+
+    assert.equal(group.id, 'productAttributes');
+    assert.equal(group.displayName, 'Product Attributes');
+    assert.equal(group.attributeDefinitionsCount, 2);
+    assert.equal(group.attributeDefinitions[0].valueType, 'enum_of_string');
+    assert.equal(group.attributeDefinitions[1].id, 'name');
+  });
+
+  test('Rejects XML that is not in the metadata namespace', async () => {
+    let error;
+
+    try {
+      await parser.parseXML('<metadata xmlns="urn:other"></metadata>');
+    } catch (e) {
+      error = e;
+    }
+
+    assert.equal(error, 'The file is not a metadata XML file');
+  });
+});
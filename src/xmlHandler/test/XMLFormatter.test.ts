@@ -0,0 +1,52 @@
+/**
+ * @file XMLFormatter.test.ts
+ * @fileoverview - Provides unit testing of the XMLFormatter.ts class.
+ */
+import * as assert from 'assert';
+
+import XMLFormatter from '../XMLFormatter';
+
+const FORMATTED_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<metadata xmlns="http://www.demandware.com/xml/impex/metadata/2006-10-31">
+    <type-extension type-id="Product">
+        <!-- Custom attributes -->
+        <custom-attribute-definitions>
+            <attribute-definition attribute-id="color">
+                <display-name xml:lang="x-default">Color</display-name>
+                <description xml:lang="x-default"><![CDATA[A <b>color</b>]]></description>
+                <type>string</type>
+                <min-length/>
+                <default-value>  red  </default-value>
+            </attribute-definition>
+        </custom-attribute-definitions>
+    </type-extension>
+</metadata>
+`;
+
+// XMLFormatter Test Suite
+suite('XMLFormatter Tests', () => {
+  test('Indents unformatted XML', () => {
+    const xml = FORMATTED_XML.split('\n').map(line => line.trim()).join('');
+
+    assert.equal(XMLFormatter.format(xml), FORMATTED_XML);
+  });
+
+  test('Keeps formatted XML unchanged', () => {
+    assert.equal(XMLFormatter.format(FORMATTED_XML), FORMATTED_XML);
+  });
+
+  test('Re-indents with the given indentation', () => {
+    assert.equal(
+      XMLFormatter.format('<a>\r\n<b>1</b>\r\n<c><d/></c></a>', '  '),
+      '<a>\n  <b>1</b>\n  <c>\n    <d/>\n  </c>\n</a>\n'
+    );
+  });
+
+  test('Keeps a > inside quoted attribute values', () => {
+    assert.equal(
+      XMLFormatter.format('<a><b regex="^a>b$" c=\'x>"y"\'/><d e="1>0">text' +
+        '</d></a>'),
+      '<a>\n    <b regex="^a>b$" c=\'x>"y"\'/>\n    <d e="1>0">text</d>\n</a>\n'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @file XMLHandler.test.ts
+ * @fileoverview - Provides unit testing of the custom object type XML of the
+ *    XMLHandler.ts class.
+ */
+import * as assert from 'assert';
+
+import ObjectAttributeDefinition from '../../documents/ObjectAttributeDefinition';
+import XMLHandler from '../XMLHandler';
+
+// XMLHandler Test Suite
+suite('XMLHandler Tests', () => {
+  const xmlHandler = new XMLHandler();
+
+  test('Creates the XML of a custom object type', () => {
+    const xml = xmlHandler.getCustomTypeXML({
+      displayName: 'Newsletter Subscription',
+      keyAttributeId: 'email',
+      keyType: 'string',
+      retentionDays: 30,
+      storageScope: 'site',
+      typeId: 'NewsletterSubscription'
+    });
+
+    assert.ok(xml.indexOf('<custom-type type-id="NewsletterSubscription">') > -1);
+    assert.ok(xml.indexOf('<storage-scope>site</storage-scope>') > -1);
+    assert.ok(xml.indexOf('<retention-days>30</retention-days>') > -1);
+    assert.ok(xml.indexOf('<key-definition attribute-id="email">') > -1);
+    assert.ok(xml.indexOf('<description') === -1);
+
+    // The elements need to be in the order of the import schema.
+    assert.ok(xml.indexOf('<display-name') < xml.indexOf('<staging-mode>'));
+    assert.ok(xml.indexOf('<storage-scope>') < xml.indexOf('<retention-days>'));
+    assert.ok(xml.indexOf('<retention-days>') < xml.indexOf('<key-definition'));
+  });
+
+  test('Leaves out the retention days of types that are kept', () => {
+    const xml = xmlHandler.getCustomTypeXML({
+      displayName: 'Store Feed',
+      keyAttributeId: 'ID',
+      keyType: 'int',
+      storageScope: 'organization',
+      typeId: 'StoreFeed'
+    });
+
+    assert.ok(xml.indexOf('<retention-days>') === -1);
+    assert.ok(xml.indexOf('<min-length>') === -1);
+  });
+
+  test('Creates the XML of a custom object attribute', () => {
+    const xml = xmlHandler.getCustomAttributeXML('StoreFeed',
+      new ObjectAttributeDefinition({
+        display_name: { default: 'Feed URL' },
+        id: 'feedUrl',
+        mandatory: true,
+        value_type: 'string'
+      }));
+
+    assert.ok(xml.indexOf('<custom-type type-id="StoreFeed">') > -1);
+    assert.ok(xml.indexOf('<attribute-definitions>') > -1);
+    assert.ok(xml.indexOf('<attribute-definition attribute-id="feedUrl">') > -1);
+    assert.ok(xml.indexOf('<mandatory-flag>true</mandatory-flag>') > -1);
+    assert.ok(xml.indexOf('<site-specific-flag>') === -1);
+  });
+
+  test('Creates the XML for deleting a custom object type', () => {
+    assert.ok(xmlHandler.getDeleteCustomTypeXML('StoreFeed')
+      .indexOf('<custom-type type-id="StoreFeed" mode="delete"/>') > -1);
+  });
+});